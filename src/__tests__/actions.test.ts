@@ -6,7 +6,18 @@ import {
   getTrendingAction,
   getNewPairsAction,
   getPairsByChainAction,
+  createAlertAction,
+  showWatchlistAction,
+  unwatchTokenAction,
+  riskCheckAction,
+  compareTokensAction,
+  priceAggregationAction,
+  arbitrageAction,
+  screenPairsAction,
+  indicatorsAction,
+  spikingAction,
 } from '../actions';
+import { calculateIndicators } from '../indicators';
 import { DexScreenerService } from '../service';
 
 // Create a valid UUID for testing
@@ -26,6 +37,10 @@ describe('DexScreener Actions', () => {
       getTrending: vi.fn(),
       getNewPairs: vi.fn(),
       getPairsByChain: vi.fn(),
+      discoverChainPairs: vi.fn(),
+      screen: vi.fn(),
+      getAnomalies: vi.fn(),
+      checkOrderStatus: vi.fn().mockResolvedValue({ success: true, data: [] }),
       formatPrice: vi.fn((price) => price.toString()),
       formatPriceChange: vi.fn((change) => `${change}%`),
       formatUsdValue: vi.fn((value) => `$${value}`),
@@ -153,6 +168,98 @@ describe('DexScreener Actions', () => {
       });
       expect(result.text).toContain('USD Coin (USDC)');
       expect(result.text).toContain('Token Information');
+      expect(result.text).toContain('**Risk Score:**');
+      // Scored from the pairs alone, without the orders lookup
+      expect(mockService.checkOrderStatus).not.toHaveBeenCalled();
+    });
+
+    it('should look up non-EVM addresses on their chain', async () => {
+      mockService.getTokenPairsByChain = vi.fn().mockResolvedValue({
+        success: true,
+        data: [
+          {
+            baseToken: {
+              name: 'USD Coin',
+              symbol: 'USDC',
+              address: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+            },
+            quoteToken: { symbol: 'SOL' },
+            dexId: 'raydium',
+            chainId: 'solana',
+            priceUsd: '1',
+            priceChange: { h24: 0 },
+            volume: { h24: 1000000 },
+            liquidity: { usd: 5000000 },
+          },
+        ],
+      });
+
+      const message: Memory = {
+        id: testUUID,
+        userId: testUUID,
+        agentId: testUUID,
+        roomId: testUUID,
+        entityId: testUUID,
+        content: { text: 'Get token info for EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v' },
+        type: 'message',
+        createdAt: Date.now(),
+      };
+
+      const result = await getTokenInfoAction.handler(mockRuntime, message);
+
+      expect(mockService.getTokenPairsByChain).toHaveBeenCalledWith(
+        'solana',
+        'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v'
+      );
+      expect(mockService.getTokenPairs).not.toHaveBeenCalled();
+      expect(result.text).toContain('USD Coin (USDC)');
+    });
+
+    it('should explain rate limiting instead of a raw error', async () => {
+      (mockService.getTokenPairs as any).mockResolvedValue({
+        success: false,
+        error: { code: 'RATE_LIMITED', message: 'Too many requests', status: 429, retryable: true },
+      });
+
+      const message: Memory = {
+        id: testUUID,
+        userId: testUUID,
+        agentId: testUUID,
+        roomId: testUUID,
+        entityId: testUUID,
+        content: { text: 'Get token info for 0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48' },
+        type: 'message',
+        createdAt: Date.now(),
+      };
+
+      const result = await getTokenInfoAction.handler(mockRuntime, message);
+
+      expect(result.text).toContain('rate limiting');
+      expect(result.text).toContain('try again');
+    });
+
+    it('should report unknown tokens as not found', async () => {
+      (mockService.getTokenPairs as any).mockResolvedValue({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Not found', status: 404, retryable: false },
+      });
+
+      const message: Memory = {
+        id: testUUID,
+        userId: testUUID,
+        agentId: testUUID,
+        roomId: testUUID,
+        entityId: testUUID,
+        content: { text: 'Get token info for 0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48' },
+        type: 'message',
+        createdAt: Date.now(),
+      };
+
+      const result = await getTokenInfoAction.handler(mockRuntime, message);
+
+      expect(result.text).toBe(
+        'DexScreener has no data for token 0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48.'
+      );
     });
   });
 
@@ -211,6 +318,47 @@ describe('DexScreener Actions', () => {
       expect(result.text).toContain('Trending Tokens (6h)');
       expect(result.text).toContain('HOT/USDC');
     });
+
+    it('should rank by mode and show metrics for the chosen window', async () => {
+      (mockService.getTrending as any).mockResolvedValue({
+        success: true,
+        data: [
+          {
+            baseToken: { symbol: 'DUMP' },
+            quoteToken: { symbol: 'SOL' },
+            priceUsd: '0.5',
+            priceChange: { h1: -12, h24: 40 },
+            volume: { m5: 500, h1: 2000, h24: 9000 },
+            txns: { h1: { buys: 20, sells: 80 }, h24: { buys: 300, sells: 200 } },
+          },
+        ],
+      });
+
+      const message: Memory = {
+        id: testUUID,
+        userId: testUUID,
+        agentId: testUUID,
+        roomId: testUUID,
+        entityId: testUUID,
+        content: { text: 'Top losers on solana in the last 1h' },
+        type: 'message',
+        createdAt: Date.now(),
+      };
+
+      expect(await getTrendingAction.validate(mockRuntime, message)).toBe(true);
+      const result = await getTrendingAction.handler(mockRuntime, message);
+
+      expect(mockService.getTrending).toHaveBeenCalledWith({
+        timeframe: '1h',
+        limit: 10,
+        mode: 'losers',
+        chain: 'solana',
+      });
+      expect(result.text).toContain('Top Losers (1h on solana)');
+      expect(result.text).toContain('(1h: -12%)');
+      expect(result.text).toContain('1h Vol: $2000 (3.0x pace)');
+      expect(result.text).toContain('1h Buys: 20 | Sells: 80');
+    });
   });
 
   describe('getNewPairsAction', () => {
@@ -265,9 +413,42 @@ describe('DexScreener Actions', () => {
       expect(mockService.getNewPairs).toHaveBeenCalledWith({
         chain: 'ethereum',
         limit: 5,
+        seenKey: testUUID,
       });
       expect(result.text).toContain('New Trading Pairs on ethereum');
       expect(result.text).toContain('NEW/WETH');
+      expect(result.text).toContain('Created: 1h ago on uniswap (ethereum)');
+    });
+
+    it('should pass age, liquidity, volume and DEX filters', async () => {
+      (mockService.getNewPairs as any).mockResolvedValue({ success: true, data: [] });
+
+      const message: Memory = {
+        id: testUUID,
+        userId: testUUID,
+        agentId: testUUID,
+        roomId: testUUID,
+        entityId: testUUID,
+        content: {
+          text: 'New pools on raydium from the last 30 minutes with liquidity over $50k and volume 10k',
+        },
+        type: 'message',
+        createdAt: Date.now(),
+      };
+
+      const result = await getNewPairsAction.handler(mockRuntime, message);
+
+      expect(mockService.getNewPairs).toHaveBeenCalledWith({
+        chain: undefined,
+        limit: 10,
+        dex: 'raydium',
+        maxAge: 30 * 60000,
+        minLiquidity: 50000,
+        minVolume: 10000,
+        seenKey: testUUID,
+      });
+      expect(result.text).toContain('No new pairs found');
+      expect(result.text).toContain('created in the last 30m, on raydium, liquidity ≥ $50000');
     });
   });
 
@@ -299,9 +480,14 @@ describe('DexScreener Actions', () => {
         },
       ];
 
-      (mockService.getPairsByChain as any).mockResolvedValue({
+      (mockService.discoverChainPairs as any).mockResolvedValue({
         success: true,
-        data: mockPairs,
+        data: {
+          chainId: 'polygon',
+          pairs: mockPairs,
+          queries: ['WMATIC'],
+          collectedAt: Date.UTC(2024, 0, 1, 12, 34),
+        },
       });
 
       const message: Memory = {
@@ -317,12 +503,668 @@ describe('DexScreener Actions', () => {
 
       const result = await getPairsByChainAction.handler(mockRuntime, message);
 
-      expect(mockService.getPairsByChain).toHaveBeenCalledWith({
+      expect(mockService.discoverChainPairs).toHaveBeenCalledWith({
         chain: 'polygon',
         sortBy: 'liquidity',
         limit: 10,
       });
       expect(result.text).toContain('Top Polygon Pairs by liquidity');
+      expect(result.text).toContain('Collected at 12:34 UTC');
+    });
+  });
+
+  describe('createAlertAction', () => {
+    const alertMessage = (text: string): Memory => ({
+      id: testUUID,
+      userId: testUUID,
+      agentId: testUUID,
+      roomId: testUUID,
+      entityId: testUUID,
+      content: { text, source: 'discord' },
+      type: 'message',
+      createdAt: Date.now(),
+    });
+
+    it('should validate alert requests', async () => {
+      expect(
+        await createAlertAction.validate(
+          mockRuntime,
+          alertMessage('Alert me when PEPE drops below $0.000008')
+        )
+      ).toBe(true);
+      expect(
+        await createAlertAction.validate(mockRuntime, alertMessage('Cancel alert 1a2b3c4d'))
+      ).toBe(false);
+    });
+
+    it('should create the alert in the message room', async () => {
+      const mockAlertService = {
+        createAlert: vi.fn().mockResolvedValue({
+          success: true,
+          data: {
+            alert: {
+              id: '1a2b3c4d-0000-4000-8000-000000000000',
+              target: { chainId: 'ethereum', tokenAddress: '0xpepe', label: 'PEPE' },
+              metric: 'price',
+              direction: 'below',
+              threshold: 0.000008,
+              repeat: false,
+              armed: true,
+            },
+            value: 0.00001,
+            pair: { dexId: 'uniswap', chainId: 'ethereum' },
+          },
+        }),
+      };
+      (mockRuntime.getService as any).mockImplementation((name: string) =>
+        name === 'dexscreener_alerts' ? mockAlertService : mockService
+      );
+
+      const result = await createAlertAction.handler(
+        mockRuntime,
+        alertMessage('Alert me when PEPE drops below $0.000008')
+      );
+
+      expect(mockRuntime.getService).toHaveBeenCalledWith('dexscreener_alerts');
+      expect(mockAlertService.createAlert).toHaveBeenCalledWith(
+        expect.objectContaining({ direction: 'below', threshold: 0.000008 }),
+        { roomId: testUUID, entityId: testUUID, source: 'discord' }
+      );
+      expect(result.text).toContain('Alert Created');
+      expect(result.text).toContain('1a2b3c4d');
+      expect(result.text).toContain('PEPE price below $0.000008');
+    });
+  });
+
+  describe('showWatchlistAction', () => {
+    it('should render the watchlist as one table', async () => {
+      (mockService as any).getMultipleTokens = vi.fn().mockResolvedValue({
+        success: true,
+        data: [
+          {
+            chainId: 'ethereum',
+            baseToken: { address: '0xpepe', symbol: 'PEPE' },
+            quoteToken: { symbol: 'WETH' },
+            priceUsd: '0.00001',
+            priceChange: { h24: 12 },
+            volume: { h24: 500000 },
+            liquidity: { usd: 2000000 },
+          },
+        ],
+      });
+      (mockRuntime as any).getCache = vi.fn().mockResolvedValue({
+        [testUUID]: [
+          { chainId: 'ethereum', tokenAddress: '0xpepe', symbol: 'PEPE', addedAt: 0 },
+          { chainId: 'ethereum', tokenAddress: '0xgone', symbol: 'GONE', addedAt: 0 },
+        ],
+      });
+
+      const message: Memory = {
+        id: testUUID,
+        userId: testUUID,
+        agentId: testUUID,
+        roomId: testUUID,
+        entityId: testUUID,
+        content: { text: 'Show my watchlist' },
+        type: 'message',
+        createdAt: Date.now(),
+      };
+
+      expect(await showWatchlistAction.validate(mockRuntime, message)).toBe(true);
+      const result = await showWatchlistAction.handler(mockRuntime, message);
+
+      expect(mockService.getMultipleTokens).toHaveBeenCalledWith('ethereum', ['0xpepe', '0xgone']);
+      expect(result.text).toContain('| Token | Chain | Price | 24h | Liquidity | 24h Volume |');
+      expect(result.text).toContain('| PEPE | ethereum | 0.00001 | 12% | $2000000 | $500000 |');
+      expect(result.text).toContain('| GONE | ethereum | N/A | N/A | N/A | N/A |');
+    });
+  });
+
+  describe('unwatchTokenAction', () => {
+    const otherUUID = '550e8400-e29b-41d4-a716-446655440001' as UUID;
+    const pepe = {
+      chainId: 'ethereum',
+      tokenAddress: '0xpepe',
+      symbol: 'PEPE',
+      pairAddress: '0xpepeweth',
+      addedAt: 0,
+    };
+    let mockSnapshots: any;
+
+    const unwatch = async (room: Record<string, any[]>) => {
+      let stored = room;
+      mockSnapshots = { untrackPair: vi.fn().mockResolvedValue(true) };
+      (mockRuntime.getService as any).mockImplementation((name: string) =>
+        name === 'dexscreener_snapshots' ? mockSnapshots : mockService
+      );
+      (mockRuntime as any).getCache = vi.fn(async () => stored);
+      (mockRuntime as any).setCache = vi.fn(async (_key: string, value: any) => {
+        stored = value;
+        return true;
+      });
+
+      return unwatchTokenAction.handler(mockRuntime, {
+        id: testUUID,
+        agentId: testUUID,
+        roomId: testUUID,
+        entityId: testUUID,
+        content: { text: 'Unwatch PEPE' },
+        createdAt: Date.now(),
+      } as Memory);
+    };
+
+    it('should release the pair for this watchlist only', async () => {
+      const result = await unwatch({ [testUUID]: [pepe], [otherUUID]: [pepe] });
+
+      expect(result.text).toBe('Removed **PEPE** (ethereum) from your watchlist.');
+      expect(mockSnapshots.untrackPair).toHaveBeenCalledWith(
+        'ethereum',
+        '0xpepeweth',
+        `${testUUID}:${testUUID}`
+      );
+    });
+  });
+
+  describe('getTokenInfoAction with earlier tokens', () => {
+    it('should look up the token discussed earlier in the room', async () => {
+      (mockRuntime as any).getMemories = vi.fn().mockResolvedValue([
+        {
+          content: {
+            text: 'Discussed BONK',
+            token: {
+              chainId: 'solana',
+              tokenAddress: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263',
+              symbol: 'BONK',
+              firstSeenAt: 0,
+              lastSeenAt: 0,
+              mentionCount: 1,
+            },
+          },
+        },
+      ]);
+      (mockService as any).getTokenPairsByChain = vi.fn().mockResolvedValue({
+        success: true,
+        data: [
+          {
+            baseToken: {
+              name: 'Bonk',
+              symbol: 'BONK',
+              address: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263',
+            },
+            quoteToken: { symbol: 'SOL' },
+            dexId: 'raydium',
+            chainId: 'solana',
+            priceUsd: '0.00002',
+            priceChange: { h24: 3 },
+            volume: { h24: 1000 },
+            liquidity: { usd: 5000 },
+          },
+        ],
+      });
+
+      const message: Memory = {
+        id: testUUID,
+        userId: testUUID,
+        agentId: testUUID,
+        roomId: testUUID,
+        entityId: testUUID,
+        content: { text: "What's the price of that token from earlier?" },
+        type: 'message',
+        createdAt: Date.now(),
+      };
+
+      const result = await getTokenInfoAction.handler(mockRuntime, message);
+
+      expect(mockService.getTokenPairsByChain).toHaveBeenCalledWith(
+        'solana',
+        'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263'
+      );
+      expect(result.text).toContain('Bonk (BONK)');
+    });
+  });
+
+  describe('riskCheckAction', () => {
+    const rug = '0x6982508145454Ce325dDbE47a25d4ec3d2311933';
+
+    it('should score the token with itemised reasons', async () => {
+      (mockService.getTokenPairs as any).mockResolvedValue({
+        success: true,
+        data: [
+          {
+            chainId: 'ethereum',
+            baseToken: { name: 'Rugged', symbol: 'RUG', address: rug },
+            quoteToken: { symbol: 'WETH' },
+            txns: { h24: { buys: 10, sells: 90 } },
+            liquidity: { usd: 5000 },
+            pairCreatedAt: Date.now() - 3600000,
+          },
+        ],
+      });
+
+      const message: Memory = {
+        id: testUUID,
+        userId: testUUID,
+        agentId: testUUID,
+        roomId: testUUID,
+        entityId: testUUID,
+        content: { text: `Is ${rug} a rug?` },
+        type: 'message',
+        createdAt: Date.now(),
+      };
+
+      expect(await riskCheckAction.validate(mockRuntime, message)).toBe(true);
+      const result = await riskCheckAction.handler(mockRuntime, message);
+
+      expect(mockService.checkOrderStatus).toHaveBeenCalledWith('ethereum', rug, {});
+      expect(result.text).toContain('Risk Check: Rugged (RUG)');
+      expect(result.text).toContain('+30 Very low liquidity ($5000)');
+      expect(result.text).toContain('90% of 24h transactions are sells');
+      expect(result.data.score).toBeGreaterThanOrEqual(75);
+    });
+  });
+
+  describe('compareTokensAction', () => {
+    const compareMessage = (text: string): Memory => ({
+      id: testUUID,
+      userId: testUUID,
+      agentId: testUUID,
+      roomId: testUUID,
+      entityId: testUUID,
+      content: { text },
+      type: 'message',
+      createdAt: Date.now(),
+    });
+
+    it('should compare the most liquid pair of each token', async () => {
+      (mockService.search as any).mockImplementation(async ({ query }: any) => ({
+        success: true,
+        data: [
+          {
+            chainId: 'ethereum',
+            baseToken: { symbol: query, address: `0x${query}` },
+            quoteToken: { symbol: 'WETH' },
+            priceUsd: '1',
+            priceChange: { h24: 1 },
+            volume: { h24: 100 },
+            liquidity: { usd: 1000 },
+          },
+          {
+            chainId: 'solana',
+            baseToken: { symbol: query, address: `${query}mint` },
+            quoteToken: { symbol: 'SOL' },
+            priceUsd: '2',
+            priceChange: { h24: 2 },
+            volume: { h24: 200 },
+            liquidity: { usd: 9000 },
+          },
+        ],
+      }));
+
+      const message = compareMessage('Compare PEPE vs WIF');
+      expect(await compareTokensAction.validate(mockRuntime, message)).toBe(true);
+
+      const result = await compareTokensAction.handler(mockRuntime, message);
+
+      expect(result.text).toContain('Token Comparison');
+      expect(result.text).toContain('| | PEPE (solana) | WIF (solana) |');
+      expect(result.text).toContain('WIF vs PEPE');
+      expect(result.data).toHaveLength(2);
+    });
+
+    it('should ask for more tokens when only one is given', async () => {
+      expect(await compareTokensAction.validate(mockRuntime, compareMessage('compare PEPE'))).toBe(
+        false
+      );
+    });
+  });
+
+  describe('priceAggregationAction', () => {
+    it('should show the weighted price, deviations and liquidity breakdown', async () => {
+      const token = '0x6982508145454Ce325dDbE47a25d4ec3d2311933';
+      const pair = (dexId: string, priceUsd: string, liquidity: number) => ({
+        chainId: 'ethereum',
+        dexId,
+        pairAddress: `0x${dexId}`,
+        baseToken: { name: 'Pepe', symbol: 'PEPE', address: token },
+        quoteToken: { symbol: 'WETH', address: '0xweth' },
+        priceNative: '0.0000001',
+        priceUsd,
+        liquidity: { usd: liquidity },
+      });
+      (mockService.getTokenPairs as any).mockResolvedValue({
+        success: true,
+        data: [pair('uniswap', '1', 990000), pair('sushiswap', '2', 10000)],
+      });
+
+      const message: Memory = {
+        id: testUUID,
+        userId: testUUID,
+        agentId: testUUID,
+        roomId: testUUID,
+        entityId: testUUID,
+        content: { text: `Where does ${token} trade?` },
+        type: 'message',
+        createdAt: Date.now(),
+      };
+
+      expect(await priceAggregationAction.validate(mockRuntime, message)).toBe(true);
+      const result = await priceAggregationAction.handler(mockRuntime, message);
+
+      expect(result.text).toContain('Price Across Pairs: PEPE');
+      expect(result.text).toContain('across 2 pairs');
+      expect(result.text).toContain('on sushiswap (ethereum)');
+      expect(result.text).toContain('⚠️ outlier');
+      expect(result.text).toContain('• uniswap: $990000 (99.0%, 1 pair)');
+      expect(result.text).toContain('• ethereum: $1000000 (100.0%, 2 pairs)');
+      expect(result.data.weightedPrice).toBeCloseTo(1.01);
+    });
+  });
+
+  describe('arbitrageAction', () => {
+    const arbMessage = (text: string): Memory => ({
+      id: testUUID,
+      userId: testUUID,
+      agentId: testUUID,
+      roomId: testUUID,
+      entityId: testUUID,
+      content: { text },
+      type: 'message',
+      createdAt: Date.now(),
+    });
+
+    it('should list opportunities for a token net of fees', async () => {
+      const token = '0x6982508145454Ce325dDbE47a25d4ec3d2311933';
+      const pair = (dexId: string, chainId: string, priceUsd: string) => ({
+        chainId,
+        dexId,
+        pairAddress: `0x${dexId}`,
+        baseToken: { name: 'Pepe', symbol: 'PEPE', address: token },
+        quoteToken: { symbol: 'WETH', address: '0xweth' },
+        priceNative: '0.0000001',
+        priceUsd,
+        liquidity: { usd: 50000 },
+      });
+      (mockService.getTokenPairs as any).mockResolvedValue({
+        success: true,
+        data: [pair('uniswap', 'ethereum', '1'), pair('aerodrome', 'base', '1.05')],
+      });
+      (mockRuntime as any).getSetting = vi.fn().mockReturnValue(undefined);
+
+      const message = arbMessage(`Any arbitrage on ${token}?`);
+      expect(await arbitrageAction.validate(mockRuntime, message)).toBe(true);
+      const result = await arbitrageAction.handler(mockRuntime, message);
+
+      expect(mockService.getTokenPairs).toHaveBeenCalledWith({ tokenAddress: token }, {});
+      expect(result.text).toContain('buy on uniswap (ethereum) at $1 → sell on aerodrome (base) at $1.05');
+      expect(result.text).toContain('cross-chain');
+      expect(result.text).toContain('Assuming 0.3% fees and slippage per trade');
+      expect(result.data[0].netSpread).toBeCloseTo(4.4);
+    });
+
+    it('should ask for a token when none is given or configured', async () => {
+      (mockRuntime as any).getSetting = vi.fn().mockReturnValue(undefined);
+
+      const result = await arbitrageAction.handler(mockRuntime, arbMessage('scan for arbs'));
+
+      expect(result.text).toContain('Please provide a token address');
+    });
+  });
+
+  describe('screenPairsAction', () => {
+    const screenMessage = (text: string): Memory => ({
+      id: testUUID,
+      userId: testUUID,
+      agentId: testUUID,
+      roomId: testUUID,
+      entityId: testUUID,
+      content: { text },
+      type: 'message',
+      createdAt: Date.now(),
+    });
+
+    it('should pass the expression to the service and list the matches', async () => {
+      (mockService.screen as any).mockResolvedValue({
+        success: true,
+        data: {
+          query: { conditions: [] },
+          pairs: [
+            {
+              chainId: 'base',
+              dexId: 'aerodrome',
+              pairAddress: '0xpair',
+              baseToken: { symbol: 'BRETT' },
+              quoteToken: { symbol: 'WETH' },
+              priceNative: '0.00005',
+              priceUsd: '0.15',
+              liquidity: { usd: 80000 },
+              volume: { h24: 1500000 },
+              priceChange: { h24: 12 },
+              pairCreatedAt: Date.now() - 5 * 3600000,
+            },
+          ],
+          candidates: 40,
+          collectedAt: Date.now(),
+        },
+      });
+
+      const message = screenMessage('show me pairs with chain=base liq>50k and vol24h>1m please');
+      expect(await screenPairsAction.validate(mockRuntime, message)).toBe(true);
+      const result = await screenPairsAction.handler(mockRuntime, message);
+
+      expect(mockService.screen).toHaveBeenCalledWith({ query: 'chain=base liq>50k vol24h>1m' });
+      expect(result.text).toContain('1 of 40 candidate pairs match');
+      expect(result.text).toContain('**1. BRETT/WETH** on aerodrome (base)');
+      expect(result.text).toContain('Age: 5h');
+    });
+
+    it('should list every problem in a malformed query without calling the service', async () => {
+      const result = await screenPairsAction.handler(
+        mockRuntime,
+        screenMessage('screen liqq>50k vol24h>lots')
+      );
+
+      expect(mockService.screen).not.toHaveBeenCalled();
+      expect(result.text).toContain('• Unknown field "liqq"');
+      expect(result.text).toContain('• Invalid number "lots"');
+      expect(result.text).toContain('Example:');
+    });
+
+    it('should not claim ordinary messages', async () => {
+      expect(await screenPairsAction.validate(mockRuntime, screenMessage('what is 2+2?'))).toBe(
+        false
+      );
+    });
+  });
+
+  describe('indicatorsAction', () => {
+    const pepePair = {
+      chainId: 'ethereum',
+      dexId: 'uniswap',
+      pairAddress: '0xpepeweth',
+      baseToken: { symbol: 'PEPE', address: '0xpepe' },
+      quoteToken: { symbol: 'WETH', address: '0xweth' },
+      priceNative: '0.0000001',
+      priceUsd: '0.00001',
+      liquidity: { usd: 1000000 },
+    };
+    let mockSnapshots: any;
+
+    const indicatorMessage = (text: string): Memory => ({
+      id: testUUID,
+      userId: testUUID,
+      agentId: testUUID,
+      roomId: testUUID,
+      entityId: testUUID,
+      content: { text },
+      type: 'message',
+      createdAt: Date.now(),
+    });
+
+    beforeEach(() => {
+      mockSnapshots = {
+        trackPair: vi.fn(),
+        isTracked: vi.fn().mockResolvedValue(false),
+        getIndicators: vi.fn(),
+      };
+      (mockRuntime.getService as any).mockImplementation((name: string) =>
+        name === 'dexscreener_snapshots' ? mockSnapshots : mockService
+      );
+      (mockService.search as any).mockResolvedValue({
+        success: true,
+        data: [
+          { ...pepePair, pairAddress: '0xthin', liquidity: { usd: 10 } },
+          pepePair,
+          { ...pepePair, pairAddress: '0xusdc', quoteToken: { symbol: 'USDC' } },
+        ],
+      });
+    });
+
+    it('should resolve the pair and show indicators annotated with their history', async () => {
+      const candles = Array.from({ length: 20 }, (_, i) => ({
+        time: i * 900000,
+        open: 1 + i,
+        high: 1 + i,
+        low: 1 + i,
+        close: 1 + i,
+        volume: 10,
+        samples: 1,
+        gap: false,
+      }));
+      mockSnapshots.getIndicators.mockImplementation(
+        async (_chainId: string, _pairAddress: string, resolution: any, requests: any) =>
+          calculateIndicators(candles, resolution, requests)
+      );
+
+      const message = indicatorMessage('RSI of PEPE/WETH on 15m');
+      expect(await indicatorsAction.validate(mockRuntime, message)).toBe(true);
+      const result = await indicatorsAction.handler(mockRuntime, message);
+
+      expect(mockService.search).toHaveBeenCalledWith({ query: 'PEPE/WETH' });
+      expect(mockSnapshots.getIndicators).toHaveBeenCalledWith('ethereum', '0xpepeweth', '15m', [
+        { name: 'rsi' },
+      ]);
+      expect(result.text).toContain('**📐 PEPE/WETH indicators (15m)** on uniswap (ethereum)');
+      expect(result.text).toContain('• **RSI(14):** 100.0 _(⚠️ low confidence: 20 candles');
+    });
+
+    it('should point to watching a pair without history instead of recording it', async () => {
+      mockSnapshots.getIndicators.mockResolvedValue(calculateIndicators([], '1h'));
+
+      const result = await indicatorsAction.handler(
+        mockRuntime,
+        indicatorMessage('indicators for PEPE hourly')
+      );
+
+      expect(mockSnapshots.getIndicators).toHaveBeenCalledWith(
+        'ethereum',
+        '0xpepeweth',
+        '1h',
+        undefined
+      );
+      expect(mockSnapshots.trackPair).not.toHaveBeenCalled();
+      expect(mockSnapshots.isTracked).toHaveBeenCalledWith('ethereum', '0xpepeweth');
+      expect(result.text).toContain(
+        'No recorded price history for **PEPE/WETH** yet. Watch PEPE to start recording it'
+      );
+    });
+
+    it('should not quote a candle requirement when no indicator was computed', async () => {
+      mockSnapshots.getIndicators.mockResolvedValue(calculateIndicators([], '1h', []));
+
+      const result = await indicatorsAction.handler(
+        mockRuntime,
+        indicatorMessage('indicators for PEPE hourly')
+      );
+
+      expect(result.text).toBe(
+        'No recorded price history for **PEPE/WETH** yet. Watch PEPE to start recording it.'
+      );
+    });
+
+    it('should not claim unrelated messages', async () => {
+      expect(
+        await indicatorsAction.validate(mockRuntime, indicatorMessage('What is the price of PEPE?'))
+      ).toBe(false);
+    });
+  });
+
+  describe('spikingAction', () => {
+    const spikingMessage = (text: string): Memory => ({
+      id: testUUID,
+      userId: testUUID,
+      agentId: testUUID,
+      roomId: testUUID,
+      entityId: testUUID,
+      content: { text },
+      type: 'message',
+      createdAt: Date.now(),
+    });
+
+    it('should list spiking pairs with their signals', async () => {
+      (mockService.getAnomalies as any).mockResolvedValue({
+        success: true,
+        data: [
+          {
+            pair: {
+              chainId: 'solana',
+              dexId: 'raydium',
+              baseToken: { symbol: 'WIF' },
+              quoteToken: { symbol: 'SOL' },
+              priceUsd: '2.5',
+              priceChange: { m5: 4 },
+              liquidity: { usd: 500000 },
+            },
+            score: 60,
+            signals: [
+              {
+                id: 'volume_acceleration',
+                strength: 1,
+                points: 35,
+                reason: '5m volume 16.0x the 1h rate',
+              },
+              {
+                id: 'txn_burst',
+                strength: 1,
+                points: 25,
+                reason: '300 txns in 5m, 20.0x the 1h rate',
+              },
+            ],
+          },
+        ],
+      });
+      const message = spikingMessage("What's spiking on solana right now?");
+
+      expect(await spikingAction.validate(mockRuntime, message)).toBe(true);
+      const result = await spikingAction.handler(mockRuntime, message);
+
+      expect(mockService.getAnomalies).toHaveBeenCalledWith({ limit: 10, chain: 'solana' });
+      expect(result.text).toContain('Spiking Right Now on solana');
+      expect(result.text).toContain('**1. WIF/SOL** on raydium (solana) - score 60');
+      expect(result.text).toContain(
+        '5m volume 16.0x the 1h rate | 300 txns in 5m, 20.0x the 1h rate'
+      );
+      expect(result.text).toContain('5m: 4%');
+    });
+
+    it('should say when nothing is unusual', async () => {
+      (mockService.getAnomalies as any).mockResolvedValue({ success: true, data: [] });
+
+      const result = await spikingAction.handler(
+        mockRuntime,
+        spikingMessage('Any unusual volume?')
+      );
+
+      expect(mockService.getAnomalies).toHaveBeenCalledWith({ limit: 10 });
+      expect(result.text).toContain('Nothing unusual right now.');
+    });
+
+    it('should leave trending requests to the trending action', async () => {
+      expect(
+        await spikingAction.validate(mockRuntime, spikingMessage('Show trending tokens spiking'))
+      ).toBe(false);
+      expect(
+        await spikingAction.validate(mockRuntime, spikingMessage('What is the price of PEPE?'))
+      ).toBe(false);
     });
   });
 });
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectAddress,
+  detectAddresses,
+  classifyAddress,
+  findChainMention,
+  inferChainId,
+  isAddressForChain,
+} from '../address';
+
+const EVM = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const SOLANA = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const SUI_COIN = '0x2::sui::SUI';
+const SUI_OBJECT = '0x' + 'a'.repeat(64);
+const TON = 'EQCxE6mUtQJKFnGfaROTKOt1lZbDiiX1kCixRv7Nw2Id_sDs';
+const TRON = 'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t';
+
+describe('address', () => {
+  describe('classifyAddress', () => {
+    it('should recognise each supported address format', () => {
+      expect(classifyAddress(EVM)?.kind).toBe('evm');
+      expect(classifyAddress(SOLANA)?.kind).toBe('solana');
+      expect(classifyAddress(SUI_COIN)?.kind).toBe('sui');
+      expect(classifyAddress(SUI_OBJECT)?.kind).toBe('sui');
+      expect(classifyAddress(TON)?.kind).toBe('ton');
+      expect(classifyAddress(TRON)?.kind).toBe('tron');
+    });
+
+    it('should reject text that is not an address', () => {
+      expect(classifyAddress('PEPE')).toBeUndefined();
+      expect(classifyAddress('0x1234')).toBeUndefined();
+      expect(classifyAddress(`${EVM} please`)).toBeUndefined();
+    });
+  });
+
+  describe('detectAddresses', () => {
+    it('should find addresses in order of appearance', () => {
+      const found = detectAddresses(`compare ${SOLANA} with ${EVM} and ${SUI_COIN}`);
+
+      expect(found.map((detected) => detected.kind)).toEqual(['solana', 'evm', 'sui']);
+      expect(found[2].address).toBe(SUI_COIN);
+    });
+
+    it('should not match an EVM address inside a Sui coin type', () => {
+      const coinType = `${EVM}::coin::COIN`;
+      expect(detectAddress(`info for ${coinType}`)).toEqual({
+        address: coinType,
+        kind: 'sui',
+        chains: ['sui'],
+      });
+    });
+  });
+
+  describe('chain inference', () => {
+    it('should infer chains from the address or the message', () => {
+      expect(inferChainId(detectAddress(SOLANA)!)).toBe('solana');
+      expect(inferChainId(detectAddress(TRON)!)).toBe('tron');
+      expect(inferChainId(detectAddress(EVM)!)).toBeUndefined();
+      expect(inferChainId(detectAddress(EVM)!, `price of ${EVM} on base`)).toBe('base');
+      expect(inferChainId(detectAddress(EVM)!, `a ton of ${EVM} on bnb`)).toBe('bsc');
+    });
+
+    it('should map chain aliases to DexScreener chain IDs', () => {
+      expect(findChainMention('what about avax?')).toBe('avalanche');
+      expect(findChainMention('nothing here')).toBeUndefined();
+    });
+
+    it('should only read everyday words as chains next to a chain marker', () => {
+      expect(inferChainId(detectAddress(EVM)!, `the base price of ${EVM}`)).toBeUndefined();
+      expect(findChainMention('what is the ETH price of SOL?')).toBeUndefined();
+      expect(findChainMention('top pairs on sol')).toBe('solana');
+      expect(findChainMention('anything new on the base chain?')).toBe('base');
+      expect(findChainMention('chain: arb')).toBe('arbitrum');
+      expect(findChainMention('a ton of volume on ton')).toBe('ton');
+    });
+  });
+
+  describe('isAddressForChain', () => {
+    it('should reject addresses in another chain format', () => {
+      expect(isAddressForChain(EVM, 'base')).toBe(true);
+      expect(isAddressForChain(SOLANA, 'solana')).toBe(true);
+      expect(isAddressForChain(SOLANA, 'ethereum')).toBe(false);
+      expect(isAddressForChain(EVM, 'solana')).toBe(false);
+      expect(isAddressForChain('not-an-address', 'ethereum')).toBe(false);
+      expect(isAddressForChain('anything', 'pulsechain')).toBe(true);
+    });
+  });
+});
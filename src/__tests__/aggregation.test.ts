@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { aggregateTokenPrice, getTokenPriceInPair } from '../aggregation';
+
+const TOKEN = '0xToken';
+
+const makePair = (overrides: any = {}) => ({
+  chainId: 'ethereum',
+  dexId: 'uniswap',
+  pairAddress: '0xpair',
+  baseToken: { address: TOKEN, name: 'Token', symbol: 'TKN' },
+  quoteToken: { address: '0xweth', name: 'Wrapped Ether', symbol: 'WETH' },
+  priceNative: '0.0005',
+  priceUsd: '1',
+  liquidity: { usd: 10000 },
+  ...overrides,
+});
+
+describe('getTokenPriceInPair', () => {
+  it('should use the USD price when the token is the base token', () => {
+    expect(getTokenPriceInPair(makePair() as any, '0xtoken')).toBe(1);
+  });
+
+  it('should derive the price when the token is the quote token', () => {
+    const pair = makePair({
+      baseToken: { address: '0xother', name: 'Other', symbol: 'OTH' },
+      quoteToken: { address: TOKEN, name: 'Token', symbol: 'TKN' },
+      priceUsd: '4',
+      priceNative: '2',
+    });
+
+    expect(getTokenPriceInPair(pair as any, TOKEN)).toBe(2);
+  });
+
+  it('should return undefined without a USD price or for unrelated pairs', () => {
+    expect(getTokenPriceInPair(makePair({ priceUsd: undefined }) as any, TOKEN)).toBeUndefined();
+    expect(getTokenPriceInPair(makePair() as any, '0xelse')).toBeUndefined();
+  });
+});
+
+describe('aggregateTokenPrice', () => {
+  it('should weight prices by liquidity and report deviations', () => {
+    const result = aggregateTokenPrice(
+      [
+        makePair({ pairAddress: '0xa', priceUsd: '1', liquidity: { usd: 30000 } }),
+        makePair({ pairAddress: '0xb', priceUsd: '2', liquidity: { usd: 10000 } }),
+      ] as any,
+      TOKEN
+    )!;
+
+    expect(result.weightedPrice).toBeCloseTo(1.25);
+    expect(result.totalLiquidity).toBe(40000);
+    expect(result.symbol).toBe('TKN');
+    expect(result.pairs.map((entry) => entry.pair.pairAddress)).toEqual(['0xa', '0xb']);
+    expect(result.pairs[0].weight).toBeCloseTo(0.75);
+    expect(result.pairs[0].deviation).toBeCloseTo(-20);
+    expect(result.pairs[1].deviation).toBeCloseTo(60);
+    // Neither pair is thin
+    expect(result.pairs.some((entry) => entry.outlier)).toBe(false);
+  });
+
+  it('should flag thin pairs that deviate as outliers', () => {
+    const result = aggregateTokenPrice(
+      [
+        makePair({ pairAddress: '0xdeep', priceUsd: '1', liquidity: { usd: 1_000_000 } }),
+        makePair({ pairAddress: '0xthin', priceUsd: '1.5', liquidity: { usd: 1000 } }),
+        makePair({ pairAddress: '0xfair', priceUsd: '1.01', liquidity: { usd: 2000 } }),
+      ] as any,
+      TOKEN
+    )!;
+
+    const outliers = result.pairs.filter((entry) => entry.outlier);
+    expect(outliers.map((entry) => entry.pair.pairAddress)).toEqual(['0xthin']);
+  });
+
+  it('should honour custom thresholds', () => {
+    const result = aggregateTokenPrice(
+      [
+        makePair({ pairAddress: '0xdeep', priceUsd: '1', liquidity: { usd: 1_000_000 } }),
+        makePair({ pairAddress: '0xfair', priceUsd: '1.01', liquidity: { usd: 2000 } }),
+      ] as any,
+      TOKEN,
+      { outlierDeviation: 0.5 }
+    )!;
+
+    expect(result.pairs.find((entry) => entry.pair.pairAddress === '0xfair')!.outlier).toBe(true);
+  });
+
+  it('should break liquidity down by DEX and chain', () => {
+    const result = aggregateTokenPrice(
+      [
+        makePair({ dexId: 'uniswap', chainId: 'ethereum', liquidity: { usd: 6000 } }),
+        makePair({ dexId: 'uniswap', chainId: 'base', liquidity: { usd: 3000 } }),
+        makePair({ dexId: 'aerodrome', chainId: 'base', liquidity: { usd: 1000 } }),
+      ] as any,
+      TOKEN
+    )!;
+
+    expect(result.byDex).toEqual([
+      { id: 'uniswap', liquidity: 9000, share: 0.9, pairCount: 2 },
+      { id: 'aerodrome', liquidity: 1000, share: 0.1, pairCount: 1 },
+    ]);
+    expect(result.byChain).toEqual([
+      { id: 'ethereum', liquidity: 6000, share: 0.6, pairCount: 1 },
+      { id: 'base', liquidity: 4000, share: 0.4, pairCount: 2 },
+    ]);
+  });
+
+  it('should leave out pairs without price or liquidity', () => {
+    const result = aggregateTokenPrice(
+      [
+        makePair(),
+        makePair({ priceUsd: undefined }),
+        makePair({ liquidity: undefined }),
+      ] as any,
+      TOKEN
+    )!;
+
+    expect(result.pairs).toHaveLength(1);
+    expect(result.excluded).toBe(2);
+  });
+
+  it('should return undefined when no pair can be priced', () => {
+    expect(aggregateTokenPrice([makePair({ liquidity: { usd: 0 } })] as any, TOKEN)).toBeUndefined();
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { IAgentRuntime } from '@elizaos/core';
+import { DexScreenerAlertService } from '../alert-service';
+import { parseAlertRequest } from '../alerts';
+
+const makePair = (price: string, overrides: any = {}) => ({
+  chainId: 'ethereum',
+  dexId: 'uniswap',
+  url: 'https://dexscreener.com/ethereum/0xpair',
+  pairAddress: '0xpair',
+  baseToken: { address: '0xpepe', name: 'Pepe', symbol: 'PEPE' },
+  quoteToken: { address: '0xweth', name: 'Wrapped Ether', symbol: 'WETH' },
+  priceUsd: price,
+  priceChange: { m5: 0, h1: 0, h6: 0, h24: 0 },
+  volume: { m5: 0, h1: 0, h6: 0, h24: 0 },
+  liquidity: { usd: 1000000 },
+  ...overrides,
+});
+
+describe('DexScreenerAlertService', () => {
+  let service: DexScreenerAlertService;
+  let mockRuntime: IAgentRuntime;
+  let mockDexScreener: any;
+  let store: Map<string, any>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    store = new Map();
+
+    mockDexScreener = {
+      search: vi.fn().mockResolvedValue({ success: true, data: [makePair('0.00001')] }),
+      getTokenPairs: vi.fn(),
+      getTokenPairsByChain: vi.fn(),
+      getPairs: vi.fn(),
+      getTokenBatch: vi.fn(),
+      formatPrice: vi.fn((price) => price.toString()),
+      formatPriceChange: vi.fn((change) => `${change}%`),
+      formatUsdValue: vi.fn((value) => `$${value}`),
+    };
+
+    mockRuntime = {
+      getSetting: vi.fn(() => undefined),
+      getService: vi.fn().mockReturnValue(mockDexScreener),
+      getCache: vi.fn(async (key: string) => store.get(key)),
+      setCache: vi.fn(async (key: string, value: any) => {
+        store.set(key, value);
+        return true;
+      }),
+      sendMessageToTarget: vi.fn().mockResolvedValue(undefined),
+    } as any;
+
+    service = new DexScreenerAlertService(mockRuntime);
+  });
+
+  const createPepeAlert = () =>
+    service.createAlert(parseAlertRequest('alert me when PEPE drops below $0.000008')!, {
+      roomId: 'room-1',
+      source: 'discord',
+    });
+
+  it('should resolve, baseline and persist a new alert', async () => {
+    const result = await createPepeAlert();
+
+    expect(result.success).toBe(true);
+    expect(result.data!.value).toBe(0.00001);
+    expect(result.data!.alert.target).toEqual({
+      chainId: 'ethereum',
+      tokenAddress: '0xpepe',
+      label: 'PEPE',
+    });
+    expect(result.data!.alert.armed).toBe(true);
+    expect(await service.getAlerts('room-1')).toHaveLength(1);
+    expect(await service.getAlerts('room-2')).toHaveLength(0);
+  });
+
+  it('should return NOT_FOUND when no pair matches the symbol', async () => {
+    mockDexScreener.search.mockResolvedValue({ success: true, data: [] });
+
+    const result = await createPepeAlert();
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe('NOT_FOUND');
+  });
+
+  it('should batch-check alerts and notify the originating room when one fires', async () => {
+    await createPepeAlert();
+    mockDexScreener.getTokenBatch.mockResolvedValue({
+      success: true,
+      data: { pairs: [makePair('0.000007')], tokens: [] },
+    });
+
+    const fired = await service.checkAlerts();
+
+    expect(mockDexScreener.getTokenBatch).toHaveBeenCalledWith('ethereum', ['0xpepe'], {
+      priority: 'low',
+    });
+    expect(fired).toHaveLength(1);
+    expect(mockRuntime.sendMessageToTarget).toHaveBeenCalledWith(
+      { source: 'discord', roomId: 'room-1' },
+      expect.objectContaining({ text: expect.stringContaining('PEPE price below') })
+    );
+
+    const [stored] = await service.getAlerts();
+    expect(stored.status).toBe('triggered');
+
+    // Triggered one-shot alerts are not checked again
+    mockDexScreener.getTokenBatch.mockClear();
+    expect(await service.checkAlerts()).toHaveLength(0);
+    expect(mockDexScreener.getTokenBatch).not.toHaveBeenCalled();
+  });
+
+  it('should not notify for alerts cancelled while polling', async () => {
+    const { data } = await createPepeAlert();
+    mockDexScreener.getTokenBatch.mockImplementation(async () => {
+      await service.removeAlert('room-1', data!.alert.id);
+      return { success: true, data: { pairs: [makePair('0.000007')], tokens: [] } };
+    });
+
+    expect(await service.checkAlerts()).toHaveLength(0);
+    expect(mockRuntime.sendMessageToTarget).not.toHaveBeenCalled();
+    expect(await service.getAlerts()).toHaveLength(0);
+  });
+
+  it('should prune one-shot alerts a week after they fired', async () => {
+    const day = 24 * 60 * 60 * 1000;
+    const { data } = await createPepeAlert();
+    const fired = { ...data!.alert, status: 'triggered', triggerCount: 1 };
+    store.set('dexscreener:alerts', [
+      { ...fired, id: 'old', triggeredAt: Date.now() - 8 * day },
+      { ...fired, id: 'recent', triggeredAt: Date.now() - day },
+    ]);
+
+    await createPepeAlert();
+
+    const alerts = await service.getAlerts();
+    expect(alerts.map((alert) => alert.id)).toContain('recent');
+    expect(alerts.map((alert) => alert.id)).not.toContain('old');
+    expect(alerts).toHaveLength(2);
+  });
+
+  it('should keep alerts unchanged when their pair is missing', async () => {
+    await createPepeAlert();
+    mockDexScreener.getTokenBatch.mockResolvedValue({
+      success: true,
+      data: { pairs: [], tokens: [] },
+    });
+
+    expect(await service.checkAlerts()).toHaveLength(0);
+    const [stored] = await service.getAlerts();
+    expect(stored.status).toBe('active');
+  });
+
+  it('should remove alerts by ID prefix within the room', async () => {
+    const { data } = await createPepeAlert();
+    const prefix = data!.alert.id.slice(0, 8);
+
+    expect(await service.removeAlert('room-2', prefix)).toBeUndefined();
+    expect((await service.removeAlert('room-1', prefix))?.id).toBe(data!.alert.id);
+    expect(await service.getAlerts()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeAlert,
+  evaluateAlert,
+  getAlertMetricValue,
+  parseAlertRequest,
+} from '../alerts';
+import { DexScreenerAlert } from '../types';
+
+const formatters: any = {
+  formatPrice: (price: number) => price.toString(),
+  formatPriceChange: (change: number) => `${change}%`,
+  formatUsdValue: (value: number) => `$${value}`,
+};
+
+const baseAlert: DexScreenerAlert = {
+  id: '1a2b3c4d-0000-4000-8000-000000000000',
+  roomId: 'room-1',
+  target: { chainId: 'ethereum', tokenAddress: '0xtoken', label: 'PEPE' },
+  metric: 'price',
+  direction: 'below',
+  threshold: 1,
+  hysteresis: 0.1,
+  repeat: false,
+  status: 'active',
+  createdAt: 0,
+  triggerCount: 0,
+};
+
+describe('evaluateAlert', () => {
+  it('should only set a baseline on the first observation', () => {
+    const { alert, fired } = evaluateAlert(baseAlert, 1.5, 1000);
+
+    expect(fired).toBe(false);
+    expect(alert.armed).toBe(true);
+    expect(alert.lastValue).toBe(1.5);
+    expect(alert.lastCheckedAt).toBe(1000);
+  });
+
+  it('should fire when the value crosses the threshold', () => {
+    const armed = evaluateAlert(baseAlert, 1.5).alert;
+    const { alert, fired } = evaluateAlert(armed, 0.9, 2000);
+
+    expect(fired).toBe(true);
+    expect(alert.status).toBe('triggered');
+    expect(alert.triggeredAt).toBe(2000);
+    expect(alert.triggerCount).toBe(1);
+  });
+
+  it('should not fire when created while the condition already holds', () => {
+    const baseline = evaluateAlert(baseAlert, 0.8).alert;
+    expect(baseline.armed).toBe(false);
+
+    expect(evaluateAlert(baseline, 0.7).fired).toBe(false);
+  });
+
+  it('should not evaluate one-shot alerts after they trigger', () => {
+    const armed = evaluateAlert(baseAlert, 1.5).alert;
+    const triggered = evaluateAlert(armed, 0.9).alert;
+
+    const { alert, fired } = evaluateAlert(triggered, 0.5);
+    expect(fired).toBe(false);
+    expect(alert).toBe(triggered);
+  });
+
+  it('should re-arm repeating alerts only past the hysteresis band', () => {
+    const repeating = { ...baseAlert, repeat: true };
+    let alert = evaluateAlert(repeating, 1.5).alert;
+    alert = evaluateAlert(alert, 0.9).alert;
+    expect(alert.status).toBe('active');
+
+    // Bouncing just above the threshold doesn't re-arm
+    alert = evaluateAlert(alert, 1.05).alert;
+    expect(alert.armed).toBe(false);
+    expect(evaluateAlert(alert, 0.95).fired).toBe(false);
+
+    alert = evaluateAlert(alert, 1.1).alert;
+    expect(alert.armed).toBe(true);
+
+    const second = evaluateAlert(alert, 0.95);
+    expect(second.fired).toBe(true);
+    expect(second.alert.triggerCount).toBe(2);
+  });
+});
+
+describe('getAlertMetricValue', () => {
+  const pair: any = {
+    priceUsd: '0.5',
+    priceChange: { m5: 1, h1: 2, h6: 3, h24: 4 },
+    volume: { m5: 10, h1: 20, h6: 30, h24: 40 },
+    liquidity: { usd: 1000 },
+  };
+
+  it('should read each metric from the pair', () => {
+    expect(getAlertMetricValue(pair, 'price')).toBe(0.5);
+    expect(getAlertMetricValue(pair, 'priceChange', 'h1')).toBe(2);
+    expect(getAlertMetricValue(pair, 'volume')).toBe(40);
+    expect(getAlertMetricValue(pair, 'liquidity')).toBe(1000);
+  });
+
+  it('should return undefined for missing values', () => {
+    expect(getAlertMetricValue({ ...pair, priceUsd: undefined }, 'price')).toBeUndefined();
+    expect(getAlertMetricValue({ ...pair, liquidity: undefined }, 'liquidity')).toBeUndefined();
+  });
+});
+
+describe('parseAlertRequest', () => {
+  it('should parse a symbol price alert', () => {
+    expect(parseAlertRequest('alert me when PEPE drops below $0.000008')).toEqual({
+      target: { type: 'symbol', symbol: 'PEPE' },
+      chainId: undefined,
+      metric: 'price',
+      window: undefined,
+      direction: 'below',
+      threshold: 0.000008,
+      repeat: false,
+    });
+  });
+
+  it('should parse a pair percent change alert with a window', () => {
+    const request = parseAlertRequest('when WETH/USDC 1h change exceeds 5%');
+
+    expect(request?.target).toEqual({ type: 'pair', baseSymbol: 'WETH', quoteSymbol: 'USDC' });
+    expect(request?.metric).toBe('priceChange');
+    expect(request?.window).toBe('h1');
+    expect(request?.direction).toBe('above');
+    expect(request?.threshold).toBe(5);
+  });
+
+  it('should read a falling move as a negative change', () => {
+    const drop = parseAlertRequest('alert me when PEPE drops 5%');
+    const rise = parseAlertRequest('alert me when PEPE rises 10%');
+
+    expect(drop).toMatchObject({ metric: 'priceChange', direction: 'below', threshold: -5 });
+    expect(rise).toMatchObject({ metric: 'priceChange', direction: 'above', threshold: 10 });
+    expect(parseAlertRequest('when PEPE 1h change falls by 7.5%')?.threshold).toBe(-7.5);
+    // Levels and explicit signs are kept as written
+    expect(parseAlertRequest('when PEPE 24h change drops below 5%')?.threshold).toBe(5);
+    expect(parseAlertRequest('when PEPE dips -3%')?.threshold).toBe(-3);
+  });
+
+  it('should parse liquidity alerts with suffixes and addresses', () => {
+    const request = parseAlertRequest(
+      'notify me every time liquidity of 0x6982508145454Ce325dDbE47a25d4ec3d2311933 on ethereum falls under 1.5m'
+    );
+
+    expect(request?.target).toMatchObject({ type: 'address' });
+    expect(request?.chainId).toBe('ethereum');
+    expect(request?.metric).toBe('liquidity');
+    expect(request?.threshold).toBe(1_500_000);
+    expect(request?.repeat).toBe(true);
+  });
+
+  it('should return undefined without a direction or threshold', () => {
+    expect(parseAlertRequest('alert me about PEPE')).toBeUndefined();
+    expect(parseAlertRequest('alert me when PEPE drops below')).toBeUndefined();
+  });
+
+  it('should describe parsed alerts', () => {
+    expect(
+      describeAlert(
+        {
+          ...baseAlert,
+          target: { chainId: 'ethereum', pairAddress: '0xpair', label: 'WETH/USDC' },
+          metric: 'priceChange',
+          window: 'h1',
+          direction: 'above',
+          threshold: 5,
+        },
+        formatters
+      )
+    ).toBe('WETH/USDC 1h change above 5%');
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import { detectAnomalies, scorePairAnomaly } from '../anomalies';
+
+const makePair = (pairAddress: string, overrides: any = {}) =>
+  ({
+    chainId: 'base',
+    dexId: 'aerodrome',
+    pairAddress,
+    baseToken: { symbol: pairAddress.toUpperCase(), address: `0x${pairAddress}` },
+    quoteToken: { symbol: 'WETH' },
+    priceUsd: '1',
+    priceChange: { m5: 0.5, h1: 2, h6: 3, h24: 5 },
+    liquidity: { usd: 100000 },
+    // Steady: every window runs at the same pace
+    volume: { m5: 1000, h1: 12000, h6: 72000, h24: 288000 },
+    txns: {
+      m5: { buys: 10, sells: 10 },
+      h1: { buys: 120, sells: 120 },
+      h6: { buys: 720, sells: 720 },
+      h24: { buys: 2880, sells: 2880 },
+    },
+    ...overrides,
+  }) as any;
+
+describe('scorePairAnomaly', () => {
+  it('should not flag a pair trading at a steady pace', () => {
+    const anomaly = scorePairAnomaly(makePair('steady'));
+
+    expect(anomaly.score).toBe(0);
+    expect(anomaly.signals).toEqual([]);
+  });
+
+  it('should flag 5m volume far above the 1h run rate', () => {
+    const anomaly = scorePairAnomaly(
+      makePair('spike', {
+        priceChange: { m5: 8 },
+        volume: { m5: 16000, h1: 12000, h6: 72000, h24: 288000 },
+      })
+    );
+
+    // 16000 * 12 / 12000 = 16x, full strength
+    expect(anomaly.signals).toEqual([
+      {
+        id: 'volume_acceleration',
+        strength: 1,
+        points: 35,
+        reason: '5m volume 16.0x the 1h rate',
+      },
+    ]);
+    expect(anomaly.score).toBe(35);
+  });
+
+  it('should fall back to 1h volume against the 6h rate', () => {
+    const anomaly = scorePairAnomaly(
+      makePair('slow', {
+        priceChange: { m5: 2 },
+        volume: { m5: 1000, h1: 48000, h6: 72000, h24: 288000 },
+      })
+    );
+
+    expect(anomaly.signals.map((signal) => signal.reason)).toEqual([
+      '1h volume 4.0x the 6h rate',
+    ]);
+    expect(anomaly.signals[0].strength).toBe(0.5);
+  });
+
+  it('should ignore volume spikes below the minimum volume', () => {
+    const anomaly = scorePairAnomaly(
+      makePair('dust', { volume: { m5: 50, h1: 60, h6: 360, h24: 1440 } })
+    );
+
+    expect(anomaly.signals).toEqual([]);
+  });
+
+  it('should flag transaction bursts and buy/sell shifts', () => {
+    const anomaly = scorePairAnomaly(
+      makePair('burst', {
+        txns: {
+          m5: { buys: 72, sells: 8 },
+          h1: { buys: 120, sells: 120 },
+          h6: { buys: 720, sells: 720 },
+          h24: { buys: 2880, sells: 2880 },
+        },
+      })
+    );
+
+    expect(anomaly.signals.map((signal) => signal.id)).toEqual(['txn_burst', 'buy_sell_shift']);
+    expect(anomaly.signals[0].reason).toBe('80 txns in 5m, 4.0x the 1h rate');
+    expect(anomaly.signals[1].reason).toBe('buys 90% of 5m txns, up from 50% over 6h');
+    // 25 * 0.5 + 20 * (0.4 / 0.5)
+    expect(anomaly.score).toBe(29);
+  });
+
+  it('should flag a volume spike with a flat price', () => {
+    const anomaly = scorePairAnomaly(
+      makePair('absorb', {
+        priceChange: { m5: 0 },
+        volume: { m5: 4000, h1: 12000, h6: 72000, h24: 288000 },
+      })
+    );
+
+    expect(anomaly.signals.map((signal) => signal.id)).toEqual([
+      'volume_acceleration',
+      'price_volume_divergence',
+    ]);
+    expect(anomaly.signals[1].reason).toBe('volume spiking with a flat price (+0.0% in 5m)');
+  });
+
+  it('should flag a sharp price move on below-average volume', () => {
+    const anomaly = scorePairAnomaly(
+      makePair('thin', {
+        priceChange: { m5: -10 },
+        volume: { m5: 200, h1: 12000, h6: 72000, h24: 288000 },
+      })
+    );
+
+    expect(anomaly.signals).toEqual([
+      {
+        id: 'price_volume_divergence',
+        strength: 0.5,
+        points: 10,
+        reason: 'price -10.0% in 5m on below-average volume',
+      },
+    ]);
+  });
+
+  it('should treat activity with no baseline as far above it', () => {
+    const anomaly = scorePairAnomaly(
+      makePair('new', { volume: { m5: 5000, h1: 0, h6: 0, h24: 5000 } })
+    );
+
+    expect(anomaly.signals[0].reason).toBe('5m volume far above the 1h rate');
+    expect(anomaly.signals[0].strength).toBe(1);
+  });
+});
+
+describe('detectAnomalies', () => {
+  it('should keep pairs at or above the minimum score, most anomalous first', () => {
+    const pairs = [
+      makePair('steady'),
+      makePair('mild', { volume: { m5: 2000, h1: 12000, h6: 72000, h24: 288000 } }),
+      makePair('spike', {
+        priceChange: { m5: 8 },
+        volume: { m5: 16000, h1: 12000, h6: 72000, h24: 288000 },
+      }),
+      makePair('thinpool', {
+        liquidity: { usd: 100 },
+        volume: { m5: 16000, h1: 12000, h6: 72000, h24: 288000 },
+      }),
+    ];
+
+    expect(detectAnomalies(pairs).map((anomaly) => anomaly.pair.pairAddress)).toEqual(['spike']);
+    expect(
+      detectAnomalies(pairs, { minScore: 1 }).map((anomaly) => anomaly.pair.pairAddress)
+    ).toEqual(['spike', 'mild']);
+    // The flat price on the thin pool's spike adds a divergence signal
+    expect(
+      detectAnomalies(pairs, { minLiquidity: 0 }).map((anomaly) => anomaly.pair.pairAddress)
+    ).toEqual(['thinpool', 'spike']);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  findArbitrageOpportunities,
+  parseArbitrageTokenList,
+  scanArbitrage,
+} from '../arbitrage';
+
+const TOKEN = '0xtoken';
+
+const makePair = (dexId: string, priceUsd: string, overrides: any = {}) => ({
+  chainId: 'ethereum',
+  dexId,
+  pairAddress: `0x${dexId}`,
+  baseToken: { address: TOKEN, name: 'Token', symbol: 'TKN' },
+  quoteToken: { address: '0xweth', name: 'Wrapped Ether', symbol: 'WETH' },
+  priceNative: '0.0005',
+  priceUsd,
+  liquidity: { usd: 100000 },
+  ...overrides,
+});
+
+describe('parseArbitrageTokenList', () => {
+  it('should parse chain-scoped and unscoped entries', () => {
+    expect(parseArbitrageTokenList('solana:Mint111, 0xabc\nBase:0xdef')).toEqual([
+      { chainId: 'solana', tokenAddress: 'Mint111' },
+      { tokenAddress: '0xabc' },
+      { chainId: 'base', tokenAddress: '0xdef' },
+    ]);
+    expect(parseArbitrageTokenList(undefined)).toEqual([]);
+  });
+});
+
+describe('findArbitrageOpportunities', () => {
+  it('should compute net spreads and rank by spread then liquidity', () => {
+    const opportunities = findArbitrageOpportunities(
+      [
+        makePair('uniswap', '1.00'),
+        makePair('sushiswap', '1.02', { liquidity: { usd: 50000 } }),
+        makePair('aerodrome', '1.02', { chainId: 'base', liquidity: { usd: 80000 } }),
+      ] as any,
+      TOKEN,
+      { feePercent: 0.3 }
+    );
+
+    expect(opportunities).toHaveLength(2);
+    expect(opportunities[0].buy.pair.dexId).toBe('uniswap');
+    expect(opportunities[0].sell.pair.dexId).toBe('aerodrome');
+    expect(opportunities[0].grossSpread).toBeCloseTo(2);
+    expect(opportunities[0].netSpread).toBeCloseTo(1.4);
+    expect(opportunities[0].minLiquidity).toBe(80000);
+    expect(opportunities[0].crossChain).toBe(true);
+    expect(opportunities[1].sell.pair.dexId).toBe('sushiswap');
+    expect(opportunities[1].crossChain).toBe(false);
+  });
+
+  it('should drop spreads that fees eat and thin pairs', () => {
+    expect(
+      findArbitrageOpportunities(
+        [makePair('uniswap', '1.00'), makePair('sushiswap', '1.005')] as any,
+        TOKEN
+      )
+    ).toEqual([]);
+
+    expect(
+      findArbitrageOpportunities(
+        [makePair('uniswap', '1.00'), makePair('sushiswap', '1.5', { liquidity: { usd: 500 } })] as any,
+        TOKEN
+      )
+    ).toEqual([]);
+  });
+
+  it('should skip pools on the same DEX and chain', () => {
+    expect(
+      findArbitrageOpportunities(
+        [makePair('uniswap', '1.00'), makePair('uniswap', '1.10', { pairAddress: '0xother' })] as any,
+        TOKEN
+      )
+    ).toEqual([]);
+  });
+});
+
+describe('scanArbitrage', () => {
+  it('should batch chain-scoped tokens and look up the rest across chains', async () => {
+    const service: any = {
+      getMultipleTokens: vi.fn().mockResolvedValue({
+        success: true,
+        data: [makePair('uniswap', '1.00'), makePair('sushiswap', '1.10')],
+      }),
+      getTokenPairs: vi.fn().mockResolvedValue({ success: false, error: { code: 'TIMEOUT' } }),
+    };
+
+    const result = await scanArbitrage(
+      service,
+      [{ chainId: 'ethereum', tokenAddress: TOKEN }, { tokenAddress: '0xother' }],
+      {},
+      { priority: 'low' }
+    );
+
+    expect(service.getMultipleTokens).toHaveBeenCalledWith('ethereum', [TOKEN], { priority: 'low' });
+    expect(service.getTokenPairs).toHaveBeenCalledWith({ tokenAddress: '0xother' }, { priority: 'low' });
+    expect(result.success).toBe(true);
+    expect(result.data).toHaveLength(1);
+    expect(result.data![0].netSpread).toBeCloseTo(9.4);
+  });
+
+  it('should fail when every lookup fails', async () => {
+    const service: any = {
+      getTokenPairs: vi.fn().mockResolvedValue({ success: false, error: { code: 'TIMEOUT' } }),
+    };
+
+    const result = await scanArbitrage(service, [{ tokenAddress: TOKEN }]);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toEqual({ code: 'TIMEOUT' });
+  });
+});
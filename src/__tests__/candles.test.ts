@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildCandles,
+  estimateIntervalVolume,
+  parseCandleResolution,
+  toOhlcvRows,
+} from '../candles';
+
+const MINUTE = 60 * 1000;
+const START = Date.UTC(2024, 5, 15, 12, 0, 0);
+
+const snapshot = (minutes: number, priceUsd: number | undefined, volume: any = {}) => ({
+  timestamp: START + minutes * MINUTE,
+  chainId: 'base',
+  pairAddress: '0xpair',
+  priceNative: priceUsd ? priceUsd / 1000 : 0,
+  priceUsd,
+  volume: { m5: 500, h1: 6000, h6: 36000, h24: 144000, ...volume },
+  txns: {} as any,
+});
+
+describe('estimateIntervalVolume', () => {
+  it('should use the shortest window that covers the interval', () => {
+    // m5 = 500 over 5 minutes, so 100 per minute
+    expect(estimateIntervalVolume(snapshot(0, 1), snapshot(1, 1))).toBeCloseTo(100);
+    // h1 = 6000 over an hour, so 100 per minute
+    expect(estimateIntervalVolume(snapshot(0, 1), snapshot(30, 1))).toBeCloseTo(3000);
+  });
+
+  it('should not estimate across more than 24 hours', () => {
+    expect(estimateIntervalVolume(snapshot(0, 1), snapshot(25 * 60, 1))).toBeUndefined();
+    expect(estimateIntervalVolume(snapshot(1, 1), snapshot(1, 1))).toBeUndefined();
+  });
+});
+
+describe('buildCandles', () => {
+  it('should build OHLC from the snapshots in each interval', () => {
+    const candles = buildCandles(
+      [snapshot(3, 1.2), snapshot(0, 1), snapshot(1, 1.5), snapshot(2, 0.8), snapshot(5, 2)],
+      '5m'
+    );
+
+    expect(candles).toHaveLength(2);
+    expect(candles[0]).toMatchObject({
+      time: START,
+      open: 1,
+      high: 1.5,
+      low: 0.8,
+      close: 1.2,
+      samples: 4,
+      gap: false,
+    });
+    // 100 a minute up to the snapshot at 5m, all within the first candle
+    expect(candles[0].volume).toBeCloseTo(500);
+    expect(candles[1]).toMatchObject({ time: START + 5 * MINUTE, open: 2, close: 2 });
+    expect(candles[1].volume).toBe(0);
+  });
+
+  it('should mark empty intervals as flat gap candles and spread volume across them', () => {
+    const candles = buildCandles([snapshot(0, 1), snapshot(3, 2)], '1m');
+
+    expect(candles.map((candle) => candle.gap)).toEqual([false, true, true, false]);
+    expect(candles[1]).toMatchObject({ open: 1, high: 1, low: 1, close: 1, samples: 0 });
+    // 300 estimated over three minutes, 100 in each
+    expect(candles.slice(0, 3).map((candle) => Math.round(candle.volume))).toEqual([100, 100, 100]);
+    expect(candles[3].volume).toBe(0);
+
+    const withoutGaps = buildCandles([snapshot(0, 1), snapshot(3, 2)], '1m', { fillGaps: false });
+    expect(withoutGaps.map((candle) => candle.time)).toEqual([START, START + 3 * MINUTE]);
+  });
+
+  it('should align daily candles to UTC midnight and support native prices', () => {
+    const candles = buildCandles([snapshot(-60, 1), snapshot(0, 3)], '1d', { price: 'native' });
+
+    expect(candles).toHaveLength(1);
+    expect(candles[0].time).toBe(Date.UTC(2024, 5, 15));
+    expect(candles[0].open).toBe(0.001);
+    expect(candles[0].close).toBe(0.003);
+  });
+
+  it('should skip snapshots without the chosen price', () => {
+    expect(buildCandles([snapshot(0, undefined)], '1m')).toEqual([]);
+  });
+});
+
+describe('toOhlcvRows', () => {
+  it('should export [time, open, high, low, close, volume] rows', () => {
+    const rows = toOhlcvRows(buildCandles([snapshot(0, 1), snapshot(1, 2)], '1h'));
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0].slice(0, 5)).toEqual([START, 1, 2, 1, 2]);
+    expect(rows[0][5]).toBeCloseTo(100);
+  });
+});
+
+describe('parseCandleResolution', () => {
+  it('should read resolutions written as codes or words', () => {
+    expect(parseCandleResolution('RSI of PEPE/WETH on 15m')).toBe('15m');
+    expect(parseCandleResolution('5 minute candles')).toBe('5m');
+    expect(parseCandleResolution('hourly SMA')).toBe('1h');
+    expect(parseCandleResolution('daily chart')).toBe('1d');
+    expect(parseCandleResolution('RSI of PEPE')).toBeUndefined();
+  });
+});
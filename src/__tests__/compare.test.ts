@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatAge,
+  formatComparisonRatios,
+  formatComparisonTable,
+  parseComparisonTargets,
+} from '../compare';
+
+const NOW = 1_700_000_000_000;
+
+const formatters: any = {
+  formatPrice: (price: string) => price,
+  formatPriceChange: (change: number) => `${change}%`,
+  formatUsdValue: (value: number) => `$${value}`,
+};
+
+const makePair = (symbol: string, overrides: any = {}) => ({
+  chainId: 'ethereum',
+  dexId: 'uniswap',
+  pairAddress: `0x${symbol}`,
+  baseToken: { address: `0x${symbol}`, name: symbol, symbol },
+  quoteToken: { address: '0xweth', name: 'Wrapped Ether', symbol: 'WETH' },
+  priceUsd: '1',
+  txns: { h24: { buys: 10, sells: 5 } },
+  priceChange: { m5: 1, h1: 2, h6: 3, h24: 4 },
+  volume: { h24: 1000 },
+  liquidity: { usd: 5000 },
+  marketCap: 100000,
+  fdv: 200000,
+  pairCreatedAt: NOW - 3 * 24 * 3600000,
+  ...overrides,
+});
+
+describe('parseComparisonTargets', () => {
+  it('should parse bare symbols in a comparison list', () => {
+    expect(parseComparisonTargets('compare PEPE vs WIF and bonk?')).toEqual([
+      { type: 'symbol', symbol: 'PEPE' },
+      { type: 'symbol', symbol: 'WIF' },
+      { type: 'symbol', symbol: 'BONK' },
+    ]);
+    expect(parseComparisonTargets('PEPE versus WIF')).toHaveLength(2);
+  });
+
+  it('should combine addresses and cashtags without duplicates', () => {
+    const targets = parseComparisonTargets(
+      'compare $PEPE with 0x6982508145454Ce325dDbE47a25d4ec3d2311933 and $pepe'
+    );
+
+    expect(targets).toEqual([
+      { type: 'address', address: '0x6982508145454Ce325dDbE47a25d4ec3d2311933', chainId: undefined },
+      { type: 'symbol', symbol: 'PEPE' },
+    ]);
+  });
+
+  it('should ignore filler words', () => {
+    expect(parseComparisonTargets('compare the tokens')).toEqual([]);
+  });
+
+  it('should keep symbols followed by a chain or surrounded by filler', () => {
+    expect(parseComparisonTargets('compare PEPE vs WIF on solana')).toEqual([
+      { type: 'symbol', symbol: 'PEPE' },
+      { type: 'symbol', symbol: 'WIF' },
+    ]);
+    expect(parseComparisonTargets('compare the price of BONK and WIF on solana chain')).toEqual([
+      { type: 'symbol', symbol: 'BONK' },
+      { type: 'symbol', symbol: 'WIF' },
+    ]);
+  });
+});
+
+describe('formatComparisonTable', () => {
+  it('should render one column per token and bold the leader of each row', () => {
+    const table = formatComparisonTable(
+      [
+        makePair('PEPE'),
+        makePair('WIF', {
+          chainId: 'solana',
+          volume: { h24: 3000 },
+          marketCap: undefined,
+          txns: {},
+        }),
+      ] as any,
+      formatters,
+      NOW
+    );
+    const lines = table.split('\n');
+
+    expect(lines[0]).toBe('| | PEPE (ethereum) | WIF (solana) |');
+    expect(lines[1]).toBe('|---|---|---|');
+    expect(table).toContain('| 24h Volume | $1000 | **$3000** |');
+    expect(table).toContain('| Market Cap | $100000 | N/A |');
+    expect(table).toContain('| Age | 3d | 3d |');
+    expect(table).toContain('| 24h Txns (buys/sells) | 10/5 | N/A |');
+  });
+});
+
+describe('formatComparisonRatios', () => {
+  it('should compare each token to the first', () => {
+    const ratios = formatComparisonRatios([
+      makePair('PEPE'),
+      makePair('WIF', { volume: { h24: 2500 }, liquidity: { usd: 100000 }, marketCap: 0 }),
+    ] as any);
+
+    expect(ratios).toBe('• **WIF vs PEPE:** volume 2.50x, liquidity 20x, market cap N/A');
+  });
+});
+
+describe('formatAge', () => {
+  it('should pick a readable unit', () => {
+    expect(formatAge(NOW - 5 * 60000, NOW)).toBe('5m');
+    expect(formatAge(NOW - 5 * 3600000, NOW)).toBe('5h');
+    expect(formatAge(undefined, NOW)).toBe('N/A');
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import {
+  filterNewPairs,
+  getChainSeedQueries,
+  parseMaxAge,
+  parseMinimumUsd,
+  rankChainPairs,
+} from '../discovery';
+
+const NOW = 1_700_000_000_000;
+
+const makePair = (pairAddress: string, ageMinutes: number | undefined, overrides: any = {}) => ({
+  chainId: 'ethereum',
+  dexId: 'uniswap',
+  pairAddress,
+  baseToken: { address: `0x${pairAddress}`, symbol: pairAddress },
+  quoteToken: { address: '0xweth', symbol: 'WETH' },
+  liquidity: { usd: 10000 },
+  volume: { h24: 1000 },
+  pairCreatedAt: ageMinutes === undefined ? undefined : NOW - ageMinutes * 60000,
+  ...overrides,
+});
+
+describe('filterNewPairs', () => {
+  it('should keep pools within the age window, newest first', () => {
+    const pairs = filterNewPairs(
+      [
+        makePair('a', 120),
+        makePair('b', 10),
+        makePair('old', 60 * 25),
+        makePair('unknown', undefined),
+      ] as any,
+      {},
+      NOW
+    );
+
+    expect(pairs.map((pair) => pair.pairAddress)).toEqual(['b', 'a']);
+  });
+
+  it('should apply the age, chain, DEX, liquidity and volume filters', () => {
+    const pairs = [
+      makePair('keep', 10, { dexId: 'Aerodrome', chainId: 'base' }),
+      makePair('otherdex', 10, { chainId: 'base' }),
+      makePair('otherchain', 10, { dexId: 'aerodrome' }),
+      makePair('thin', 10, { dexId: 'aerodrome', chainId: 'base', liquidity: { usd: 10 } }),
+      makePair('quiet', 10, { dexId: 'aerodrome', chainId: 'base', volume: { h24: 1 } }),
+      makePair('tooold', 90, { dexId: 'aerodrome', chainId: 'base' }),
+    ];
+
+    const result = filterNewPairs(
+      pairs as any,
+      { chain: 'Base', dex: 'aerodrome', minLiquidity: 1000, minVolume: 100, maxAge: 3600000 },
+      NOW
+    );
+
+    expect(result.map((pair) => pair.pairAddress)).toEqual(['keep']);
+  });
+
+  it('should drop duplicate pools from different feeds', () => {
+    expect(filterNewPairs([makePair('a', 5), makePair('A', 5)] as any, {}, NOW)).toHaveLength(1);
+  });
+});
+
+describe('parseMaxAge', () => {
+  it('should parse minutes, hours and days', () => {
+    expect(parseMaxAge('pairs from the last 30 minutes')).toBe(30 * 60000);
+    expect(parseMaxAge('under 2h old')).toBe(2 * 3600000);
+    expect(parseMaxAge('past 3 days')).toBe(3 * 86400000);
+    expect(parseMaxAge('new pairs')).toBeUndefined();
+  });
+});
+
+describe('parseMinimumUsd', () => {
+  it('should parse amounts with suffixes', () => {
+    expect(parseMinimumUsd('liquidity over $50k', 'liquidity|liq')).toBe(50000);
+    expect(parseMinimumUsd('min liq 1.5m', 'liquidity|liq')).toBe(1500000);
+    expect(parseMinimumUsd('volume at least 2500', 'volume|vol')).toBe(2500);
+    expect(parseMinimumUsd('new pairs', 'volume|vol')).toBeUndefined();
+  });
+});
+
+describe('getChainSeedQueries', () => {
+  it('should seed with quote tokens, DEXes and the chain name', () => {
+    expect(getChainSeedQueries('solana')).toEqual([
+      'SOL',
+      'USDC',
+      'raydium',
+      'orca',
+      'meteora',
+      'solana',
+    ]);
+    expect(getChainSeedQueries('unknownchain')).toEqual(['unknownchain']);
+  });
+});
+
+describe('rankChainPairs', () => {
+  const pairs = [
+    makePair('a', 10, { volume: { h24: 100 }, liquidity: { usd: 9000 }, priceChange: { h24: 5 } }),
+    makePair('b', 10, { volume: { h24: 300 }, liquidity: { usd: 1000 }, priceChange: { h24: -5 } }),
+    makePair('c', 10, { volume: { h24: 200 }, txns: { h24: { buys: 50, sells: 50 } } }),
+    makePair('b', 10, { volume: { h24: 300 } }),
+    makePair('other', 10, { chainId: 'base', volume: { h24: 1e9 } }),
+  ];
+  const order = (result: any[]) => result.map((pair) => pair.pairAddress);
+
+  it('should dedupe, keep the chain and sort by volume by default', () => {
+    expect(order(rankChainPairs(pairs as any, { chain: 'Ethereum' }))).toEqual(['b', 'c', 'a']);
+  });
+
+  it('should sort by the requested criteria', () => {
+    expect(order(rankChainPairs(pairs as any, { chain: 'ethereum', sortBy: 'txns' }))[0]).toBe('c');
+    const byChange = rankChainPairs(pairs as any, { chain: 'ethereum', sortBy: 'priceChange' });
+    expect(order(byChange)[0]).toBe('a');
+  });
+
+  it('should apply liquidity and volume minimums', () => {
+    expect(
+      order(rankChainPairs(pairs as any, { chain: 'ethereum', minLiquidity: 5000, minVolume: 150 }))
+    ).toEqual(['b', 'c']);
+  });
+});
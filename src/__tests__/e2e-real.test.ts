@@ -20,7 +20,7 @@ describe.skipIf(SKIP_REAL_API_TESTS)('DexScreener Plugin Real API E2E Tests', ()
     return {
       getSetting: (key: string) => {
         if (key === 'DEXSCREENER_API_URL') return 'https://api.dexscreener.com';
-        if (key === 'DEXSCREENER_RATE_LIMIT_DELAY') return '1000'; // Higher delay for real API
+        if (key === 'DEXSCREENER_RATE_LIMIT_PAIRS_RPM') return '60'; // Lower quota for real API
         return undefined;
       },
       getService: (name: string) => services.get(name),
@@ -147,7 +147,7 @@ describe.skipIf(SKIP_REAL_API_TESTS)('DexScreener Plugin Real API E2E Tests', ()
       } else {
         // It's okay if USDC doesn't have a profile
         expect(result.success).toBe(false);
-        expect(result.error).toBe('Token profile not found');
+        expect(result.error?.code).toBe('NOT_FOUND');
       }
     }, 10000);
 
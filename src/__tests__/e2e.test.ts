@@ -14,7 +14,6 @@ describe('DexScreener Plugin E2E Tests', () => {
     return {
       getSetting: (key: string) => {
         if (key === 'DEXSCREENER_API_URL') return 'https://api.dexscreener.com';
-        if (key === 'DEXSCREENER_RATE_LIMIT_DELAY') return '100';
         return undefined;
       },
       getService: (name: string) => services.get(name),
@@ -32,8 +31,8 @@ describe('DexScreener Plugin E2E Tests', () => {
       expect(dexscreenerPlugin.description).toBe(
         'Plugin for DexScreener DEX analytics and token information'
       );
-      expect(dexscreenerPlugin.actions).toHaveLength(7);
-      expect(dexscreenerPlugin.services).toHaveLength(1);
+      expect(dexscreenerPlugin.actions).toHaveLength(20);
+      expect(dexscreenerPlugin.services).toHaveLength(3);
     });
 
     it('should register DexScreenerService', async () => {
@@ -195,7 +194,7 @@ describe('DexScreener Plugin E2E Tests', () => {
       // Override search to simulate error
       service.search = async () => ({
         success: false,
-        error: 'API Error',
+        error: { code: 'UPSTREAM_5XX', message: 'API Error', status: 502, retryable: true },
       });
 
       (runtime as any).registerService(service);
@@ -211,7 +210,10 @@ describe('DexScreener Plugin E2E Tests', () => {
       } as Memory;
 
       const result = await searchAction!.handler(runtime, message) as any;
-      expect(result.text).toContain('Failed to search');
+      expect(result.text).toBe(
+        "DexScreener is having problems right now (HTTP 502), so I couldn't get " +
+          'search results for "INVALID". Please try again shortly.'
+      );
     });
   });
 });
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { classifyError, createError, DexScreenerApiError } from '../errors';
+
+const httpError = (status: number, message?: string) => ({
+  isAxiosError: true,
+  message: `Request failed with status code ${status}`,
+  response: { status, headers: {}, data: message ? { message } : {} },
+});
+
+describe('errors', () => {
+  describe('classifyError', () => {
+    it('should classify HTTP errors by status', () => {
+      expect(classifyError(httpError(404), 'Failed', '/latest/dex/pairs/0x1')).toEqual({
+        code: 'NOT_FOUND',
+        message: 'Request failed with status code 404',
+        status: 404,
+        endpoint: '/latest/dex/pairs/0x1',
+        retryable: false,
+      });
+      expect(classifyError(httpError(429)).code).toBe('RATE_LIMITED');
+      expect(classifyError(httpError(429)).retryable).toBe(true);
+      expect(classifyError(httpError(503)).code).toBe('UPSTREAM_5XX');
+      expect(classifyError(httpError(400, 'Invalid chain')).code).toBe('INVALID_INPUT');
+      expect(classifyError(httpError(400, 'Invalid chain')).message).toBe('Invalid chain');
+    });
+
+    it('should classify timeouts and network failures', () => {
+      const timeout = classifyError({ isAxiosError: true, code: 'ECONNABORTED', message: 'timeout' });
+      expect(timeout.code).toBe('TIMEOUT');
+      expect(timeout.retryable).toBe(true);
+
+      const network = classifyError({ isAxiosError: true, code: 'ENOTFOUND', message: 'getaddrinfo' });
+      expect(network.code).toBe('NETWORK_ERROR');
+    });
+
+    it('should classify payload errors as malformed responses', () => {
+      const error = classifyError(new TypeError("Cannot read properties of null (reading 'pairs')"));
+      expect(error.code).toBe('MALFORMED_RESPONSE');
+      expect(error.retryable).toBe(false);
+    });
+
+    it('should use the fallback message and unwrap API errors', () => {
+      expect(classifyError({}, 'Failed to search tokens').message).toBe('Failed to search tokens');
+
+      const apiError = new DexScreenerApiError(createError('RATE_LIMITED', 'Too many requests'), 3);
+      expect(classifyError(apiError)).toBe(apiError.error);
+    });
+  });
+});
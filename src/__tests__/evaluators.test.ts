@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { IAgentRuntime, Memory, UUID } from '@elizaos/core';
+import { tokenMentionEvaluator } from '../evaluators';
+import { extractTokenMentions } from '../mentions';
+import { RECENT_TOKENS_TABLE, getRecentTokens, recordRecentTokens } from '../recent-tokens';
+import { createMockMemories } from './helpers';
+
+const testUUID = '550e8400-e29b-41d4-a716-446655440000' as UUID;
+const PEPE = '0x6982508145454Ce325dDbE47a25d4ec3d2311933';
+const WIF_PAIR = 'EP2ib6dYdEeqD8MfE2ezHCxX3kP3K2eLKkirfPm5eyMx';
+
+const makePair = (chainId: string, address: string, symbol: string, price: string) => ({
+  chainId,
+  dexId: 'dex',
+  pairAddress: `${symbol}-pair`,
+  baseToken: { address, name: symbol, symbol },
+  quoteToken: { address: 'quote', name: 'Quote', symbol: 'QUOTE' },
+  priceUsd: price,
+  priceChange: { m5: 0, h1: 0, h6: 0, h24: 0 },
+  volume: { m5: 0, h1: 0, h6: 0, h24: 0 },
+  liquidity: { usd: 1000 },
+});
+
+const makeMessage = (text: string): Memory => ({
+  id: testUUID,
+  agentId: testUUID,
+  roomId: testUUID,
+  entityId: testUUID,
+  content: { text },
+  createdAt: Date.now(),
+});
+
+describe('extractTokenMentions', () => {
+  it('should find DexScreener pair URLs without counting their address twice', () => {
+    const mentions = extractTokenMentions(
+      `look at https://dexscreener.com/solana/${WIF_PAIR} and dexscreener.com/new-pairs`
+    );
+
+    expect(mentions.pairs).toEqual([{ chainId: 'solana', pairAddress: WIF_PAIR }]);
+    expect(mentions.addresses).toEqual([]);
+  });
+});
+
+describe('recordRecentTokens', () => {
+  let mockRuntime: IAgentRuntime;
+  let memories: ReturnType<typeof createMockMemories>;
+
+  beforeEach(() => {
+    memories = createMockMemories();
+    mockRuntime = { agentId: testUUID, ...memories } as any;
+  });
+
+  it('should keep the first-seen price and move repeat mentions to the front', async () => {
+    await recordRecentTokens(
+      mockRuntime,
+      'room-1',
+      [{ pair: makePair('ethereum', PEPE, 'PEPE', '0.00001') as any }],
+      1000
+    );
+    await recordRecentTokens(
+      mockRuntime,
+      'room-1',
+      [{ pair: makePair('solana', 'wif', 'WIF', '2') as any }],
+      2000
+    );
+    await recordRecentTokens(
+      mockRuntime,
+      'room-1',
+      [{ pair: makePair('ethereum', PEPE.toLowerCase(), 'PEPE', '0.00002') as any }],
+      3000
+    );
+
+    const tokens = await getRecentTokens(mockRuntime, 'room-1');
+    expect(tokens.map((token) => token.symbol)).toEqual(['PEPE', 'WIF']);
+    expect(tokens[0]).toMatchObject({
+      firstSeenPrice: '0.00001',
+      firstSeenAt: 1000,
+      lastSeenAt: 3000,
+      mentionCount: 2,
+    });
+    expect(await getRecentTokens(mockRuntime, 'room-2')).toEqual([]);
+    // One memory per token, updated in place on later mentions
+    expect(memories.tables.get(RECENT_TOKENS_TABLE)!.size).toBe(2);
+    expect(memories.updateMemory).toHaveBeenCalledTimes(1);
+  });
+
+  it('should forget the oldest tokens beyond the 20 most recent', async () => {
+    for (let i = 0; i < 22; i++) {
+      await recordRecentTokens(
+        mockRuntime,
+        'room-1',
+        [{ pair: makePair('solana', `token${i}`, `T${i}`, '1') as any }],
+        i
+      );
+    }
+
+    const tokens = await getRecentTokens(mockRuntime, 'room-1');
+    expect(tokens).toHaveLength(20);
+    expect(tokens[0].symbol).toBe('T21');
+    expect(tokens[19].symbol).toBe('T2');
+    expect(memories.deleteMemory).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('tokenMentionEvaluator', () => {
+  let mockRuntime: IAgentRuntime;
+  let mockService: any;
+
+  beforeEach(() => {
+    mockService = {
+      getMultipleTokens: vi.fn(),
+      getPairs: vi.fn().mockResolvedValue({
+        success: true,
+        data: {
+          pairs: [{ ...makePair('solana', 'wifmint', 'WIF', '2.5'), pairAddress: WIF_PAIR }],
+          missing: [],
+        },
+      }),
+      getTokenPairs: vi.fn().mockResolvedValue({
+        success: true,
+        data: [makePair('ethereum', PEPE, 'PEPE', '0.00001')],
+      }),
+      search: vi.fn().mockResolvedValue({ success: true, data: [] }),
+    };
+    mockRuntime = {
+      agentId: testUUID,
+      getService: vi.fn().mockReturnValue(mockService),
+      ...createMockMemories(),
+    } as any;
+  });
+
+  it('should only run on messages that mention tokens', async () => {
+    expect(await tokenMentionEvaluator.validate(mockRuntime, makeMessage('gm, how are you?'))).toBe(
+      false
+    );
+    expect(
+      await tokenMentionEvaluator.validate(mockRuntime, makeMessage(`thoughts on ${PEPE}?`))
+    ).toBe(true);
+  });
+
+  it('should resolve mentions and record them as recently discussed', async () => {
+    await tokenMentionEvaluator.handler(
+      mockRuntime,
+      makeMessage(`${PEPE} vs https://dexscreener.com/solana/${WIF_PAIR} vs $NOPE`)
+    );
+
+    expect(mockService.getPairs).toHaveBeenCalledWith(
+      { chainId: 'solana', pairAddresses: [WIF_PAIR] },
+      { priority: 'low' }
+    );
+    expect(mockService.search).toHaveBeenCalledWith({ query: 'NOPE' }, { priority: 'low' });
+
+    const tokens = await getRecentTokens(mockRuntime, testUUID);
+    expect(tokens).toHaveLength(2);
+    expect(tokens[0]).toMatchObject({
+      chainId: 'solana',
+      tokenAddress: 'wifmint',
+      symbol: 'WIF',
+      pairAddress: WIF_PAIR,
+      firstSeenPrice: '2.5',
+    });
+    expect(tokens[1]).toMatchObject({ chainId: 'ethereum', tokenAddress: PEPE, symbol: 'PEPE' });
+  });
+});
@@ -0,0 +1,39 @@
+import { vi } from 'vitest';
+import { Memory } from '@elizaos/core';
+
+/**
+ * In-memory stand-ins for the runtime's memory methods, keyed by table
+ */
+export function createMockMemories() {
+  const tables = new Map<string, Map<string, Memory>>();
+  const table = (name: string) => {
+    if (!tables.has(name)) {
+      tables.set(name, new Map());
+    }
+    return tables.get(name)!;
+  };
+
+  return {
+    tables,
+    getMemories: vi.fn(async ({ roomId, tableName }: { roomId?: string; tableName: string }) =>
+      [...table(tableName).values()].filter((memory) => !roomId || memory.roomId === roomId)
+    ),
+    createMemory: vi.fn(async (memory: Memory, tableName: string) => {
+      table(tableName).set(memory.id!, memory);
+      return memory.id;
+    }),
+    updateMemory: vi.fn(async (memory: Partial<Memory> & { id: string }) => {
+      for (const stored of tables.values()) {
+        const existing = stored.get(memory.id);
+        if (existing) {
+          stored.set(memory.id, { ...existing, ...memory });
+          return true;
+        }
+      }
+      return false;
+    }),
+    deleteMemory: vi.fn(async (id: string) => {
+      tables.forEach((stored) => stored.delete(id));
+    }),
+  };
+}
@@ -0,0 +1,201 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateAtr,
+  calculateBollingerBands,
+  calculateEma,
+  calculateIndicators,
+  calculateRsi,
+  calculateSma,
+  calculateVwap,
+  findPriceLevels,
+  formatIndicatorReport,
+  parseIndicatorRequests,
+} from '../indicators';
+
+const START = Date.UTC(2024, 5, 15);
+const HOUR = 60 * 60 * 1000;
+
+const candle = (i: number, close: number, overrides: any = {}) => ({
+  time: START + i * HOUR,
+  open: close,
+  high: close,
+  low: close,
+  close,
+  volume: 100,
+  samples: 1,
+  gap: false,
+  ...overrides,
+});
+
+const fromCloses = (closes: number[]) => closes.map((close, i) => candle(i, close));
+
+describe('moving averages', () => {
+  it('should calculate the SMA once the period is filled', () => {
+    expect(calculateSma([1, 2, 3, 4, 5], 3)).toEqual([undefined, undefined, 2, 3, 4]);
+  });
+
+  it('should seed the EMA with the SMA and weight recent values', () => {
+    const ema = calculateEma([1, 2, 3, 4, 5], 3);
+
+    expect(ema.slice(0, 3)).toEqual([undefined, undefined, 2]);
+    // k = 0.5: 4 * 0.5 + 2 * 0.5 = 3, then 5 * 0.5 + 3 * 0.5 = 4
+    expect(ema.slice(3)).toEqual([3, 4]);
+  });
+});
+
+describe('calculateRsi', () => {
+  it('should be 100 with only gains, 0 with only losses and 50 when flat', () => {
+    expect(calculateRsi([1, 2, 3, 4], 3)[3]).toBe(100);
+    expect(calculateRsi([4, 3, 2, 1], 3)[3]).toBe(0);
+    expect(calculateRsi([1, 1, 1, 1], 3)[3]).toBe(50);
+    expect(calculateRsi([1, 2, 3], 3)).toEqual([undefined, undefined, undefined]);
+  });
+
+  it('should apply Wilder smoothing after the first average', () => {
+    // First average gain 2/3, loss 1/3; then a loss of 1: gain 4/9, loss 5/9
+    const rsi = calculateRsi([1, 2, 1, 2, 1], 3);
+
+    expect(rsi[3]).toBeCloseTo(100 - 100 / (1 + 2));
+    expect(rsi[4]).toBeCloseTo(100 - 100 / (1 + 4 / 5));
+  });
+});
+
+describe('calculateVwap', () => {
+  it('should weight the typical price by volume', () => {
+    const vwap = calculateVwap([
+      candle(0, 10, { volume: 0 }),
+      candle(1, 10, { high: 12, low: 8, volume: 100 }),
+      candle(2, 20, { volume: 300 }),
+    ]);
+
+    expect(vwap).toEqual([undefined, 10, 17.5]);
+  });
+});
+
+describe('calculateBollingerBands', () => {
+  it('should place the bands two standard deviations around the SMA', () => {
+    const [bands] = calculateBollingerBands([2, 4, 4, 4, 5, 5, 7, 9], 8).slice(-1);
+
+    expect(bands).toEqual({ middle: 5, upper: 9, lower: 1, width: 160 });
+  });
+});
+
+describe('calculateAtr', () => {
+  it('should average true ranges including gaps from the previous close', () => {
+    const atr = calculateAtr(
+      [
+        candle(0, 10),
+        candle(1, 11, { high: 12, low: 10 }),
+        candle(2, 14, { high: 14, low: 13 }),
+        candle(3, 14, { high: 15, low: 13 }),
+      ],
+      2
+    );
+
+    // True ranges 2, 3 (from the close of 11), 2
+    expect(atr).toEqual([undefined, undefined, 2.5, 2.25]);
+  });
+});
+
+describe('findPriceLevels', () => {
+  it('should cluster swing highs and lows around the last close', () => {
+    const closes = [10, 12, 15, 12, 10, 8, 10, 12, 15.1, 12, 10, 8.05, 10, 11];
+    const levels = findPriceLevels(fromCloses(closes));
+
+    expect(levels.resistance).toHaveLength(1);
+    expect(levels.resistance[0].price).toBeCloseTo(15.05);
+    expect(levels.resistance[0].touches).toBe(2);
+    expect(levels.support[0].price).toBeCloseTo(8.025);
+    expect(levels.support[0].touches).toBe(2);
+  });
+});
+
+describe('calculateIndicators', () => {
+  it('should annotate each value with the history behind it', () => {
+    const candles = fromCloses(Array.from({ length: 30 }, (_, i) => 100 + i));
+    const report = calculateIndicators(candles, '1h', [
+      { name: 'sma', period: 20 },
+      { name: 'rsi' },
+      { name: 'ema', period: 50 },
+    ]);
+
+    const [sma, rsi, ema] = report.results;
+    expect(report.candles).toBe(30);
+    expect(report.close).toBe(129);
+    expect(sma.value).toBeCloseTo(119.5);
+    expect(sma.depth).toMatchObject({ candles: 30, required: 20, confidence: 'normal' });
+    expect(rsi.period).toBe(14);
+    expect(rsi.value).toBe(100);
+    expect(rsi.depth).toMatchObject({ required: 15, recommended: 43, confidence: 'low' });
+    expect(ema.value).toBeUndefined();
+    expect(ema.depth.confidence).toBe('insufficient');
+  });
+
+  it('should leave gap candles out and count them against confidence', () => {
+    const candles = fromCloses(Array.from({ length: 25 }, (_, i) => 100 + i)).map((c, i) =>
+      i % 3 === 0 ? { ...c, gap: true, close: 0 } : c
+    );
+    const report = calculateIndicators(candles, '5m', [{ name: 'sma', period: 5 }]);
+
+    expect(report.gaps).toBe(9);
+    expect(report.candles).toBe(16);
+    expect(report.results[0].value).toBeCloseTo((117 + 119 + 120 + 122 + 123) / 5);
+    expect(report.results[0].depth.confidence).toBe('low');
+  });
+
+  it('should compute every indicator by default', () => {
+    const report = calculateIndicators([], '15m');
+
+    expect(report.results.map((result) => result.name)).toEqual([
+      'sma',
+      'ema',
+      'rsi',
+      'vwap',
+      'bollinger',
+      'atr',
+      'levels',
+    ]);
+    expect(report.results.every((result) => result.depth.confidence === 'insufficient')).toBe(
+      true
+    );
+  });
+});
+
+describe('parseIndicatorRequests', () => {
+  it('should read names and periods written either way round', () => {
+    expect(parseIndicatorRequests('RSI of PEPE/WETH on 15m')).toEqual([{ name: 'rsi' }]);
+    expect(parseIndicatorRequests('SMA(50), 20-period EMA and rsi 7 on 1h')).toEqual([
+      { name: 'rsi', period: 7 },
+      { name: 'ema', period: 20 },
+      { name: 'sma', period: 50 },
+    ]);
+    expect(parseIndicatorRequests('exponential moving average, bollinger bands, ATR')).toEqual([
+      { name: 'ema' },
+      { name: 'bollinger' },
+      { name: 'atr' },
+    ]);
+    expect(parseIndicatorRequests('support and resistance for WIF')).toEqual([{ name: 'levels' }]);
+    expect(parseIndicatorRequests('what is the price of PEPE')).toEqual([]);
+  });
+});
+
+describe('formatIndicatorReport', () => {
+  it('should show each value with its confidence', () => {
+    const candles = fromCloses(Array.from({ length: 30 }, (_, i) => 100 + i));
+    const text = formatIndicatorReport(
+      calculateIndicators(candles, '1h', [
+        { name: 'sma' },
+        { name: 'rsi' },
+        { name: 'ema', period: 50 },
+      ]),
+      (price) => String(price)
+    );
+
+    expect(text).toContain('History: 30 1h candles over 1d 5h');
+    expect(text).toContain('• **SMA(20):** $119.5 _(30 candles)_');
+    expect(text).toContain(
+      '• **RSI(14):** 100.0 _(⚠️ low confidence: 30 candles, 43+ recommended)_'
+    );
+    expect(text).toContain('• **EMA(50):** N/A _(not enough history: needs 50 candles, have 30)_');
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { IAgentRuntime, Memory, UUID } from '@elizaos/core';
+import { marketContextProvider } from '../providers';
+import { extractTokenMentions } from '../mentions';
+
+const testUUID = '550e8400-e29b-41d4-a716-446655440000' as UUID;
+const PEPE = '0x6982508145454Ce325dDbE47a25d4ec3d2311933';
+const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+const makePair = (chainId: string, address: string, symbol: string, liquidity = 2000000) => ({
+  chainId,
+  dexId: 'dex',
+  baseToken: { address, name: symbol, symbol },
+  quoteToken: { address: 'quote', name: 'Quote', symbol: 'QUOTE' },
+  priceUsd: '1.5',
+  priceChange: { m5: 0, h1: 0, h6: 0, h24: 12.5 },
+  volume: { m5: 0, h1: 0, h6: 0, h24: 100 },
+  liquidity: { usd: liquidity },
+});
+
+const makeMessage = (text: string): Memory => ({
+  id: testUUID,
+  agentId: testUUID,
+  roomId: testUUID,
+  entityId: testUUID,
+  content: { text },
+  createdAt: Date.now(),
+});
+
+describe('extractTokenMentions', () => {
+  it('should find addresses and cashtags but not dollar amounts', () => {
+    const mentions = extractTokenMentions(`is $pepe at $0.5 yet? also ${BONK} and $WIF, $PEPE`);
+
+    expect(mentions.symbols).toEqual(['PEPE', 'WIF']);
+    expect(mentions.addresses.map((a) => a.address)).toEqual([BONK]);
+  });
+});
+
+describe('marketContextProvider', () => {
+  let mockRuntime: IAgentRuntime;
+  let mockService: any;
+  let cache: Map<string, any>;
+
+  beforeEach(() => {
+    cache = new Map();
+    mockService = {
+      getMultipleTokens: vi.fn(async (chainId: string, addresses: string[]) => ({
+        success: true,
+        data: addresses.map((address) => makePair(chainId, address, `T${address.slice(-3)}`)),
+      })),
+      getTokenPairs: vi.fn(async ({ tokenAddress }: any) => ({
+        success: true,
+        data: [makePair('ethereum', tokenAddress, 'PEPE')],
+      })),
+      search: vi.fn(async ({ query }: any) => ({
+        success: true,
+        data: [makePair('solana', 'wifaddress', query)],
+      })),
+      formatPrice: vi.fn((price) => price.toString()),
+      formatPriceChange: vi.fn((change) => `+${change}%`),
+      formatUsdValue: vi.fn((value) => `$${value}`),
+    };
+    mockRuntime = {
+      getService: vi.fn().mockReturnValue(mockService),
+      getSetting: vi.fn(() => undefined),
+      getMemories: vi.fn().mockResolvedValue([]),
+      getCache: vi.fn(async (key: string) => cache.get(key)),
+    } as any;
+  });
+
+  it('should return nothing when no tokens are in context', async () => {
+    const result = await marketContextProvider.get(mockRuntime, makeMessage('gm'), {} as any);
+
+    expect(result.text).toBe('');
+    expect(mockService.getMultipleTokens).not.toHaveBeenCalled();
+  });
+
+  it('should summarise mentioned and watched tokens', async () => {
+    cache.set(`dexscreener:watchlist:${testUUID}`, {
+      someone: [{ chainId: 'solana', tokenAddress: BONK, symbol: 'BONK', addedAt: 0 }],
+    });
+    (mockRuntime.getMemories as any).mockResolvedValue([
+      { id: 'older', content: { text: 'what about $WIF?' } },
+    ]);
+
+    const result = await marketContextProvider.get(
+      mockRuntime,
+      makeMessage(`is ${PEPE} still pumping?`),
+      {} as any
+    );
+
+    expect(mockService.getTokenPairs).toHaveBeenCalledWith(
+      { tokenAddress: PEPE },
+      { priority: 'low' }
+    );
+    expect(mockService.search).toHaveBeenCalledWith({ query: 'WIF' }, { priority: 'low' });
+    expect(mockService.getMultipleTokens).toHaveBeenCalledWith('solana', [BONK], {
+      priority: 'low',
+    });
+
+    const lines = result.text!.split('\n');
+    expect(lines[0]).toBe('# Market data (DexScreener)');
+    expect(lines[1]).toBe('- PEPE (ethereum): $1.5, 24h +12.5%, liq $2000000');
+    expect(lines[2]).toContain('- WIF (solana)');
+    expect(lines[3]).toContain('(solana, watchlist)');
+    expect(result.values!.dexscreenerMarket).toBe(result.text);
+  });
+
+  it('should stay within the token budget', async () => {
+    (mockRuntime.getSetting as any).mockImplementation((key: string) =>
+      key === 'DEXSCREENER_PROVIDER_TOKEN_BUDGET' ? '30' : undefined
+    );
+
+    const result = await marketContextProvider.get(
+      mockRuntime,
+      makeMessage('$AAA $BBB $CCC $DDD'),
+      {} as any
+    );
+
+    const lines = result.text!.split('\n');
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.length).toBeLessThan(5);
+    expect(Math.ceil(result.text!.length / 4)).toBeLessThanOrEqual(30);
+  });
+});
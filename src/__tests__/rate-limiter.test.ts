@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { RateLimiter } from '../rate-limiter';
+
+describe('RateLimiter', () => {
+  let limiter: RateLimiter;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    limiter = new RateLimiter({
+      pairs: { requestsPerMinute: 300, burst: 2 },
+      profiles: { requestsPerMinute: 60, burst: 1 },
+    });
+  });
+
+  afterEach(() => {
+    limiter.clear();
+    vi.useRealTimers();
+  });
+
+  it('should let a burst through immediately', async () => {
+    await limiter.acquire('pairs');
+    await limiter.acquire('pairs');
+
+    expect(limiter.getBudget().pairs.remaining).toBe(0);
+  });
+
+  it('should queue requests until tokens refill', async () => {
+    await limiter.acquire('profiles');
+
+    let released = false;
+    limiter.acquire('profiles').then(() => {
+      released = true;
+    });
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(released).toBe(false);
+    expect(limiter.getBudget().profiles.queued).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(released).toBe(true);
+  });
+
+  it('should keep endpoint groups independent', async () => {
+    await limiter.acquire('profiles');
+    await limiter.acquire('pairs');
+
+    const budget = limiter.getBudget();
+    expect(budget.profiles.remaining).toBe(0);
+    expect(budget.pairs.remaining).toBe(1);
+  });
+
+  it('should release higher priority requests first', async () => {
+    await limiter.acquire('profiles');
+
+    const order: string[] = [];
+    limiter.acquire('profiles', 'low').then(() => order.push('low'));
+    limiter.acquire('profiles', 'normal').then(() => order.push('normal'));
+    limiter.acquire('profiles', 'high').then(() => order.push('high'));
+
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(order).toEqual(['high', 'normal', 'low']);
+  });
+
+  it('should reject queued requests when cleared', async () => {
+    await limiter.acquire('profiles');
+    const pending = limiter.acquire('profiles');
+
+    limiter.clear();
+
+    await expect(pending).rejects.toThrow('Rate limiter stopped');
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { isRetryableError, parseRetryAfter, getRetryDelay, withRetry } from '../retry';
+import { classifyError } from '../errors';
+
+const httpError = (status: number, headers: Record<string, string> = {}) => ({
+  isAxiosError: true,
+  message: `Request failed with status code ${status}`,
+  response: { status, headers, data: {} },
+});
+
+const config = { maxAttempts: 3, baseDelay: 100, maxDelay: 1000 };
+
+describe('retry', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('isRetryableError', () => {
+    it('should retry rate limits, server errors and network failures', () => {
+      expect(isRetryableError(httpError(429))).toBe(true);
+      expect(isRetryableError(httpError(502))).toBe(true);
+      expect(isRetryableError({ isAxiosError: true, code: 'ECONNABORTED' })).toBe(true);
+      expect(isRetryableError({ code: 'ECONNRESET' })).toBe(true);
+    });
+
+    it('should not retry validation errors or cancellations', () => {
+      expect(isRetryableError(httpError(400))).toBe(false);
+      expect(isRetryableError(httpError(404))).toBe(false);
+      expect(isRetryableError({ isAxiosError: true, code: 'ERR_CANCELED' })).toBe(false);
+      expect(isRetryableError(new Error('Unexpected'))).toBe(false);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse delta seconds and HTTP dates', () => {
+      expect(parseRetryAfter('2')).toBe(2000);
+      expect(parseRetryAfter(undefined)).toBeUndefined();
+      expect(parseRetryAfter('soon')).toBeUndefined();
+
+      const inFiveSeconds = new Date(Date.now() + 5000).toUTCString();
+      expect(parseRetryAfter(inFiveSeconds)).toBeGreaterThan(3000);
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    it('should back off exponentially with jitter', () => {
+      vi.spyOn(Math, 'random').mockReturnValue(1);
+      expect(getRetryDelay(httpError(503), 1, config)).toBe(100);
+      expect(getRetryDelay(httpError(503), 3, config)).toBe(400);
+      expect(getRetryDelay(httpError(503), 10, config)).toBe(1000);
+
+      vi.spyOn(Math, 'random').mockReturnValue(0);
+      expect(getRetryDelay(httpError(503), 3, config)).toBe(200);
+    });
+
+    it('should honour Retry-After in full', () => {
+      expect(getRetryDelay(httpError(429, { 'retry-after': '0.5' }), 1, config)).toBe(500);
+      expect(getRetryDelay(httpError(429, { 'retry-after': '30' }), 1, config)).toBe(30000);
+    });
+  });
+
+  describe('withRetry', () => {
+    it('should retry until the operation succeeds', async () => {
+      vi.useFakeTimers();
+      const operation = vi
+        .fn()
+        .mockRejectedValueOnce(httpError(502))
+        .mockRejectedValueOnce(httpError(429, { 'retry-after': '1' }))
+        .mockResolvedValue('ok');
+
+      const promise = withRetry(operation, config);
+      await vi.runAllTimersAsync();
+
+      await expect(promise).resolves.toEqual({ result: 'ok', attempts: 3 });
+    });
+
+    it('should stop at maxAttempts and record the attempts', async () => {
+      vi.useFakeTimers();
+      const operation = vi.fn().mockRejectedValue(httpError(503));
+
+      const promise = withRetry(operation, config).catch((error) => error);
+      await vi.runAllTimersAsync();
+
+      const error = await promise;
+      expect(operation).toHaveBeenCalledTimes(3);
+      expect(error.attempts).toBe(3);
+    });
+
+    it('should fail rate limits that ask for longer than the maximum delay', async () => {
+      const operation = vi.fn().mockRejectedValue(httpError(429, { 'retry-after': '60' }));
+
+      const error = await withRetry(operation, config).catch((error) => error);
+
+      expect(operation).toHaveBeenCalledTimes(1);
+      expect(error.attempts).toBe(1);
+      expect(classifyError(error).code).toBe('RATE_LIMITED');
+    });
+
+    it('should not retry non-retryable errors', async () => {
+      const operation = vi.fn().mockRejectedValue(httpError(400));
+
+      const error = await withRetry(operation, config).catch((error) => error);
+
+      expect(operation).toHaveBeenCalledTimes(1);
+      expect(error.attempts).toBe(1);
+    });
+  });
+});
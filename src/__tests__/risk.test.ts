@@ -0,0 +1,147 @@
+import { describe, it, expect, vi } from 'vitest';
+import { assessTokenRisk, formatRiskScore, scoreTokenRisk } from '../risk';
+
+const NOW = 1_700_000_000_000;
+const DAY = 24 * 60 * 60 * 1000;
+const formatters = { formatUsdValue: (value: number) => `$${value}` };
+
+const makePair = (overrides: any = {}) => ({
+  chainId: 'ethereum',
+  dexId: 'uniswap',
+  pairAddress: '0xpair',
+  baseToken: { address: '0xtoken', name: 'Token', symbol: 'TKN' },
+  quoteToken: { address: '0xweth', name: 'Wrapped Ether', symbol: 'WETH' },
+  priceUsd: '1',
+  priceNative: '0.0005',
+  txns: {
+    m5: { buys: 0, sells: 0 },
+    h1: { buys: 0, sells: 0 },
+    h6: { buys: 0, sells: 0 },
+    h24: { buys: 500, sells: 450 },
+  },
+  volume: { m5: 0, h1: 0, h6: 0, h24: 1000000 },
+  priceChange: { m5: 0, h1: 0, h6: 0, h24: 0 },
+  liquidity: { usd: 5000000, base: 0, quote: 0 },
+  fdv: 50000000,
+  pairCreatedAt: NOW - 400 * DAY,
+  info: {
+    websites: [{ label: 'Website', url: 'https://token.xyz' }],
+    socials: [{ type: 'twitter', url: 'https://x.com/token' }],
+  },
+  ...overrides,
+});
+
+describe('scoreTokenRisk', () => {
+  it('should score an established token as low risk', () => {
+    const result = scoreTokenRisk(
+      {
+        pairs: [makePair(), makePair({ pairAddress: '0xpair2' })] as any,
+        paidProfile: true,
+        now: NOW,
+      },
+      formatters
+    );
+
+    expect(result.score).toBe(0);
+    expect(result.level).toBe('low');
+    expect(result.factors).toEqual([]);
+  });
+
+  it('should itemise the warning signs of a fresh, thin token', () => {
+    const result = scoreTokenRisk(
+      {
+        pairs: [
+          makePair({
+            liquidity: { usd: 8000, base: 0, quote: 0 },
+            fdv: 2000000,
+            pairCreatedAt: NOW - 3 * 3600000,
+            txns: { ...makePair().txns, h24: { buys: 20, sells: 80 } },
+            info: undefined,
+            boosts: { active: 10 },
+          }),
+        ] as any,
+        paidProfile: false,
+        now: NOW,
+      },
+      formatters
+    );
+
+    expect(result.factors.map((factor) => factor.id)).toEqual([
+      'liquidity',
+      'age',
+      'fdv_liquidity',
+      'sell_pressure',
+      'single_pair',
+      'socials',
+      'boosted',
+      'no_profile',
+    ]);
+    expect(result.factors[0].reason).toBe('Very low liquidity ($8000)');
+    expect(result.factors[1].reason).toBe('Oldest pair is less than a day old (3h)');
+    expect(result.factors[2].reason).toBe('FDV is 250x liquidity');
+    expect(result.score).toBe(100);
+    expect(result.level).toBe('critical');
+  });
+
+  it('should flag buy-only trading and low activity', () => {
+    const buyOnly = scoreTokenRisk(
+      {
+        pairs: [makePair({ txns: { ...makePair().txns, h24: { buys: 95, sells: 2 } } })] as any,
+        now: NOW,
+      },
+      formatters
+    );
+    expect(buyOnly.factors.map((factor) => factor.id)).toContain('buy_only');
+
+    const quiet = scoreTokenRisk(
+      {
+        pairs: [makePair({ txns: { ...makePair().txns, h24: { buys: 3, sells: 1 } } })] as any,
+        now: NOW,
+      },
+      formatters
+    );
+    expect(quiet.factors.map((factor) => factor.id)).toContain('low_activity');
+  });
+
+  it('should treat a token without pairs as critical', () => {
+    expect(scoreTokenRisk({ pairs: [] }, formatters)).toMatchObject({
+      score: 100,
+      level: 'critical',
+    });
+  });
+
+  it('should format the score', () => {
+    expect(formatRiskScore({ score: 62, level: 'high', factors: [] })).toBe('🟠 62/100 (high)');
+  });
+});
+
+describe('assessTokenRisk', () => {
+  it('should use the paid profile status from orders', async () => {
+    const service: any = {
+      ...formatters,
+      checkOrderStatus: vi.fn().mockResolvedValue({
+        success: true,
+        data: [{ type: 'tokenProfile', status: 'approved', paymentTimestamp: 0 }],
+      }),
+    };
+
+    const result = await assessTokenRisk(service, [makePair({ pairCreatedAt: undefined })] as any);
+
+    expect(service.checkOrderStatus).toHaveBeenCalledWith('ethereum', '0xtoken', {});
+    expect(result.factors.map((factor) => factor.id)).not.toContain('no_profile');
+  });
+
+  it('should skip the profile factor when orders fail', async () => {
+    const service: any = {
+      ...formatters,
+      checkOrderStatus: vi.fn().mockResolvedValue({
+        success: false,
+        error: { code: 'RATE_LIMITED', message: 'Too many requests', retryable: true },
+      }),
+    };
+
+    const result = await assessTokenRisk(service, [makePair()] as any);
+
+    expect(result.factors.map((factor) => factor.id)).not.toContain('no_profile');
+  });
+});
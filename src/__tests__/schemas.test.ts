@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  parsePairs,
+  parseProfiles,
+  parseBoostedTokens,
+  parseOrders,
+  expectObject,
+} from '../schemas';
+
+describe('schemas', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  describe('parsePairs', () => {
+    it('should coerce missing numeric windows to safe defaults', () => {
+      const { items, warnings } = parsePairs(
+        [
+          {
+            chainId: 'ethereum',
+            dexId: 'uniswap',
+            url: 'https://dexscreener.com/ethereum/0xpair',
+            pairAddress: '0xpair',
+            baseToken: { address: '0x123', name: 'Pepe', symbol: 'PEPE' },
+            quoteToken: { address: '0x456', name: 'Wrapped Ether', symbol: 'WETH' },
+            priceNative: '0.0000001',
+            priceUsd: 0.0003,
+            txns: { h24: { buys: 10 } },
+            volume: { h24: '1500.5' },
+            liquidity: { usd: 10000, base: 1, quote: 2 },
+          },
+        ],
+        'test'
+      );
+
+      expect(items).toHaveLength(1);
+      const pair = items[0];
+      expect(pair.priceUsd).toBe('0.0003');
+      expect(pair.txns.h24).toEqual({ buys: 10, sells: 0 });
+      expect(pair.txns.m5).toEqual({ buys: 0, sells: 0 });
+      expect(pair.volume).toEqual({ m5: 0, h1: 0, h6: 0, h24: 1500.5 });
+      expect(pair.priceChange).toEqual({ m5: 0, h1: 0, h6: 0, h24: 0 });
+      expect(warnings).toEqual([]);
+    });
+
+    it('should report values that are present but invalid', () => {
+      const { items, warnings } = parsePairs(
+        [
+          {
+            chainId: 'ethereum',
+            dexId: 'uniswap',
+            url: 'https://dexscreener.com/ethereum/0xpair',
+            pairAddress: '0xpair',
+            baseToken: { address: '0x123', name: 'Pepe', symbol: 'PEPE' },
+            quoteToken: { address: '0x456', name: 'Wrapped Ether', symbol: 'WETH' },
+            priceNative: '0.0000001',
+            txns: { h1: 'many', h24: { buys: 'ten', sells: 2 } },
+            volume: { h24: 'lots', h6: 300 },
+            priceChange: { h1: null },
+          },
+        ],
+        'test'
+      );
+
+      expect(items[0].txns.h1).toEqual({ buys: 0, sells: 0 });
+      expect(items[0].txns.h24).toEqual({ buys: 0, sells: 2 });
+      expect(items[0].volume).toEqual({ m5: 0, h1: 0, h6: 300, h24: 0 });
+      expect(warnings).toEqual([
+        'test: 1 pairs had missing or invalid fields (txns.h1, txns.h24.buys, volume.h24)',
+      ]);
+    });
+
+    it('should drop entries without a chain or base token', () => {
+      const { items, warnings } = parsePairs(
+        [null, 'pair', { chainId: 'ethereum' }, { chainId: 'ethereum', baseToken: { symbol: 'OK' } }],
+        'test'
+      );
+
+      expect(items).toHaveLength(1);
+      expect(items[0].baseToken.symbol).toBe('OK');
+      expect(warnings[0]).toBe('test: dropped 3 invalid pairs');
+    });
+
+    it('should treat a missing list as empty and a non-list as drift', () => {
+      expect(parsePairs(null, 'test')).toEqual({ items: [], warnings: [] });
+      expect(parsePairs({ pairs: [] }, 'test').warnings).toEqual([
+        'test: expected a list of pairs, got object',
+      ]);
+    });
+  });
+
+  describe('other payloads', () => {
+    it('should normalize profiles, boosts and orders', () => {
+      const profiles = parseProfiles(
+        [{ chainId: 'solana', tokenAddress: 'abc', url: 'u', links: [{ url: 'x' }, 'bad'] }, {}],
+        'test'
+      );
+      expect(profiles.items).toHaveLength(1);
+      expect(profiles.items[0].links).toEqual([{ url: 'x' }]);
+
+      const boosts = parseBoostedTokens(
+        [{ chainId: 'solana', tokenAddress: 'abc', url: 'u', amount: '100', totalAmount: null }],
+        'test'
+      );
+      expect(boosts.items[0].amount).toBe(100);
+      expect(boosts.items[0].totalAmount).toBe(0);
+
+      const orders = parseOrders([{ type: 'boost', status: 'completed' }, { status: 'x' }], 'test');
+      expect(orders.items).toEqual([{ type: 'boost', status: 'completed', paymentTimestamp: 0 }]);
+    });
+  });
+
+  describe('expectObject', () => {
+    it('should reject non-object payloads as malformed', () => {
+      expect(() => expectObject('<html>', '/latest/dex/search')).toThrow(
+        'Unexpected response payload from /latest/dex/search'
+      );
+      expect(expectObject({ pairs: [] }, '/latest/dex/search')).toEqual({ pairs: [] });
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DexScreenerQueryError,
+  matchesCondition,
+  parseScreenerQuery,
+  screenPairs,
+} from '../screener';
+
+const NOW = 1_700_000_000_000;
+
+const makePair = (pairAddress: string, overrides: any = {}) => ({
+  chainId: 'base',
+  dexId: 'aerodrome',
+  pairAddress,
+  baseToken: { address: `0x${pairAddress}`, symbol: pairAddress.toUpperCase() },
+  quoteToken: { address: '0xweth', symbol: 'WETH' },
+  priceUsd: '1.5',
+  liquidity: { usd: 100000 },
+  volume: { m5: 1000, h1: 20000, h6: 100000, h24: 2000000 },
+  priceChange: { m5: 1, h1: 5, h6: 10, h24: 20 },
+  txns: {
+    m5: { buys: 10, sells: 5 },
+    h1: { buys: 100, sells: 50 },
+    h6: { buys: 300, sells: 200 },
+    h24: { buys: 1000, sells: 500 },
+  },
+  pairCreatedAt: NOW - 3 * 3600000,
+  ...overrides,
+});
+
+describe('parseScreenerQuery', () => {
+  it('should parse conditions, suffixes, ratios, sort and limit', () => {
+    const query = parseScreenerQuery(
+      'chain=base liq>50k vol24h>1m age<24h buys/sells>1.5 dex=aerodrome,uniswap sort=vol1h:asc limit=5'
+    );
+
+    expect(query.conditions).toEqual([
+      { field: 'chain', operator: '=', value: ['base'], source: 'chain=base' },
+      { field: 'liq', operator: '>', value: 50000, source: 'liq>50k' },
+      { field: 'vol24h', operator: '>', value: 1000000, source: 'vol24h>1m' },
+      { field: 'age', operator: '<', value: 24 * 3600000, source: 'age<24h' },
+      {
+        field: 'buys24h',
+        divisor: 'sells24h',
+        operator: '>',
+        value: 1.5,
+        source: 'buys/sells>1.5',
+      },
+      {
+        field: 'dex',
+        operator: '=',
+        value: ['aerodrome', 'uniswap'],
+        source: 'dex=aerodrome,uniswap',
+      },
+    ]);
+    expect(query.sort).toEqual({ field: 'vol1h', direction: 'asc' });
+    expect(query.limit).toBe(5);
+  });
+
+  it('should read bare ages as hours and accept minutes and days', () => {
+    const values = parseScreenerQuery('age<6 age>=30m age<=7d').conditions.map((c) => c.value);
+
+    expect(values).toEqual([6 * 3600000, 30 * 60000, 7 * 86400000]);
+  });
+
+  it('should report every problem at once', () => {
+    let error: DexScreenerQueryError | undefined;
+    try {
+      parseScreenerQuery('liqq>50k vol24h>lots chain>base hello limit=0 sort=chain');
+    } catch (caught) {
+      error = caught as DexScreenerQueryError;
+    }
+
+    expect(error).toBeInstanceOf(DexScreenerQueryError);
+    expect(error!.problems).toHaveLength(6);
+    expect(error!.problems[0]).toContain('Unknown field "liqq"');
+    expect(error!.problems[1]).toContain('Invalid number "lots"');
+    expect(error!.problems[2]).toContain('only = and != work');
+    expect(error!.problems[3]).toContain('got "hello"');
+    expect(error!.problems[4]).toContain('Limit must be a positive whole number');
+    expect(error!.problems[5]).toContain("Can't sort by text field chain");
+  });
+
+  it('should reject an empty query', () => {
+    expect(() => parseScreenerQuery('  ')).toThrow(DexScreenerQueryError);
+  });
+});
+
+describe('matchesCondition', () => {
+  it('should treat missing values as no match', () => {
+    const [condition] = parseScreenerQuery('mcap>1').conditions;
+
+    expect(matchesCondition(makePair('a') as any, condition, NOW)).toBe(false);
+  });
+
+  it('should treat buys with no sells as an unbounded ratio', () => {
+    const [condition] = parseScreenerQuery('buys/sells>100').conditions;
+    const pair = makePair('a', { txns: { h24: { buys: 5, sells: 0 } } });
+
+    expect(matchesCondition(pair as any, condition, NOW)).toBe(true);
+  });
+
+  it('should match text fields case-insensitively', () => {
+    const [included, excluded] = parseScreenerQuery('dex=Aerodrome quote!=weth').conditions;
+
+    expect(matchesCondition(makePair('a') as any, included, NOW)).toBe(true);
+    expect(matchesCondition(makePair('a') as any, excluded, NOW)).toBe(false);
+  });
+});
+
+describe('screenPairs', () => {
+  const pairs = [
+    makePair('big', { volume: { h1: 10, h24: 5000000 } }),
+    makePair('thin', { liquidity: { usd: 1000 } }),
+    makePair('old', { pairCreatedAt: NOW - 48 * 3600000 }),
+    makePair('mid', { volume: { h1: 30000, h24: 1500000 } }),
+    makePair('nohour', { volume: { h24: 1200000 } }),
+  ];
+
+  it('should keep matching pairs sorted by 24h volume by default', () => {
+    const result = screenPairs(pairs as any, parseScreenerQuery('liq>50k age<24h'), NOW);
+
+    expect(result.map((pair) => pair.pairAddress)).toEqual(['big', 'mid', 'nohour']);
+  });
+
+  it('should sort by the requested field with missing values last, then limit', () => {
+    const query = parseScreenerQuery('liq>50k age<24h sort=vol1h:asc limit=2');
+    const all = screenPairs(pairs as any, { ...query, limit: undefined }, NOW);
+
+    expect(all.map((pair) => pair.pairAddress)).toEqual(['big', 'mid', 'nohour']);
+    expect(screenPairs(pairs as any, query, NOW)).toHaveLength(2);
+  });
+});
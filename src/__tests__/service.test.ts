@@ -26,7 +26,6 @@ describe('DexScreenerService', () => {
     mockRuntime = {
       getSetting: vi.fn((key: string) => {
         if (key === 'DEXSCREENER_API_URL') return 'https://api.dexscreener.com';
-        if (key === 'DEXSCREENER_RATE_LIMIT_DELAY') return '100';
         return undefined;
       }),
     } as any;
@@ -90,7 +89,238 @@ describe('DexScreenerService', () => {
       const result = await service.search({ query: 'INVALID' });
 
       expect(result.success).toBe(false);
-      expect(result.error).toContain('API Error');
+      expect(result.error?.message).toContain('API Error');
+    });
+  });
+
+  describe('response cache', () => {
+    const mockResponse = {
+      data: {
+        pairs: [{ chainId: 'ethereum', baseToken: { address: '0x123' } }],
+      },
+    };
+
+    it('should serve repeated requests from the cache', async () => {
+      mockAxiosInstance.get.mockResolvedValue(mockResponse);
+
+      const first = await service.getTokenPairs({ tokenAddress: '0x123' });
+      const second = await service.getTokenPairs({ tokenAddress: '0x123' });
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+      expect(first.meta?.cached).toBe(false);
+      expect(second.meta?.cached).toBe(true);
+      expect(second.meta?.fetchedAt).toBe(first.meta?.fetchedAt);
+      expect(second.data).toEqual(first.data);
+    });
+
+    it('should skip the cache when bypassCache is set', async () => {
+      mockAxiosInstance.get.mockResolvedValue(mockResponse);
+
+      await service.getTokenPairs({ tokenAddress: '0x123' });
+      const result = await service.getTokenPairs({ tokenAddress: '0x123' }, { bypassCache: true });
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+      expect(result.meta?.cached).toBe(false);
+    });
+
+    it('should refetch after invalidating an endpoint family', async () => {
+      mockAxiosInstance.get.mockResolvedValue(mockResponse);
+
+      await service.getTokenPairs({ tokenAddress: '0x123' });
+      service.invalidateCache('profiles');
+      await service.getTokenPairs({ tokenAddress: '0x123' });
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+
+      service.invalidateCache('pairs');
+      await service.getTokenPairs({ tokenAddress: '0x123' });
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should expire entries after the family TTL', async () => {
+      vi.useFakeTimers();
+      try {
+        mockAxiosInstance.get.mockResolvedValue(mockResponse);
+
+        const first = service.getTokenPairs({ tokenAddress: '0x123' });
+        await vi.runAllTimersAsync();
+        await first;
+
+        vi.advanceTimersByTime(15001);
+
+        const second = service.getTokenPairs({ tokenAddress: '0x123' });
+        await vi.runAllTimersAsync();
+        expect((await second).meta?.cached).toBe(false);
+        expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should evict the least recently used entry when full', async () => {
+      (mockRuntime.getSetting as any).mockImplementation((key: string) =>
+        key === 'DEXSCREENER_CACHE_MAX_ENTRIES' ? '2' : undefined
+      );
+      service = new DexScreenerService(mockRuntime);
+      mockAxiosInstance.get.mockResolvedValue(mockResponse);
+
+      await service.getTokenPairs({ tokenAddress: '0x1' });
+      await service.getTokenPairs({ tokenAddress: '0x2' });
+      await service.getTokenPairs({ tokenAddress: '0x1' }); // refresh 0x1
+      await service.getTokenPairs({ tokenAddress: '0x3' }); // evicts 0x2
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(3);
+
+      await service.getTokenPairs({ tokenAddress: '0x1' });
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(3);
+
+      await service.getTokenPairs({ tokenAddress: '0x2' });
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  describe('request coalescing', () => {
+    it('should share one request between concurrent identical calls', async () => {
+      let resolveRequest: (value: any) => void = () => {};
+      mockAxiosInstance.get.mockReturnValue(
+        new Promise((resolve) => {
+          resolveRequest = resolve;
+        })
+      );
+
+      const calls = [
+        service.search({ query: 'PEPE' }),
+        service.search({ query: 'PEPE' }),
+        service.search({ query: 'PEPE' }, { bypassCache: true }),
+      ];
+
+      await new Promise((resolve) => setTimeout(resolve, 150));
+      resolveRequest({ data: { pairs: [{ chainId: 'ethereum', baseToken: { symbol: 'PEPE' } }] } });
+
+      const results = await Promise.all(calls);
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+      results.forEach((result) => {
+        expect(result.success).toBe(true);
+        expect(result.data).toHaveLength(1);
+      });
+    });
+
+    it('should not share requests with different params', async () => {
+      mockAxiosInstance.get.mockResolvedValue({ data: { pairs: [] } });
+
+      await Promise.all([service.search({ query: 'PEPE' }), service.search({ query: 'WIF' })]);
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should share failures and allow a later retry', async () => {
+      mockAxiosInstance.get.mockRejectedValueOnce(new Error('API Error'));
+
+      const results = await Promise.all([
+        service.search({ query: 'PEPE' }),
+        service.search({ query: 'PEPE' }),
+      ]);
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+      expect(results.every((result) => !result.success)).toBe(true);
+
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: { pairs: [] } });
+      const retry = await service.search({ query: 'PEPE' });
+      expect(retry.success).toBe(true);
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('rate limiting', () => {
+    it('should report budget per endpoint group', async () => {
+      mockAxiosInstance.get.mockResolvedValue({ data: [] });
+
+      await service.getTopBoostedTokens();
+      await service.getMultipleTokens('ethereum', ['0x123']);
+
+      const budget = service.getRateLimitBudget();
+      expect(budget.profiles).toMatchObject({ capacity: 5, requestsPerMinute: 60, remaining: 4 });
+      expect(budget.pairs).toMatchObject({ capacity: 15, requestsPerMinute: 300, remaining: 14 });
+    });
+
+    it('should not consume budget for cached responses', async () => {
+      mockAxiosInstance.get.mockResolvedValue({ data: [] });
+
+      await service.getTopBoostedTokens();
+      await service.getTopBoostedTokens();
+
+      expect(service.getRateLimitBudget().profiles.remaining).toBe(4);
+    });
+  });
+
+  describe('retries', () => {
+    it('should retry transient failures and record attempts', async () => {
+      vi.useFakeTimers();
+      try {
+        mockAxiosInstance.get
+          .mockRejectedValueOnce({ isAxiosError: true, response: { status: 502, headers: {} } })
+          .mockResolvedValueOnce({ data: { pairs: [{ chainId: 'ethereum' }] } });
+
+        const promise = service.search({ query: 'PEPE' });
+        await vi.runAllTimersAsync();
+        const result = await promise;
+
+        expect(result.success).toBe(true);
+        expect(result.meta?.attempts).toBe(2);
+        expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should record attempts on failure', async () => {
+      mockAxiosInstance.get.mockRejectedValue({
+        isAxiosError: true,
+        message: 'Request failed with status code 400',
+        response: { status: 400, headers: {}, data: { message: 'Invalid address' } },
+      });
+
+      const result = await service.getTokenPairs({ tokenAddress: 'bad' });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('INVALID_INPUT');
+      expect(result.error?.status).toBe(400);
+      expect(result.error?.endpoint).toBe('/latest/dex/tokens/bad');
+      expect(result.error?.message).toBe('Invalid address');
+      expect(result.meta?.attempts).toBe(1);
+    });
+  });
+
+  describe('payload validation', () => {
+    it('should drop invalid pairs and report drift as a warning', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      mockAxiosInstance.get.mockResolvedValue({
+        data: {
+          pairs: [{ chainId: 'ethereum', baseToken: { symbol: 'PEPE' } }, { dexId: 'uniswap' }],
+        },
+      });
+
+      const result = await service.search({ query: 'PEPE' });
+      const cached = await service.search({ query: 'PEPE' });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toHaveLength(1);
+      expect(result.data![0].priceChange.h24).toBe(0);
+      expect(result.data![0].txns.h24).toEqual({ buys: 0, sells: 0 });
+      expect(result.meta?.warnings).toContain('search: dropped 1 invalid pairs');
+      // Logged when fetched, not again on the cache hit
+      expect(cached.meta?.cached).toBe(true);
+      expect(cached.meta?.warnings).toEqual(result.meta?.warnings);
+      expect(warn).toHaveBeenCalledTimes(result.meta!.warnings!.length);
+    });
+
+    it('should return a malformed response error for unexpected payloads', async () => {
+      mockAxiosInstance.get.mockResolvedValue({ data: '<html>Service unavailable</html>' });
+
+      const result = await service.getTokenPairs({ tokenAddress: '0x123' });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('MALFORMED_RESPONSE');
+      expect(result.error?.endpoint).toBe('/latest/dex/tokens/0x123');
     });
   });
 
@@ -118,48 +348,456 @@ describe('DexScreenerService', () => {
     });
   });
 
+  describe('getPair', () => {
+    it('should use the chain-qualified endpoint when a chain is given', async () => {
+      mockAxiosInstance.get.mockResolvedValue({
+        data: {
+          pairs: [{ chainId: 'base', pairAddress: '0xpair', baseToken: { symbol: 'DEGEN' } }],
+        },
+      });
+
+      const result = await service.getPair({ chainId: 'base', pairAddress: '0xpair' });
+
+      expect(result.success).toBe(true);
+      expect(result.data!.baseToken.symbol).toBe('DEGEN');
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/latest/dex/pairs/base/0xpair');
+    });
+
+    it('should report schema drift as a warning', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      mockAxiosInstance.get.mockResolvedValue({
+        data: {
+          pair: {
+            chainId: 'base',
+            pairAddress: '0xpair',
+            baseToken: { symbol: 'DEGEN' },
+            volume: { h24: 'lots' },
+          },
+        },
+      });
+
+      const result = await service.getPair({ chainId: 'base', pairAddress: '0xpair' });
+
+      expect(result.success).toBe(true);
+      expect(result.data!.volume.h24).toBe(0);
+      expect(result.meta?.warnings).toHaveLength(1);
+      expect(result.meta!.warnings![0]).toContain('volume.h24');
+    });
+
+    it('should report missing pairs as not found', async () => {
+      mockAxiosInstance.get.mockResolvedValue({ data: { pairs: null } });
+
+      const result = await service.getPair({ chainId: 'base', pairAddress: '0xpair' });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('NOT_FOUND');
+    });
+  });
+
+  describe('getPairs', () => {
+    const pair = (pairAddress: string) => ({
+      chainId: 'ethereum',
+      pairAddress,
+      baseToken: { symbol: pairAddress },
+    });
+
+    it('should return every pair and the addresses that were missing', async () => {
+      mockAxiosInstance.get.mockResolvedValue({ data: { pairs: [pair('0xAAA'), pair('0xbbb')] } });
+
+      const result = await service.getPairs({
+        chainId: 'ethereum',
+        pairAddresses: ['0xaaa', '0xBBB', '0xccc'],
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data!.pairs).toHaveLength(2);
+      expect(result.data!.missing).toEqual(['0xccc']);
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith(
+        '/latest/dex/pairs/ethereum/0xaaa,0xBBB,0xccc'
+      );
+    });
+
+    it('should batch more than 30 addresses into several requests', async () => {
+      const addresses = Array.from({ length: 45 }, (_, i) => `0x${i}`);
+      mockAxiosInstance.get.mockImplementation(async (path: string) => ({
+        data: { pairs: path.split('/').pop()!.split(',').map(pair) },
+      }));
+
+      const result = await service.getPairs({ chainId: 'ethereum', pairAddresses: addresses });
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+      expect(mockAxiosInstance.get.mock.calls[0][0].split(',')).toHaveLength(30);
+      expect(result.data!.pairs).toHaveLength(45);
+      expect(result.data!.missing).toEqual([]);
+    });
+
+    it('should reject an empty address list', async () => {
+      const result = await service.getPairs({ chainId: 'ethereum', pairAddresses: [] });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('INVALID_INPUT');
+      expect(mockAxiosInstance.get).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getTrending', () => {
-    it('should return trending pairs', async () => {
-      // Mock boosted tokens response
-      const mockBoostedResponse = {
-        data: [
-          { chainId: 'ethereum', tokenAddress: '0x123' },
-          { chainId: 'ethereum', tokenAddress: '0x456' },
+    const makePair = (symbol: string, address: string, overrides: any = {}) => ({
+      chainId: 'ethereum',
+      dexId: 'uniswap',
+      pairAddress: `0xpair${symbol}`,
+      baseToken: { symbol, address },
+      quoteToken: { symbol: 'WETH' },
+      liquidity: { usd: 100000 },
+      volume: { m5: 100, h1: 1000, h6: 6000, h24: 24000 },
+      txns: { h1: { buys: 10, sells: 10 }, h24: { buys: 100, sells: 100 } },
+      priceChange: { h1: 1, h6: 2, h24: 3 },
+      ...overrides,
+    });
+
+    const mockEndpoints = (responses: Record<string, any>) => {
+      mockAxiosInstance.get.mockImplementation(async (path: string, config?: any) => {
+        const key = path === '/latest/dex/search' ? `search:${config.params.q}` : path;
+        if (!(key in responses)) {
+          return { data: path === '/latest/dex/search' ? { pairs: [] } : [] };
+        }
+        if (responses[key] instanceof Error) {
+          throw responses[key];
+        }
+        return { data: responses[key] };
+      });
+    };
+
+    it('should gather candidates from boosts, profiles and search seeds', async () => {
+      mockEndpoints({
+        '/token-boosts/top/v1': [{ chainId: 'ethereum', tokenAddress: '0x123' }],
+        '/token-profiles/latest/v1': [{ chainId: 'ethereum', tokenAddress: '0x456' }],
+        '/tokens/v1/ethereum/0x123,0x456': [
+          makePair('PEPE', '0x123', { priceChange: { h1: 1, h6: 2, h24: 50 } }),
+          makePair('SHIB', '0x456', { priceChange: { h1: 1, h6: 2, h24: 25 } }),
+          // A thinner pair of the same token is dropped
+          makePair('PEPE', '0x123', { pairAddress: '0xthin', liquidity: { usd: 6000 } }),
         ],
-      };
+        'search:SOL': {
+          pairs: [makePair('WIF', 'wifmint', { chainId: 'solana', priceChange: { h24: -10 } })],
+        },
+      });
 
-      // Mock token pairs responses
-      const mockPairResponse1 = {
-        data: [{
-          chainId: 'ethereum',
-          baseToken: { symbol: 'PEPE', address: '0x123' },
-          quoteToken: { symbol: 'WETH' },
-          volume: { h24: 1000000 },
-          priceChange: { h24: 50 },
-        }],
-      };
+      const result = await service.getTrending({ limit: 5, mode: 'gainers' });
 
-      const mockPairResponse2 = {
-        data: [{
-          chainId: 'ethereum',
-          baseToken: { symbol: 'SHIB', address: '0x456' },
-          quoteToken: { symbol: 'WETH' },
-          volume: { h24: 500000 },
-          priceChange: { h24: 25 },
-        }],
-      };
+      expect(result.success).toBe(true);
+      expect(result.data!.map((pair) => pair.baseToken.symbol)).toEqual(['PEPE', 'SHIB']);
+      expect(result.data![0].pairAddress).toBe('0xpairPEPE');
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/token-boosts/top/v1');
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/latest/dex/search', {
+        params: { q: 'WETH' },
+      });
+    });
+
+    it('should rank by the metrics of the requested window', async () => {
+      mockEndpoints({
+        'search:SOL': {
+          pairs: [
+            makePair('SLOW', '0x1', { priceChange: { h1: 20, h24: -5 } }),
+            makePair('FAST', '0x2', { priceChange: { h1: -2, h24: 40 } }),
+          ],
+        },
+      });
+
+      const hourly = await service.getTrending({ timeframe: '1h', mode: 'gainers' });
+      const daily = await service.getTrending({ timeframe: '24h', mode: 'gainers' });
+      const losers = await service.getTrending({ timeframe: '1h', mode: 'losers' });
+
+      expect(hourly.data!.map((pair) => pair.baseToken.symbol)).toEqual(['SLOW']);
+      expect(daily.data!.map((pair) => pair.baseToken.symbol)).toEqual(['FAST']);
+      expect(losers.data!.map((pair) => pair.baseToken.symbol)).toEqual(['FAST']);
+    });
+
+    it('should filter candidates by chain and liquidity', async () => {
+      mockEndpoints({
+        'search:SOL': {
+          pairs: [
+            makePair('WIF', 'wifmint', { chainId: 'solana' }),
+            makePair('PEPE', '0x123'),
+            makePair('DUST', 'dustmint', { chainId: 'solana', liquidity: { usd: 100 } }),
+          ],
+        },
+      });
+
+      const result = await service.getTrending({ chain: 'solana' });
+
+      expect(result.data!.map((pair) => pair.baseToken.symbol)).toEqual(['WIF']);
+    });
+
+    it('should fail only when every candidate source fails', async () => {
+      mockAxiosInstance.get.mockRejectedValue({
+        isAxiosError: true,
+        response: { status: 404, headers: {}, data: {} },
+      });
+
+      const result = await service.getTrending();
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('NOT_FOUND');
+    });
+  });
 
-      mockAxiosInstance.get
-        .mockResolvedValueOnce(mockBoostedResponse)
-        .mockResolvedValueOnce(mockPairResponse1)
-        .mockResolvedValueOnce(mockPairResponse2);
+  describe('getNewPairs', () => {
+    const NOW = Date.now();
+    const makePair = (pairAddress: string, ageMinutes: number, overrides: any = {}) => ({
+      chainId: 'solana',
+      dexId: 'raydium',
+      pairAddress,
+      baseToken: { symbol: pairAddress.toUpperCase(), address: `${pairAddress}mint` },
+      quoteToken: { symbol: 'SOL' },
+      liquidity: { usd: 20000 },
+      volume: { h24: 5000 },
+      pairCreatedAt: NOW - ageMinutes * 60000,
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      mockAxiosInstance.get.mockImplementation(async (path: string, config?: any) => {
+        if (path === '/token-profiles/latest/v1') {
+          return { data: [{ chainId: 'solana', tokenAddress: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263' }] };
+        }
+        if (path === '/tokens/v1/solana/DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263') {
+          return {
+            data: [
+              // An old pool of a freshly profiled token is not new
+              makePair('oldpool', 60 * 24 * 30),
+              makePair('freshpool', 30),
+            ],
+          };
+        }
+        if (path === '/latest/dex/search' && config.params.q === 'USDC') {
+          return {
+            data: {
+              pairs: [
+                makePair('newest', 5),
+                makePair('thin', 10, { liquidity: { usd: 100 } }),
+                makePair('evm', 15, { chainId: 'base', dexId: 'aerodrome' }),
+                makePair('unknownage', 0, { pairCreatedAt: undefined }),
+              ],
+            },
+          };
+        }
+        return { data: path === '/latest/dex/search' ? { pairs: [] } : [] };
+      });
+    });
 
-      const result = await service.getTrending({ limit: 2 });
+    it('should return pools by creation time from every feed', async () => {
+      const result = await service.getNewPairs({ maxAge: 60 * 60000 });
 
       expect(result.success).toBe(true);
-      expect(result.data).toHaveLength(2);
-      expect(result.data![0].baseToken.symbol).toBe('PEPE');
-      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/token-boosts/top/v1');
+      expect(result.data!.map((pair) => pair.pairAddress)).toEqual([
+        'newest',
+        'thin',
+        'evm',
+        'freshpool',
+      ]);
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/token-boosts/latest/v1');
+    });
+
+    it('should apply liquidity, chain and DEX filters', async () => {
+      const result = await service.getNewPairs({
+        chain: 'solana',
+        dex: 'raydium',
+        minLiquidity: 1000,
+        minVolume: 1000,
+      });
+
+      expect(result.data!.map((pair) => pair.pairAddress)).toEqual(['newest', 'freshpool']);
+    });
+
+    it('should only return newly discovered pools for a seen key', async () => {
+      const first = await service.getNewPairs({ limit: 2, seenKey: 'room-1' });
+      const second = await service.getNewPairs({ limit: 2, seenKey: 'room-1' });
+      const other = await service.getNewPairs({ limit: 2, seenKey: 'room-2' });
+
+      expect(first.data!.map((pair) => pair.pairAddress)).toEqual(['newest', 'thin']);
+      expect(second.data!.map((pair) => pair.pairAddress)).toEqual(['evm', 'freshpool']);
+      expect(other.data!.map((pair) => pair.pairAddress)).toEqual(['newest', 'thin']);
+    });
+
+    it('should forget seen keys once their pools are too old to return', async () => {
+      await service.getNewPairs({ limit: 2, seenKey: 'room-1' });
+      expect((service as any).seenPairs.has('room-1')).toBe(true);
+
+      const now = vi.spyOn(Date, 'now').mockReturnValue(NOW + 2 * 24 * 3600000);
+      try {
+        await service.getNewPairs({ limit: 2, seenKey: 'room-2' });
+
+        expect((service as any).seenPairs.has('room-1')).toBe(false);
+      } finally {
+        now.mockRestore();
+      }
+    });
+  });
+
+  describe('discoverChainPairs', () => {
+    const makePair = (pairAddress: string, chainId: string, overrides: any = {}) => ({
+      chainId,
+      dexId: 'uniswap',
+      pairAddress,
+      baseToken: { symbol: pairAddress.toUpperCase(), address: `0x${pairAddress}` },
+      quoteToken: { symbol: 'WETH' },
+      liquidity: { usd: 100000 },
+      volume: { h24: 50000 },
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      mockAxiosInstance.get.mockImplementation(async (path: string, config?: any) => {
+        if (path === '/token-boosts/top/v1') {
+          return {
+            data: [
+              { chainId: 'base', tokenAddress: '0x4ed4e862860bed51a9570b96d89af5e1b0efefed' },
+              { chainId: 'solana', tokenAddress: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263' },
+            ],
+          };
+        }
+        if (path === '/tokens/v1/base/0x4ed4e862860bed51a9570b96d89af5e1b0efefed') {
+          return { data: [makePair('boosted', 'base', { volume: { h24: 900000 } })] };
+        }
+        if (path === '/latest/dex/search') {
+          const results: Record<string, any[]> = {
+            WETH: [makePair('a', 'base'), makePair('mainnet', 'ethereum')],
+            USDC: [makePair('a', 'base'), makePair('b', 'base', { volume: { h24: 80000 } })],
+            aerodrome: [makePair('thin', 'base', { liquidity: { usd: 50 } })],
+          };
+          return { data: { pairs: results[config.params.q] || [] } };
+        }
+        return { data: [] };
+      });
+    });
+
+    it('should merge seed queries and boosted tokens on the chain', async () => {
+      const before = Date.now();
+      const result = await service.discoverChainPairs({ chain: 'base', minLiquidity: 1000 });
+
+      expect(result.success).toBe(true);
+      expect(result.data!.chainId).toBe('base');
+      expect(result.data!.queries).toEqual(['WETH', 'USDC', 'aerodrome', 'uniswap', 'base']);
+      expect(result.data!.pairs.map((pair) => pair.pairAddress)).toEqual(['boosted', 'b', 'a']);
+      expect(result.data!.collectedAt).toBeGreaterThanOrEqual(before);
+      // Boosted tokens on other chains are not looked up
+      expect(mockAxiosInstance.get).not.toHaveBeenCalledWith(
+        expect.stringContaining('/tokens/v1/solana/')
+      );
+    });
+
+    it('should sort and apply minimums through getPairsByChain', async () => {
+      const result = await service.getPairsByChain({
+        chain: 'base',
+        sortBy: 'liquidity',
+        minVolume: 60000,
+      });
+
+      expect(result.data!.map((pair) => pair.pairAddress)).toEqual(['boosted', 'b']);
+    });
+  });
+
+  describe('getAnomalies', () => {
+    const makePair = (pairAddress: string, chainId: string, overrides: any = {}) => ({
+      chainId,
+      dexId: 'aerodrome',
+      pairAddress,
+      baseToken: { symbol: pairAddress.toUpperCase(), address: `0x${pairAddress}` },
+      quoteToken: { symbol: 'WETH' },
+      priceChange: { m5: 6 },
+      liquidity: { usd: 100000 },
+      volume: { m5: 1000, h1: 12000, h6: 72000, h24: 288000 },
+      ...overrides,
+    });
+    const spiking = { volume: { m5: 16000, h1: 12000, h6: 72000, h24: 288000 } };
+
+    beforeEach(() => {
+      mockAxiosInstance.get.mockImplementation(async (path: string, config?: any) => {
+        if (path === '/latest/dex/search') {
+          const results: Record<string, any[]> = {
+            WETH: [makePair('steady', 'base'), makePair('spike', 'base', spiking)],
+            USDC: [makePair('spike', 'base', spiking), makePair('sol', 'solana', spiking)],
+          };
+          return { data: { pairs: results[config.params.q] || [] } };
+        }
+        return { data: [] };
+      });
+    });
+
+    it('should score deduplicated candidates and keep the anomalous ones', async () => {
+      const result = await service.getAnomalies();
+
+      expect(result.success).toBe(true);
+      expect(result.data!.map((anomaly) => anomaly.pair.pairAddress)).toEqual(['spike', 'sol']);
+      expect(result.data![0].signals[0].id).toBe('volume_acceleration');
+    });
+
+    it('should filter by chain and apply the limit', async () => {
+      const onBase = await service.getAnomalies({ chain: 'Base' });
+      const limited = await service.getAnomalies({ limit: 1 });
+
+      expect(onBase.data!.map((anomaly) => anomaly.pair.pairAddress)).toEqual(['spike']);
+      expect(limited.data).toHaveLength(1);
+    });
+
+    it('should report failure when every source fails', async () => {
+      mockAxiosInstance.get.mockRejectedValue(new Error('Network down'));
+
+      const result = await service.getAnomalies();
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBeDefined();
+    });
+  });
+
+  describe('screen', () => {
+    const makePair = (pairAddress: string, chainId: string, overrides: any = {}) => ({
+      chainId,
+      dexId: 'aerodrome',
+      pairAddress,
+      baseToken: { symbol: pairAddress.toUpperCase(), address: `0x${pairAddress}` },
+      quoteToken: { symbol: 'WETH' },
+      liquidity: { usd: 100000 },
+      volume: { h24: 2000000 },
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      mockAxiosInstance.get.mockImplementation(async (path: string, config?: any) => {
+        if (path === '/latest/dex/search') {
+          const results: Record<string, any[]> = {
+            WETH: [makePair('a', 'base'), makePair('mainnet', 'ethereum')],
+            aerodrome: [
+              makePair('a', 'base'),
+              makePair('quiet', 'base', { volume: { h24: 10 } }),
+              makePair('b', 'base', { volume: { h24: 3000000 } }),
+            ],
+          };
+          return { data: { pairs: results[config.params.q] || [] } };
+        }
+        return { data: [] };
+      });
+    });
+
+    it('should seed searches from the query and screen the merged candidates', async () => {
+      const result = await service.screen({ query: 'chain=base dex=aerodrome vol24h>1m' });
+
+      expect(result.success).toBe(true);
+      expect(result.data!.pairs.map((pair) => pair.pairAddress)).toEqual(['b', 'a']);
+      expect(result.data!.candidates).toBe(4);
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/latest/dex/search', {
+        params: { q: 'aerodrome' },
+      });
+    });
+
+    it('should fail with INVALID_INPUT listing the problems', async () => {
+      const result = await service.screen({ query: 'liqq>5 vol>lots' });
+
+      expect(result.success).toBe(false);
+      expect(result.error!.code).toBe('INVALID_INPUT');
+      expect(result.error!.message).toContain('Unknown field "liqq"');
+      expect(result.error!.message).toContain('Invalid number "lots"');
+      expect(mockAxiosInstance.get).not.toHaveBeenCalled();
     });
   });
 
@@ -173,12 +811,14 @@ describe('DexScreenerService', () => {
     it('should format price change correctly', () => {
       expect(service.formatPriceChange(5.5)).toBe('+5.50%');
       expect(service.formatPriceChange(-3.25)).toBe('-3.25%');
+      expect(service.formatPriceChange(undefined)).toBe('N/A');
     });
 
     it('should format USD value correctly', () => {
       expect(service.formatUsdValue(1500000)).toBe('$1.50M');
       expect(service.formatUsdValue(5000)).toBe('$5.00K');
       expect(service.formatUsdValue(100)).toBe('$100.00');
+      expect(service.formatUsdValue(undefined)).toBe('N/A');
     });
   });
 
@@ -216,16 +856,77 @@ describe('DexScreenerService', () => {
       expect(mockAxiosInstance.get).toHaveBeenCalledWith('/tokens/v1/ethereum/0x123,0x456');
     });
 
-    it('should reject more than 30 addresses', async () => {
-      const addresses = Array(31).fill('0x123');
-      const result = await service.getMultipleTokens('ethereum', addresses);
+    it('should split more than 30 addresses into batches', async () => {
+      const addresses = Array.from({ length: 31 }, (_, i) => `0x${i + 1}`);
+      mockAxiosInstance.get.mockImplementation(async (path: string) => ({
+        data: path
+          .split('/')
+          .pop()!
+          .split(',')
+          .map((address) => ({
+            chainId: 'ethereum',
+            pairAddress: `pair-${address}`,
+            baseToken: { address },
+          })),
+      }));
+
+      const result = await service.getMultipleTokens('ethereum', [...addresses, '0x1']);
+
+      expect(result.success).toBe(true);
+      expect(result.data).toHaveLength(31);
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+      expect(mockAxiosInstance.get.mock.calls[1][0]).toBe('/tokens/v1/ethereum/0x31');
+    });
+
+    it('should reject address lists with no valid addresses for the chain', async () => {
+      const result = await service.getMultipleTokens('ethereum', [
+        'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+      ]);
 
       expect(result.success).toBe(false);
-      expect(result.error).toBe('Maximum 30 token addresses allowed');
+      expect(result.error?.code).toBe('INVALID_INPUT');
       expect(mockAxiosInstance.get).not.toHaveBeenCalled();
     });
   });
 
+  describe('getTokenBatch', () => {
+    it('should keep per-address results including partial failures', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const addresses = Array.from({ length: 31 }, (_, i) => `0x${i + 1}`);
+      mockAxiosInstance.get.mockImplementation(async (path: string) => {
+        if (path.endsWith('/0x31')) {
+          throw { isAxiosError: true, response: { status: 404, headers: {}, data: {} } };
+        }
+        return {
+          data: [
+            { chainId: 'ethereum', pairAddress: 'pair-a', baseToken: { address: '0x1' } },
+            { chainId: 'ethereum', pairAddress: 'pair-a', baseToken: { address: '0x1' } },
+          ],
+        };
+      });
+
+      const result = await service.getTokenBatch('ethereum', [
+        ...addresses,
+        'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t',
+      ]);
+
+      expect(result.success).toBe(true);
+      expect(result.data!.pairs).toHaveLength(1);
+
+      const byAddress = Object.fromEntries(
+        result.data!.tokens.map((token) => [token.address, token])
+      );
+      expect(byAddress['0x1'].status).toBe('found');
+      expect(byAddress['0x2'].status).toBe('not_found');
+      expect(byAddress['0x31'].status).toBe('failed');
+      expect(byAddress['0x31'].error?.code).toBe('NOT_FOUND');
+      expect(byAddress['TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t'].status).toBe('invalid');
+      expect(result.meta?.warnings).toContain(
+        'getTokenBatch: 2 of 32 token addresses were invalid or failed'
+      );
+    });
+  });
+
   describe('getLatestTokenProfiles', () => {
     it('should get latest token profiles successfully', async () => {
       const mockResponse = {
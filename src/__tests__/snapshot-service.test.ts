@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { IAgentRuntime } from '@elizaos/core';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { DexScreenerSnapshotService, parseSnapshotPairList } from '../snapshot-service';
+
+const makePair = (chainId: string, pairAddress: string, priceUsd: string) => ({
+  chainId,
+  dexId: 'uniswap',
+  url: `https://dexscreener.com/${chainId}/${pairAddress}`,
+  pairAddress,
+  baseToken: { address: '0xpepe', symbol: 'PEPE' },
+  quoteToken: { address: '0xweth', symbol: 'WETH' },
+  priceNative: '0.0000001',
+  priceUsd,
+  txns: {},
+  volume: { m5: 10, h1: 100, h6: 600, h24: 2400 },
+  liquidity: { usd: 50000 },
+});
+
+describe('parseSnapshotPairList', () => {
+  it('should parse chain-scoped pair addresses and skip anything else', () => {
+    expect(parseSnapshotPairList('ethereum:0xabc, solana:Pair111 0xnochain')).toEqual([
+      { chainId: 'ethereum', pairAddress: '0xabc', label: '0xabc', addedAt: 0 },
+      { chainId: 'solana', pairAddress: 'Pair111', label: 'Pair111', addedAt: 0 },
+    ]);
+    expect(parseSnapshotPairList(undefined)).toEqual([]);
+  });
+});
+
+describe('DexScreenerSnapshotService', () => {
+  let directory: string;
+  let service: DexScreenerSnapshotService;
+  let mockDexScreener: any;
+  let settings: Record<string, string>;
+  let cache: Map<string, any>;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'dexscreener-snapshot-service-'));
+    cache = new Map();
+    settings = {
+      DEXSCREENER_SNAPSHOT_DIR: directory,
+      DEXSCREENER_SNAPSHOT_PAIRS: 'base:0xbase',
+    };
+
+    mockDexScreener = {
+      getPairs: vi.fn(async ({ chainId, pairAddresses }: any) =>
+        chainId === 'solana'
+          ? { success: false, error: { code: 'NETWORK_ERROR', message: 'down' } }
+          : {
+              success: true,
+              data: {
+                pairs: pairAddresses.map((address: string) => makePair(chainId, address, '1.5')),
+              },
+            }
+      ),
+    };
+
+    const runtime = {
+      getSetting: vi.fn((key: string) => settings[key]),
+      getService: vi.fn().mockReturnValue(mockDexScreener),
+      getCache: vi.fn(async (key: string) => cache.get(key)),
+      setCache: vi.fn(async (key: string, value: any) => {
+        cache.set(key, value);
+        return true;
+      }),
+    } as unknown as IAgentRuntime;
+
+    service = new DexScreenerSnapshotService(runtime);
+  });
+
+  afterEach(async () => {
+    await service.stop();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should track pairs once and merge in the configured ones', async () => {
+    const pair = makePair('ethereum', '0xEth', '1');
+
+    expect(await service.trackPair(pair as any)).toBe(true);
+    expect(await service.trackPair({ ...pair, pairAddress: '0xeth' } as any)).toBe(false);
+
+    const tracked = await service.getTrackedPairs();
+    expect(tracked.map((entry) => `${entry.chainId}:${entry.pairAddress}`)).toEqual([
+      'ethereum:0xEth',
+      'base:0xbase',
+    ]);
+    expect(tracked[0].label).toBe('PEPE/WETH');
+    expect(await service.isTracked('base', '0xbase')).toBe(true);
+
+    expect(await service.untrackPair('ethereum', '0xeth')).toBe(true);
+    expect(await service.untrackPair('ethereum', '0xeth')).toBe(false);
+    expect(await service.isTracked('ethereum', '0xEth')).toBe(false);
+  });
+
+  it('should keep a watched pair tracked until its last watcher lets go', async () => {
+    const pair = makePair('ethereum', '0xeth', '1');
+
+    expect(await service.trackPair(pair as any, 'room-a:alice')).toBe(true);
+    expect(await service.trackPair(pair as any, 'room-b:bob')).toBe(false);
+
+    expect(await service.untrackPair('ethereum', '0xeth', 'room-a:alice')).toBe(false);
+    expect(await service.isTracked('ethereum', '0xeth')).toBe(true);
+    expect(await service.untrackPair('ethereum', '0xeth', 'room-b:bob')).toBe(true);
+    expect(await service.isTracked('ethereum', '0xeth')).toBe(false);
+
+    // Pairs also tracked directly outlive their watchers
+    await service.trackPair(pair as any, 'room-a:alice');
+    await service.trackPair(pair as any);
+    expect(await service.untrackPair('ethereum', '0xeth', 'room-a:alice')).toBe(false);
+    expect(await service.isTracked('ethereum', '0xeth')).toBe(true);
+  });
+
+  it('should record tracked pairs per chain and serve history from the store', async () => {
+    await service.trackPair(makePair('ethereum', '0xeth', '1') as any);
+    await service.trackPair(makePair('solana', 'SolPair', '1') as any);
+
+    const recorded = await service.recordSnapshots(1_700_000_000_000);
+
+    expect(recorded.map((snapshot) => snapshot.pairAddress).sort()).toEqual(['0xbase', '0xeth']);
+    expect(mockDexScreener.getPairs).toHaveBeenCalledWith(
+      { chainId: 'ethereum', pairAddresses: ['0xeth'] },
+      { priority: 'low' }
+    );
+
+    mockDexScreener.getPairs.mockClear();
+    const history = await service.getHistory('ethereum', '0xeth');
+    expect(history).toHaveLength(1);
+    expect(history[0].priceUsd).toBe(1.5);
+    expect(mockDexScreener.getPairs).not.toHaveBeenCalled();
+  });
+
+  it('should build candles from recorded history', async () => {
+    const start = Date.UTC(2024, 5, 15, 12, 0, 0);
+    await service.trackPair(makePair('ethereum', '0xeth', '1') as any);
+    settings.DEXSCREENER_SNAPSHOT_PAIRS = '';
+
+    for (const [minutes, price] of [[0, '1'], [1, '3'], [2, '2'], [6, '4']] as const) {
+      mockDexScreener.getPairs.mockResolvedValueOnce({
+        success: true,
+        data: { pairs: [makePair('ethereum', '0xeth', price)] },
+      });
+      await service.recordSnapshots(start + minutes * 60000);
+    }
+
+    const candles = await service.getCandles('ethereum', '0xeth', '5m', { to: start + 10 * 60000 });
+    expect(candles.map((candle) => [candle.open, candle.high, candle.low, candle.close])).toEqual([
+      [1, 3, 1, 2],
+      [4, 4, 4, 4],
+    ]);
+
+    const latest = await service.getCandles('ethereum', '0xeth', '1m', {
+      to: start + 6 * 60000,
+      limit: 5,
+    });
+    expect(latest.map((candle) => candle.close)).toEqual([2, 2, 2, 2, 4]);
+    expect(latest.map((candle) => candle.gap)).toEqual([false, true, true, true, false]);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { DexScreenerSnapshotStore, createSnapshot, downsampleSnapshots } from '../snapshots';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2024, 5, 15, 12, 0, 0);
+
+const makePair = (priceUsd: string, overrides: any = {}) => ({
+  chainId: 'ethereum',
+  dexId: 'uniswap',
+  url: 'https://dexscreener.com/ethereum/0xpair',
+  pairAddress: '0xPair',
+  baseToken: { address: '0xpepe', symbol: 'PEPE' },
+  quoteToken: { address: '0xweth', symbol: 'WETH' },
+  priceNative: '0.0000001',
+  priceUsd,
+  txns: { m5: { buys: 1, sells: 2 }, h1: { buys: 10, sells: 20 } },
+  volume: { m5: 100, h1: 1000, h6: 6000, h24: 24000 },
+  liquidity: { usd: 50000 },
+  fdv: 1000000,
+  ...overrides,
+});
+
+const snapshotAt = (timestamp: number, price = '1') =>
+  createSnapshot(makePair(price) as any, timestamp);
+
+describe('createSnapshot', () => {
+  it('should record prices as numbers and fill missing windows with zero', () => {
+    const snapshot = createSnapshot(makePair('0.5') as any, NOW);
+
+    expect(snapshot).toMatchObject({
+      timestamp: NOW,
+      chainId: 'ethereum',
+      pairAddress: '0xPair',
+      priceNative: 0.0000001,
+      priceUsd: 0.5,
+      liquidityUsd: 50000,
+      fdv: 1000000,
+      volume: { m5: 100, h1: 1000, h6: 6000, h24: 24000 },
+    });
+    expect(snapshot.txns.h24).toEqual({ buys: 0, sells: 0 });
+    expect(createSnapshot(makePair(undefined as any) as any, NOW).priceUsd).toBeUndefined();
+  });
+});
+
+describe('downsampleSnapshots', () => {
+  it('should keep the last snapshot in each interval, oldest first', () => {
+    const snapshots = [NOW + 60000, NOW, NOW + 16 * 60000, NOW + 14 * 60000].map((time) =>
+      snapshotAt(time)
+    );
+
+    expect(
+      downsampleSnapshots(snapshots, 15 * 60000).map((snapshot) => snapshot.timestamp)
+    ).toEqual([NOW + 14 * 60000, NOW + 16 * 60000]);
+  });
+});
+
+describe('DexScreenerSnapshotStore', () => {
+  let directory: string;
+  let store: DexScreenerSnapshotStore;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'dexscreener-snapshots-'));
+    store = new DexScreenerSnapshotStore(directory, {
+      retentionDays: 7,
+      rawDays: 1,
+      downsampleInterval: 60 * 60 * 1000,
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should append to one file per pair per day and query by time range', async () => {
+    await store.append([snapshotAt(NOW - DAY, '1'), snapshotAt(NOW, '2')]);
+    await store.append([snapshotAt(NOW + 60000, '3')]);
+
+    const files = await fs.readdir(path.join(directory, 'ethereum', '0xpair'));
+    expect(files.sort()).toEqual(['2024-06-14.jsonl', '2024-06-15.jsonl']);
+
+    const all = await store.query('ethereum', '0xPAIR');
+    expect(all.map((snapshot) => snapshot.priceUsd)).toEqual([1, 2, 3]);
+
+    const range = await store.query('ethereum', '0xpair', { from: NOW - 1000, to: NOW + 1000 });
+    expect(range.map((snapshot) => snapshot.priceUsd)).toEqual([2]);
+
+    const latest = await store.query('ethereum', '0xpair', { limit: 2 });
+    expect(latest.map((snapshot) => snapshot.priceUsd)).toEqual([2, 3]);
+  });
+
+  it('should return nothing for pairs that were never recorded', async () => {
+    expect(await store.query('solana', 'unknown')).toEqual([]);
+    expect(await store.listPairs()).toEqual([]);
+  });
+
+  it('should skip a line cut short by a crash and keep appending after it', async () => {
+    await store.append([snapshotAt(NOW)]);
+    await fs.appendFile(path.join(directory, 'ethereum', '0xpair', '2024-06-15.jsonl'), '{"times');
+    await store.append([snapshotAt(NOW + 60000)]);
+
+    const snapshots = await store.query('ethereum', '0xpair');
+    expect(snapshots.map((snapshot) => snapshot.timestamp)).toEqual([NOW, NOW + 60000]);
+  });
+
+  it('should delete expired days and downsample old ones', async () => {
+    const old = NOW - 10 * DAY;
+    const recentDay = NOW - 3 * DAY;
+    await store.append([
+      snapshotAt(old),
+      ...[0, 1, 2, 61, 62].map((minutes) => snapshotAt(recentDay + minutes * 60000)),
+      snapshotAt(NOW),
+      snapshotAt(NOW + 60000),
+    ]);
+
+    expect(await store.compact(NOW)).toEqual({ deleted: 1, downsampled: 1 });
+    expect(await store.compact(NOW)).toEqual({ deleted: 0, downsampled: 0 });
+
+    const remaining = await store.query('ethereum', '0xpair');
+    expect(remaining.map((snapshot) => snapshot.timestamp)).toEqual([
+      recentDay + 2 * 60000,
+      recentDay + 62 * 60000,
+      NOW,
+      NOW + 60000,
+    ]);
+    expect(await store.listPairs()).toEqual([{ chainId: 'ethereum', pairAddress: '0xpair' }]);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { getWindowMetrics, rankTrendingPairs } from '../trending';
+
+const makePair = (symbol: string, overrides: any = {}) => ({
+  chainId: 'ethereum',
+  dexId: 'uniswap',
+  pairAddress: `0x${symbol}`,
+  baseToken: { address: `0x${symbol}`, name: symbol, symbol },
+  quoteToken: { address: '0xweth', name: 'Wrapped Ether', symbol: 'WETH' },
+  volume: { m5: 100, h1: 1200, h6: 6000, h24: 24000 },
+  txns: {
+    m5: { buys: 1, sells: 1 },
+    h1: { buys: 10, sells: 5 },
+    h6: { buys: 50, sells: 40 },
+    h24: { buys: 200, sells: 100 },
+  },
+  priceChange: { m5: 0, h1: 1, h6: 2, h24: 3 },
+  ...overrides,
+});
+
+describe('getWindowMetrics', () => {
+  it('should read the metrics of the selected window', () => {
+    const metrics = getWindowMetrics(makePair('A') as any, '6h');
+
+    expect(metrics).toEqual({
+      timeframe: '6h',
+      priceChange: 2,
+      volume: 6000,
+      buys: 50,
+      sells: 40,
+      txns: 90,
+      // 1h volume at 6x pace vs the 6h volume
+      volumeAcceleration: 1.2,
+    });
+  });
+
+  it('should compare recent pace to the whole window', () => {
+    expect(getWindowMetrics(makePair('A') as any, '1h').volumeAcceleration).toBe(1);
+    expect(getWindowMetrics(makePair('A') as any, '24h').volumeAcceleration).toBe(1);
+  });
+
+  it('should tolerate missing window data', () => {
+    const metrics = getWindowMetrics(
+      makePair('A', { volume: { h24: 100 }, txns: {}, priceChange: {} }) as any,
+      '1h'
+    );
+
+    expect(metrics.volume).toBe(0);
+    expect(metrics.txns).toBe(0);
+    expect(metrics.priceChange).toBeUndefined();
+    expect(metrics.volumeAcceleration).toBeUndefined();
+  });
+});
+
+describe('rankTrendingPairs', () => {
+  const pairs = [
+    makePair('UP', { priceChange: { h1: 30, h24: -10 } }),
+    makePair('DOWN', { priceChange: { h1: -20, h24: 5 } }),
+    makePair('BUSY', {
+      priceChange: { h1: 2 },
+      txns: { h1: { buys: 500, sells: 500 } },
+      volume: { m5: 5000, h1: 10000 },
+    }),
+  ];
+
+  const symbols = (entries: any[]) => entries.map((entry) => entry.pair.baseToken.symbol);
+
+  it('should rank gainers and losers by the window price change', () => {
+    expect(symbols(rankTrendingPairs(pairs as any, '1h', 'gainers'))).toEqual(['UP', 'BUSY']);
+    expect(symbols(rankTrendingPairs(pairs as any, '1h', 'losers'))).toEqual(['DOWN']);
+    expect(symbols(rankTrendingPairs(pairs as any, '24h', 'losers'))).toEqual(['UP']);
+  });
+
+  it('should rank most-active by transactions and volume-spike by acceleration', () => {
+    expect(symbols(rankTrendingPairs(pairs as any, '1h', 'most-active'))[0]).toBe('BUSY');
+
+    const spikes = rankTrendingPairs(pairs as any, '1h', 'volume-spike');
+    expect(spikes[0].pair.baseToken.symbol).toBe('BUSY');
+    expect(spikes[0].score).toBe(6);
+  });
+
+  it('should blend acceleration, activity and movement for trending', () => {
+    const ranked = rankTrendingPairs(pairs as any, '1h');
+
+    expect(ranked).toHaveLength(3);
+    expect(ranked[0].pair.baseToken.symbol).toBe('BUSY');
+    expect(ranked.every((entry) => entry.score >= 0 && entry.score <= 100)).toBe(true);
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { IAgentRuntime } from '@elizaos/core';
+import {
+  addToWatchlist,
+  getRoomWatchlist,
+  getWatchlist,
+  getWatchlistRows,
+  parseWatchlistTarget,
+  removeFromWatchlist,
+  resolveWatchlistTarget,
+} from '../watchlist';
+
+const PEPE = '0x6982508145454Ce325dDbE47a25d4ec3d2311933';
+const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+const entry = (symbol: string, chainId: string, tokenAddress: string) => ({
+  chainId,
+  tokenAddress,
+  symbol,
+  addedAt: 0,
+});
+
+const makePair = (chainId: string, address: string, symbol: string, liquidity: number) => ({
+  chainId,
+  dexId: 'dex',
+  pairAddress: `${address}-pair-${liquidity}`,
+  baseToken: { address, name: symbol, symbol },
+  quoteToken: { address: 'quote', name: 'Quote', symbol: 'QUOTE' },
+  priceUsd: '1',
+  priceChange: { m5: 0, h1: 0, h6: 0, h24: 5 },
+  volume: { m5: 0, h1: 0, h6: 0, h24: 100 },
+  liquidity: { usd: liquidity },
+});
+
+describe('watchlist', () => {
+  let mockRuntime: IAgentRuntime;
+  let mockService: any;
+  let store: Map<string, any>;
+
+  beforeEach(() => {
+    store = new Map();
+    mockRuntime = {
+      getCache: vi.fn(async (key: string) => store.get(key)),
+      setCache: vi.fn(async (key: string, value: any) => {
+        store.set(key, value);
+        return true;
+      }),
+    } as any;
+    mockService = {
+      search: vi.fn(),
+      getTokenPairs: vi.fn(),
+      getTokenPairsByChain: vi.fn(),
+      getMultipleTokens: vi.fn(),
+    };
+  });
+
+  describe('parseWatchlistTarget', () => {
+    it('should parse addresses, cashtags and symbols', () => {
+      expect(parseWatchlistTarget(`watch ${PEPE}`)).toMatchObject({
+        type: 'address',
+        detected: { address: PEPE, kind: 'evm' },
+      });
+      expect(parseWatchlistTarget('unwatch pepe')).toEqual({ type: 'symbol', symbol: 'PEPE' });
+      expect(parseWatchlistTarget('add $WIF to my watchlist')).toEqual({
+        type: 'symbol',
+        symbol: 'WIF',
+      });
+      expect(parseWatchlistTarget('remove BONK from my watchlist')).toEqual({
+        type: 'symbol',
+        symbol: 'BONK',
+      });
+      expect(parseWatchlistTarget('show my watchlist')).toBeUndefined();
+    });
+  });
+
+  describe('storage', () => {
+    it('should keep watchlists per entity and room', async () => {
+      await addToWatchlist(mockRuntime, 'alice', 'room-1', entry('PEPE', 'ethereum', PEPE));
+      await addToWatchlist(mockRuntime, 'bob', 'room-1', entry('BONK', 'solana', BONK));
+      await addToWatchlist(mockRuntime, 'alice', 'room-2', entry('BONK', 'solana', BONK));
+
+      expect((await getWatchlist(mockRuntime, 'alice', 'room-1')).map((e) => e.symbol)).toEqual([
+        'PEPE',
+      ]);
+      expect((await getWatchlist(mockRuntime, 'bob', 'room-2'))).toEqual([]);
+      expect((await getRoomWatchlist(mockRuntime, 'room-1')).map((e) => e.symbol)).toEqual([
+        'PEPE',
+        'BONK',
+      ]);
+    });
+
+    it('should not add the same token twice', async () => {
+      expect(
+        await addToWatchlist(mockRuntime, 'alice', 'room-1', entry('PEPE', 'ethereum', PEPE))
+      ).toBe(true);
+      expect(
+        await addToWatchlist(
+          mockRuntime,
+          'alice',
+          'room-1',
+          entry('PEPE', 'ethereum', PEPE.toLowerCase())
+        )
+      ).toBe(false);
+    });
+
+    it('should serialise concurrent updates', async () => {
+      await Promise.all([
+        addToWatchlist(mockRuntime, 'alice', 'room-1', entry('PEPE', 'ethereum', PEPE)),
+        addToWatchlist(mockRuntime, 'bob', 'room-1', entry('BONK', 'solana', BONK)),
+      ]);
+
+      expect(await getRoomWatchlist(mockRuntime, 'room-1')).toHaveLength(2);
+    });
+
+    it('should remove by symbol or address', async () => {
+      await addToWatchlist(mockRuntime, 'alice', 'room-1', entry('PEPE', 'ethereum', PEPE));
+      await addToWatchlist(mockRuntime, 'alice', 'room-1', entry('BONK', 'solana', BONK));
+
+      const bySymbol = await removeFromWatchlist(mockRuntime, 'alice', 'room-1', {
+        type: 'symbol',
+        symbol: 'PEPE',
+      });
+      expect(bySymbol.map((e) => e.symbol)).toEqual(['PEPE']);
+
+      const byAddress = await removeFromWatchlist(
+        mockRuntime,
+        'alice',
+        'room-1',
+        parseWatchlistTarget(`unwatch ${BONK}`)!
+      );
+      expect(byAddress.map((e) => e.symbol)).toEqual(['BONK']);
+      expect(await getWatchlist(mockRuntime, 'alice', 'room-1')).toEqual([]);
+    });
+  });
+
+  describe('resolveWatchlistTarget', () => {
+    it('should resolve a symbol to its most liquid pair', async () => {
+      mockService.search.mockResolvedValue({
+        success: true,
+        data: [
+          makePair('ethereum', PEPE, 'PEPE', 1000),
+          makePair('bsc', '0xother', 'PEPE', 5000),
+          makePair('ethereum', '0xfake', 'PEPECOIN', 9000),
+        ],
+      });
+
+      const result = await resolveWatchlistTarget(mockService, { type: 'symbol', symbol: 'PEPE' });
+
+      expect(result.data?.chainId).toBe('bsc');
+    });
+
+    it('should scope address lookups to the inferred chain', async () => {
+      mockService.getTokenPairsByChain.mockResolvedValue({
+        success: true,
+        data: [makePair('solana', BONK, 'BONK', 1000)],
+      });
+
+      const result = await resolveWatchlistTarget(
+        mockService,
+        parseWatchlistTarget(`watch ${BONK}`)!
+      );
+
+      expect(mockService.getTokenPairsByChain).toHaveBeenCalledWith('solana', BONK);
+      expect(result.data?.baseToken.symbol).toBe('BONK');
+    });
+  });
+
+  describe('getWatchlistRows', () => {
+    it('should make one batched lookup per chain', async () => {
+      mockService.getMultipleTokens.mockImplementation(async (chainId: string) => ({
+        success: true,
+        data:
+          chainId === 'ethereum'
+            ? [makePair('ethereum', PEPE, 'PEPE', 1000), makePair('ethereum', PEPE, 'PEPE', 3000)]
+            : [],
+      }));
+
+      const result = await getWatchlistRows(mockService, [
+        entry('PEPE', 'ethereum', PEPE),
+        entry('USDC', 'ethereum', '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48'),
+        entry('BONK', 'solana', BONK),
+      ]);
+
+      expect(mockService.getMultipleTokens).toHaveBeenCalledTimes(2);
+      expect(mockService.getMultipleTokens).toHaveBeenCalledWith('ethereum', [
+        PEPE,
+        '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48',
+      ]);
+      expect(result.data![0].pair?.liquidity?.usd).toBe(3000);
+      expect(result.data![1].pair).toBeUndefined();
+      expect(result.data![2].pair).toBeUndefined();
+    });
+
+    it('should fail when every chain lookup fails', async () => {
+      mockService.getMultipleTokens.mockResolvedValue({
+        success: false,
+        error: { code: 'RATE_LIMITED', message: 'Too many requests', retryable: true },
+      });
+
+      const result = await getWatchlistRows(mockService, [entry('PEPE', 'ethereum', PEPE)]);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('RATE_LIMITED');
+    });
+  });
+});
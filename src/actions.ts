@@ -1,5 +1,221 @@
 import { Action, ActionExample, IAgentRuntime, Memory, Content } from '@elizaos/core';
 import { DexScreenerService } from './service';
+import { DexScreenerSnapshotService } from './snapshot-service';
+import {
+  DexScreenerError,
+  DexScreenerDetectedAddress,
+  DexScreenerLiquidityShare,
+  DexScreenerPair,
+  DexScreenerPairPrice,
+  DexScreenerServiceResponse,
+  DexScreenerTokenReference,
+  DexScreenerTrendingMode,
+  DexScreenerTrendingTimeframe,
+} from './types';
+import {
+  classifyAddress,
+  detectAddress,
+  findChainMention,
+  getChainAddressKind,
+  inferChainId,
+} from './address';
+import { getLastDiscussedToken } from './recent-tokens';
+import { extractTokenMentions } from './mentions';
+import { getReferenceKey, resolveTokenReferences } from './resolve';
+import { assessTokenRisk, formatRiskScore, scoreTokenRisk } from './risk';
+import { aggregateTokenPrice } from './aggregation';
+import { getWindowMetrics } from './trending';
+import { DexScreenerQueryError, SCREENER_FIELDS, parseScreenerQuery } from './screener';
+import { parseArbitrageTokenList, scanArbitrage } from './arbitrage';
+import { parseCandleResolution } from './candles';
+import { formatIndicatorReport, parseIndicatorRequests } from './indicators';
+import {
+  DEFAULT_NEW_PAIR_MAX_AGE,
+  KNOWN_DEX_IDS,
+  parseMaxAge,
+  parseMinimumUsd,
+} from './discovery';
+import {
+  MAX_COMPARE_TOKENS,
+  MIN_COMPARE_TOKENS,
+  formatAge,
+  formatComparisonRatios,
+  formatComparisonTable,
+  parseComparisonTargets,
+} from './compare';
+import { getMainPair, getMainPairForToken } from './pairs';
+import { DexScreenerAlertService } from './alert-service';
+import { createError } from './errors';
+import { describeAlert, formatAlertValue, parseAlertRequest } from './alerts';
+import {
+  addToWatchlist,
+  getWatchlist,
+  getWatchlistRows,
+  parseWatchlistTarget,
+  removeFromWatchlist,
+  resolveWatchlistTarget,
+  DexScreenerWatchlistTarget,
+} from './watchlist';
+
+// Words that ask about a token's risk
+const RISK_PATTERN = /\b(?:rug|rugpull|risk|risky|scam|honeypot|safe)\b/i;
+
+/**
+ * Turn a service error into a user-facing message for the given request
+ */
+function formatErrorMessage(subject: string, error?: DexScreenerError): string {
+  switch (error?.code) {
+    case 'NOT_FOUND':
+      return `DexScreener has no data for ${subject}.`;
+    case 'RATE_LIMITED':
+      return `DexScreener is rate limiting requests right now, so I couldn't get ${subject}. Please try again in a minute.`;
+    case 'TIMEOUT':
+      return `DexScreener took too long to respond while getting ${subject}. Please try again.`;
+    case 'NETWORK_ERROR':
+      return `I couldn't reach DexScreener to get ${subject}. Please try again shortly.`;
+    case 'UPSTREAM_5XX':
+      return `DexScreener is having problems right now${error.status ? ` (HTTP ${error.status})` : ''}, so I couldn't get ${subject}. Please try again shortly.`;
+    case 'INVALID_INPUT':
+      return `DexScreener rejected the request for ${subject}: ${error.message}`;
+    case 'MALFORMED_RESPONSE':
+      return `DexScreener returned data I couldn't read for ${subject}.`;
+    default:
+      return `Failed to get ${subject}: ${error?.message || 'Unknown error'}`;
+  }
+}
+
+/**
+ * Look up a token's pairs, scoped to its chain when the chain can be inferred
+ */
+function lookupTokenPairs(
+  service: DexScreenerService,
+  detected: DexScreenerDetectedAddress,
+  content: string
+) {
+  const chainId = inferChainId(detected, content);
+  return chainId
+    ? service.getTokenPairsByChain(chainId, detected.address)
+    : service.getTokenPairs({ tokenAddress: detected.address });
+}
+
+/**
+ * Resolve "that token from earlier" to the token most recently discussed in the room
+ */
+async function findEarlierToken(
+  runtime: IAgentRuntime,
+  message: Memory,
+  content: string
+): Promise<DexScreenerDetectedAddress | undefined> {
+  if (!/\b(?:that|this|same|earlier|previous|last)\b/i.test(content)) {
+    return undefined;
+  }
+  const token = await getLastDiscussedToken(runtime, message.roomId);
+  const kind =
+    token && (getChainAddressKind(token.chainId) || classifyAddress(token.tokenAddress)?.kind);
+  return token && kind ? { address: token.tokenAddress, kind, chains: [token.chainId] } : undefined;
+}
+
+/**
+ * Find the token a message is about: an address, the token discussed
+ * earlier, or a $cashtag resolved to the token of its most liquid pair
+ */
+async function findTargetToken(
+  service: DexScreenerService,
+  runtime: IAgentRuntime,
+  message: Memory,
+  content: string
+): Promise<DexScreenerDetectedAddress | undefined> {
+  const detected = detectAddress(content) || (await findEarlierToken(runtime, message, content));
+  const cashtag = extractTokenMentions(content).symbols[0];
+  if (detected || !cashtag) {
+    return detected;
+  }
+
+  const reference: DexScreenerTokenReference = { type: 'symbol', symbol: cashtag };
+  const pair = (await resolveTokenReferences(service, [reference])).get(getReferenceKey(reference));
+  const kind = pair && getChainAddressKind(pair.chainId);
+  return pair && kind ? { address: pair.baseToken.address, kind, chains: [pair.chainId] } : undefined;
+}
+
+/**
+ * Find the pair a message asks about: "PEPE/WETH", a pool or token address,
+ * a $cashtag, a token discussed earlier or the symbol after "of"/"for".
+ * Tokens resolve to their most liquid pair. Undefined when nothing is named.
+ */
+async function findTargetPair(
+  service: DexScreenerService,
+  runtime: IAgentRuntime,
+  message: Memory,
+  content: string
+): Promise<DexScreenerServiceResponse<DexScreenerPair> | undefined> {
+  const bySymbols = async (query: string, base: string, quote?: string) => {
+    const result = await service.search({ query });
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+    const pair = getMainPair(
+      result.data.filter(
+        (pair) =>
+          pair.baseToken.symbol?.toUpperCase() === base &&
+          (!quote || pair.quoteToken.symbol?.toUpperCase() === quote)
+      )
+    );
+    return pair
+      ? { success: true, data: pair }
+      : { success: false, error: createError('NOT_FOUND', `No pairs found for ${query}`) };
+  };
+
+  const pairMatch = content.match(
+    /\$?\b([A-Za-z][A-Za-z0-9]{1,14})\s*\/\s*\$?([A-Za-z][A-Za-z0-9]{1,14})\b/
+  );
+  if (pairMatch && !/^support$/i.test(pairMatch[1])) {
+    const [base, quote] = [pairMatch[1].toUpperCase(), pairMatch[2].toUpperCase()];
+    return bySymbols(`${base}/${quote}`, base, quote);
+  }
+
+  const detected = await findTargetToken(service, runtime, message, content);
+  if (detected) {
+    const result = await lookupTokenPairs(service, detected, content);
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+    const address = detected.address.toLowerCase();
+    const pair =
+      result.data.find((pair) => pair.pairAddress?.toLowerCase() === address) ||
+      getMainPairForToken(result.data, detected.address);
+    return pair
+      ? { success: true, data: pair }
+      : {
+          success: false,
+          error: createError('NOT_FOUND', `No pairs found for ${detected.address}`),
+        };
+  }
+
+  const symbol = content.match(/\b(?:of|for)\s+\$?([A-Za-z][A-Za-z0-9]{1,14})\b/i)?.[1];
+  if (symbol && !/^(?:the|this|that|it|my)$/i.test(symbol)) {
+    return bySymbols(symbol.toUpperCase(), symbol.toUpperCase());
+  }
+  return undefined;
+}
+
+/**
+ * Pick the trending ranking mode named in a message, if any
+ */
+function parseTrendingMode(content: string): DexScreenerTrendingMode | undefined {
+  if (/\b(?:gainers?|pumping)\b/i.test(content)) return 'gainers';
+  if (/\b(?:losers?|dumping)\b/i.test(content)) return 'losers';
+  if (/\bmost[- ](?:active|traded)\b/i.test(content)) return 'most-active';
+  if (/\bvolume[- ]spikes?\b/i.test(content)) return 'volume-spike';
+  return undefined;
+}
+
+/**
+ * Pull the screener terms (e.g. "liq>50k", "sort=vol1h") out of a message,
+ * ignoring the words around them
+ */
+function extractScreenerTerms(content: string): string[] {
+  return content.match(/[a-z][a-z0-9]*(?:\/[a-z][a-z0-9]*)?(?:>=|<=|!=|=|>|<)[^\s]+/gi) || [];
+}
 
 // Search Action
 export const searchTokensAction: Action = {
@@ -31,11 +247,16 @@ export const searchTokensAction: Action = {
       };
     }
 
-    const result = await service.search({ query: queryMatch[1].trim() });
+    // Addresses are looked up directly rather than fuzzy-searched
+    const query = queryMatch[1].trim();
+    const detected = classifyAddress(query);
+    const result = detected
+      ? await lookupTokenPairs(service, detected, content)
+      : await service.search({ query });
 
     if (!result.success || !result.data) {
       return {
-        text: `Failed to search: ${result.error}`,
+        text: formatErrorMessage(`search results for "${query}"`, result.error),
         action: 'dexscreener_search',
       };
     }
@@ -44,7 +265,7 @@ export const searchTokensAction: Action = {
 
     if (pairs.length === 0) {
       return {
-        text: `No results found for "${queryMatch[1].trim()}"`,
+        text: `No results found for "${query}"`,
         action: 'dexscreener_search',
       };
     }
@@ -63,7 +284,7 @@ export const searchTokensAction: Action = {
       .join('\n\n');
 
     return {
-      text: `**🔍 Search Results for "${queryMatch[1].trim()}"**\n\n${pairList}`,
+      text: `**🔍 Search Results for "${query}"**\n\n${pairList}`,
       action: 'dexscreener_search',
       data: pairs,
     };
@@ -102,21 +323,22 @@ export const getTokenInfoAction: Action = {
     const service = runtime.getService('dexscreener') as DexScreenerService;
     const content = typeof message.content === 'string' ? message.content : message.content.text;
 
-    // Extract token address
-    const addressMatch = content.match(/0x[a-fA-F0-9]{40}/);
+    // Extract token address (EVM, Solana, Sui, TON or Tron), or fall back to
+    // the token discussed earlier in the room
+    const detected = detectAddress(content) || (await findEarlierToken(runtime, message, content));
 
-    if (!addressMatch) {
+    if (!detected) {
       return {
         text: 'Please provide a token address. Example: "Get token info for 0x..."',
         action: 'dexscreener_token_info',
       };
     }
 
-    const result = await service.getTokenPairs({ tokenAddress: addressMatch[0] });
+    const result = await lookupTokenPairs(service, detected, content);
 
     if (!result.success || !result.data) {
       return {
-        text: `Failed to get token info: ${result.error}`,
+        text: formatErrorMessage(`token ${detected.address}`, result.error),
         action: 'dexscreener_token_info',
       };
     }
@@ -125,15 +347,15 @@ export const getTokenInfoAction: Action = {
 
     if (pairs.length === 0) {
       return {
-        text: `No pairs found for token ${addressMatch[0]}`,
+        text: `No pairs found for token ${detected.address}`,
         action: 'dexscreener_token_info',
       };
     }
 
     // Get the most liquid pair
-    const mainPair = pairs.reduce((prev, curr) =>
-      (curr.liquidity?.usd || 0) > (prev.liquidity?.usd || 0) ? curr : prev
-    );
+    const mainPair = getMainPair(pairs)!;
+    // Scored from the pair data alone; the risk check also looks up the paid profile
+    const risk = scoreTokenRisk({ pairs }, service);
 
     const pairList = pairs
       .slice(0, 3)
@@ -153,7 +375,8 @@ export const getTokenInfoAction: Action = {
         `**24h Change:** ${service.formatPriceChange(mainPair.priceChange.h24)}\n` +
         `**24h Volume:** ${service.formatUsdValue(mainPair.volume.h24)}\n` +
         `**Market Cap:** ${mainPair.marketCap ? service.formatUsdValue(mainPair.marketCap) : 'N/A'}\n` +
-        `**FDV:** ${mainPair.fdv ? service.formatUsdValue(mainPair.fdv) : 'N/A'}\n\n` +
+        `**FDV:** ${mainPair.fdv ? service.formatUsdValue(mainPair.fdv) : 'N/A'}\n` +
+        `**Risk Score:** ${formatRiskScore(risk)}\n\n` +
         `**Top Trading Pairs:**\n${pairList}`,
       action: 'dexscreener_token_info',
       data: pairs,
@@ -181,7 +404,8 @@ export const getTokenInfoAction: Action = {
 // Get Trending Tokens Action
 export const getTrendingAction: Action = {
   name: 'dexscreener_trending',
-  description: 'Get trending tokens from DexScreener',
+  description:
+    'Get trending tokens from DexScreener, ranked within a 1h, 6h or 24h window as trending, gainers, losers, most active or volume spikes',
 
   validate: async (runtime: IAgentRuntime, message: Memory) => {
     const content = typeof message.content === 'string' ? message.content : message.content.text;
@@ -189,7 +413,9 @@ export const getTrendingAction: Action = {
       content.toLowerCase().includes('trending') ||
       content.toLowerCase().includes('hot') ||
       content.toLowerCase().includes('popular') ||
-      content.toLowerCase().includes('gainers')
+      content.toLowerCase().includes('gainers') ||
+      content.toLowerCase().includes('losers') ||
+      /\bmost[- ]active\b/i.test(content)
     );
   },
 
@@ -197,18 +423,23 @@ export const getTrendingAction: Action = {
     const service = runtime.getService('dexscreener') as DexScreenerService;
     const content = typeof message.content === 'string' ? message.content : message.content.text;
 
-    // Extract timeframe and limit
+    // Extract timeframe, limit, ranking mode and chain
     const timeframeMatch = content.match(/\b(1h|6h|24h)\b/);
     const limitMatch = content.match(/top\s+(\d+)/i);
+    const timeframe = (timeframeMatch?.[1] as DexScreenerTrendingTimeframe) || '24h';
+    const mode = parseTrendingMode(content);
+    const chain = findChainMention(content);
 
     const result = await service.getTrending({
-      timeframe: (timeframeMatch?.[1] as '1h' | '6h' | '24h') || '24h',
+      timeframe,
       limit: limitMatch ? parseInt(limitMatch[1]) : 10,
+      ...(mode ? { mode } : {}),
+      ...(chain ? { chain } : {}),
     });
 
     if (!result.success || !result.data) {
       return {
-        text: `Failed to get trending tokens: ${result.error}`,
+        text: formatErrorMessage('trending tokens', result.error),
         action: 'dexscreener_trending',
       };
     }
@@ -217,24 +448,47 @@ export const getTrendingAction: Action = {
 
     const trendingList = pairs
       .map((pair, i) => {
-        const priceChange = service.formatPriceChange(pair.priceChange.h24);
+        const metrics = getWindowMetrics(pair, timeframe);
+        const priceChange =
+          metrics.priceChange === undefined ? 'N/A' : service.formatPriceChange(metrics.priceChange);
         return (
           `**${i + 1}. ${pair.baseToken.symbol}/${pair.quoteToken.symbol}**\n` +
-          `   💰 ${service.formatPrice(pair.priceUsd || pair.priceNative)} (${priceChange})\n` +
-          `   📊 Vol: ${service.formatUsdValue(pair.volume.h24)} | MCap: ${pair.marketCap ? service.formatUsdValue(pair.marketCap) : 'N/A'}\n` +
-          `   🔥 Buys: ${pair.txns.h24.buys} | Sells: ${pair.txns.h24.sells}`
+          `   💰 ${service.formatPrice(pair.priceUsd || pair.priceNative)} (${timeframe}: ${priceChange})\n` +
+          `   📊 ${timeframe} Vol: ${service.formatUsdValue(metrics.volume)}` +
+          (metrics.volumeAcceleration !== undefined
+            ? ` (${metrics.volumeAcceleration.toFixed(1)}x pace)`
+            : '') +
+          ` | MCap: ${pair.marketCap ? service.formatUsdValue(pair.marketCap) : 'N/A'}\n` +
+          `   🔥 ${timeframe} Buys: ${metrics.buys} | Sells: ${metrics.sells}`
         );
       })
       .join('\n\n');
 
+    const titles: Record<DexScreenerTrendingMode, string> = {
+      trending: '🔥 Trending Tokens',
+      gainers: '🚀 Top Gainers',
+      losers: '📉 Top Losers',
+      'most-active': '⚡ Most Active Tokens',
+      'volume-spike': '📈 Volume Spikes',
+    };
+
     return {
-      text: `**🔥 Trending Tokens (${timeframeMatch?.[1] || '24h'})**\n\n${trendingList}`,
+      text:
+        `**${titles[mode || 'trending']} (${timeframe}${chain ? ` on ${chain}` : ''})**\n\n` +
+        (trendingList || 'No tokens matched.'),
       action: 'dexscreener_trending',
       data: pairs,
     };
   },
 
-  similes: ['hot tokens', 'popular coins', 'top gainers', "what's trending"],
+  similes: [
+    'hot tokens',
+    'popular coins',
+    'top gainers',
+    'top losers',
+    'most active',
+    "what's trending",
+  ],
 
   examples: [
     [
@@ -253,7 +507,8 @@ export const getTrendingAction: Action = {
 // Get New Pairs Action
 export const getNewPairsAction: Action = {
   name: 'dexscreener_new_pairs',
-  description: 'Get newly created trading pairs from DexScreener',
+  description:
+    'Get newly created trading pairs from DexScreener, filtered by age, liquidity, volume, chain and DEX',
 
   validate: async (runtime: IAgentRuntime, message: Memory) => {
     const content = typeof message.content === 'string' ? message.content : message.content.text;
@@ -261,7 +516,8 @@ export const getNewPairsAction: Action = {
       content.toLowerCase().includes('new') &&
       (content.toLowerCase().includes('pairs') ||
         content.toLowerCase().includes('tokens') ||
-        content.toLowerCase().includes('listings'))
+        content.toLowerCase().includes('listings') ||
+        content.toLowerCase().includes('pools'))
     );
   },
 
@@ -269,18 +525,28 @@ export const getNewPairsAction: Action = {
     const service = runtime.getService('dexscreener') as DexScreenerService;
     const content = typeof message.content === 'string' ? message.content : message.content.text;
 
-    // Extract chain and limit
-    const chainMatch = content.match(/on\s+(\w+)/i);
+    // Extract chain, DEX, limit and filters
+    const chain = findChainMention(content);
+    const dex = KNOWN_DEX_IDS.find((id) => new RegExp(`\\b${id}\\b`, 'i').test(content));
     const limitMatch = content.match(/(\d+)\s+(?:new|latest)/i);
+    const maxAge = parseMaxAge(content);
+    const minLiquidity = parseMinimumUsd(content, 'liquidity|liq');
+    const minVolume = parseMinimumUsd(content, 'volume|vol');
 
     const result = await service.getNewPairs({
-      chain: chainMatch?.[1],
+      chain,
       limit: limitMatch ? parseInt(limitMatch[1]) : 10,
+      ...(dex ? { dex } : {}),
+      ...(maxAge ? { maxAge } : {}),
+      ...(minLiquidity ? { minLiquidity } : {}),
+      ...(minVolume ? { minVolume } : {}),
+      // Repeat requests in a room only show pools discovered since
+      seenKey: message.roomId,
     });
 
     if (!result.success || !result.data) {
       return {
-        text: `Failed to get new pairs: ${result.error}`,
+        text: formatErrorMessage('new pairs', result.error),
         action: 'dexscreener_new_pairs',
       };
     }
@@ -289,26 +555,34 @@ export const getNewPairsAction: Action = {
 
     const newPairsList = pairs
       .map((pair, i) => {
-        const age = pair.pairCreatedAt
-          ? `${Math.floor((Date.now() - pair.pairCreatedAt) / 60000)} mins ago`
-          : 'Unknown';
         return (
-          `**${i + 1}. ${pair.baseToken.symbol}/${pair.quoteToken.symbol}** ${pair.labels?.includes('new') ? '🆕' : ''}\n` +
-          `   ⏰ Created: ${age} on ${pair.dexId} (${pair.chainId})\n` +
+          `**${i + 1}. ${pair.baseToken.symbol}/${pair.quoteToken.symbol}** 🆕\n` +
+          `   ⏰ Created: ${formatAge(pair.pairCreatedAt)} ago on ${pair.dexId} (${pair.chainId})\n` +
           `   💰 Price: ${service.formatPrice(pair.priceUsd || pair.priceNative)}\n` +
-          `   💧 Liquidity: ${pair.liquidity?.usd ? service.formatUsdValue(pair.liquidity.usd) : 'N/A'}`
+          `   💧 Liquidity: ${pair.liquidity?.usd ? service.formatUsdValue(pair.liquidity.usd) : 'N/A'}` +
+          ` | 24h Vol: ${pair.volume?.h24 ? service.formatUsdValue(pair.volume.h24) : 'N/A'}`
         );
       })
       .join('\n\n');
 
+    const filters = [
+      `created in the last ${formatAge(Date.now() - (maxAge ?? DEFAULT_NEW_PAIR_MAX_AGE))}`,
+      dex ? `on ${dex}` : '',
+      minLiquidity ? `liquidity ≥ ${service.formatUsdValue(minLiquidity)}` : '',
+      minVolume ? `24h volume ≥ ${service.formatUsdValue(minVolume)}` : '',
+    ].filter(Boolean);
+
     return {
-      text: `**🆕 New Trading Pairs${chainMatch ? ` on ${chainMatch[1]}` : ''}**\n\n${newPairsList}`,
+      text:
+        `**🆕 New Trading Pairs${chain ? ` on ${chain}` : ''}**\n\n` +
+        (newPairsList || 'No new pairs found since the last check.') +
+        `\n\n_Pools ${filters.join(', ')}; pools already shown here are skipped._`,
       action: 'dexscreener_new_pairs',
       data: pairs,
     };
   },
 
-  similes: ['new listings', 'latest pairs', 'new tokens', 'fresh pairs'],
+  similes: ['new listings', 'latest pairs', 'new tokens', 'fresh pairs', 'new pools'],
 
   examples: [
     [
@@ -359,7 +633,7 @@ export const getPairsByChainAction: Action = {
       'solana',
       'avalanche',
     ];
-    const chain = chains.find((c) => content.toLowerCase().includes(c));
+    const chain = findChainMention(content) || chains.find((c) => content.toLowerCase().includes(c));
 
     if (!chain) {
       return {
@@ -368,26 +642,30 @@ export const getPairsByChainAction: Action = {
       };
     }
 
-    // Extract sort criteria
+    // Extract sort criteria and minimums
     let sortBy: 'volume' | 'liquidity' | 'priceChange' | 'txns' = 'volume';
     if (content.includes('liquid')) sortBy = 'liquidity';
     else if (content.includes('gain') || content.includes('change')) sortBy = 'priceChange';
     else if (content.includes('active') || content.includes('trades')) sortBy = 'txns';
+    const minLiquidity = parseMinimumUsd(content, 'liquidity|liq');
+    const minVolume = parseMinimumUsd(content, 'volume|vol');
 
-    const result = await service.getPairsByChain({
+    const result = await service.discoverChainPairs({
       chain,
       sortBy,
       limit: 10,
+      ...(minLiquidity ? { minLiquidity } : {}),
+      ...(minVolume ? { minVolume } : {}),
     });
 
     if (!result.success || !result.data) {
       return {
-        text: `Failed to get ${chain} pairs: ${result.error}`,
+        text: formatErrorMessage(`${chain} pairs`, result.error),
         action: 'dexscreener_chain_pairs',
       };
     }
 
-    const pairs = result.data;
+    const { pairs, collectedAt } = result.data;
 
     const pairsList = pairs
       .slice(0, 5)
@@ -408,7 +686,13 @@ export const getPairsByChainAction: Action = {
       .join('\n\n');
 
     return {
-      text: `**⛓️ Top ${chain.charAt(0).toUpperCase() + chain.slice(1)} Pairs by ${sortBy}**\n\n${pairsList}`,
+      text:
+        `**⛓️ Top ${chain.charAt(0).toUpperCase() + chain.slice(1)} Pairs by ${sortBy}**\n\n` +
+        (pairsList || 'No pairs matched.') +
+        `\n\n_Collected at ${new Date(collectedAt).toISOString().slice(11, 16)} UTC` +
+        (minLiquidity ? `, liquidity ≥ ${service.formatUsdValue(minLiquidity)}` : '') +
+        (minVolume ? `, 24h volume ≥ ${service.formatUsdValue(minVolume)}` : '') +
+        '._',
       action: 'dexscreener_chain_pairs',
       data: pairs,
     };
@@ -457,7 +741,7 @@ export const getBoostedTokensAction: Action = {
 
     if (!result.success || !result.data) {
       return {
-        text: `Failed to get boosted tokens: ${result.error}`,
+        text: formatErrorMessage('boosted tokens', result.error),
         action: 'dexscreener_boosted_tokens',
       };
     }
@@ -525,7 +809,7 @@ export const getTokenProfilesAction: Action = {
 
     if (!result.success || !result.data) {
       return {
-        text: `Failed to get token profiles: ${result.error}`,
+        text: formatErrorMessage('token profiles', result.error),
         action: 'dexscreener_token_profiles',
       };
     }
@@ -570,6 +854,1034 @@ export const getTokenProfilesAction: Action = {
   ],
 };
 
+// Create Price Alert Action
+export const createAlertAction: Action = {
+  name: 'dexscreener_create_alert',
+  description: 'Create a price, price change, liquidity or volume alert for a token or pair',
+
+  validate: async (runtime: IAgentRuntime, message: Memory) => {
+    const content = typeof message.content === 'string' ? message.content : message.content.text;
+    const lower = content.toLowerCase();
+    return (
+      /\b(?:alert|notify|ping|let me know|tell me)\b/.test(lower) &&
+      !/\b(?:cancel|remove|delete|list|show)\b/.test(lower) &&
+      parseAlertRequest(content) !== undefined
+    );
+  },
+
+  handler: async (runtime: IAgentRuntime, message: Memory) => {
+    const alertService = runtime.getService('dexscreener_alerts') as DexScreenerAlertService;
+    const service = runtime.getService('dexscreener') as DexScreenerService;
+    const content = typeof message.content === 'string' ? message.content : message.content.text;
+
+    const request = parseAlertRequest(content);
+
+    if (!request) {
+      return {
+        text: 'Please describe the alert. Example: "Alert me when PEPE drops below $0.000008"',
+        action: 'dexscreener_create_alert',
+      };
+    }
+
+    const result = await alertService.createAlert(request, {
+      roomId: message.roomId,
+      entityId: message.entityId,
+      source: typeof message.content === 'string' ? undefined : message.content.source,
+    });
+
+    if (!result.success || !result.data) {
+      return {
+        text: formatErrorMessage('the alert target', result.error),
+        action: 'dexscreener_create_alert',
+      };
+    }
+
+    const { alert, value, pair } = result.data;
+    const waiting = alert.armed
+      ? ''
+      : `\n\n⚠️ The condition already holds, so the alert will fire after the value moves back and crosses ${formatAlertValue(alert.metric, alert.threshold, service)} again.`;
+
+    return {
+      text:
+        `**🔔 Alert Created** (\`${alert.id.slice(0, 8)}\`)\n\n` +
+        `I'll notify this room when ${describeAlert(alert, service)}${alert.repeat ? ', every time it crosses' : ''}.\n` +
+        `Currently ${formatAlertValue(alert.metric, value, service)} on ${pair.dexId} (${pair.chainId})` +
+        waiting,
+      action: 'dexscreener_create_alert',
+      data: alert,
+    };
+  },
+
+  similes: ['price alert', 'notify me when', 'alert me when', 'set alert'],
+
+  examples: [
+    [
+      {
+        name: 'Price alert',
+        content: { text: 'Alert me when PEPE drops below $0.000008' } as Content,
+      },
+      {
+        name: 'Percent change alert',
+        content: { text: 'Notify me when WETH/USDC 1h change exceeds 5%' } as Content,
+      },
+    ],
+  ],
+};
+
+// List Price Alerts Action
+export const listAlertsAction: Action = {
+  name: 'dexscreener_list_alerts',
+  description: 'List the price alerts set in this room',
+
+  validate: async (runtime: IAgentRuntime, message: Memory) => {
+    const content = typeof message.content === 'string' ? message.content : message.content.text;
+    const lower = content.toLowerCase();
+    return /\balerts\b/.test(lower) && /\b(?:list|show|my|what|which)\b/.test(lower);
+  },
+
+  handler: async (runtime: IAgentRuntime, message: Memory) => {
+    const alertService = runtime.getService('dexscreener_alerts') as DexScreenerAlertService;
+    const service = runtime.getService('dexscreener') as DexScreenerService;
+
+    const alerts = await alertService.getAlerts(message.roomId);
+
+    if (alerts.length === 0) {
+      return {
+        text: 'There are no alerts set in this room.',
+        action: 'dexscreener_list_alerts',
+      };
+    }
+
+    const alertList = alerts
+      .map((alert) => {
+        const status =
+          alert.status === 'triggered'
+            ? '✅ triggered'
+            : alert.armed === false
+              ? '⏸️ waiting to re-arm'
+              : '🟢 active';
+        const last =
+          alert.lastValue !== undefined
+            ? ` | Last: ${formatAlertValue(alert.metric, alert.lastValue, service)}`
+            : '';
+        return `• \`${alert.id.slice(0, 8)}\` ${describeAlert(alert, service)}${alert.repeat ? ' (repeating)' : ''}\n  ${status}${last}`;
+      })
+      .join('\n');
+
+    return {
+      text: `**🔔 Alerts in this room**\n\n${alertList}`,
+      action: 'dexscreener_list_alerts',
+      data: alerts,
+    };
+  },
+
+  similes: ['show alerts', 'my alerts', 'list alerts'],
+
+  examples: [
+    [
+      {
+        name: 'List alerts',
+        content: { text: 'Show my alerts' } as Content,
+      },
+    ],
+  ],
+};
+
+// Cancel Price Alert Action
+export const cancelAlertAction: Action = {
+  name: 'dexscreener_cancel_alert',
+  description: 'Cancel a price alert by its ID',
+
+  validate: async (runtime: IAgentRuntime, message: Memory) => {
+    const content = typeof message.content === 'string' ? message.content : message.content.text;
+    const lower = content.toLowerCase();
+    return /\balert\b/.test(lower) && /\b(?:cancel|remove|delete|stop)\b/.test(lower);
+  },
+
+  handler: async (runtime: IAgentRuntime, message: Memory) => {
+    const alertService = runtime.getService('dexscreener_alerts') as DexScreenerAlertService;
+    const service = runtime.getService('dexscreener') as DexScreenerService;
+    const content = typeof message.content === 'string' ? message.content : message.content.text;
+
+    const idMatch = content.match(/\b([a-f0-9]{8})(?:-[a-f0-9-]+)?\b/i);
+
+    if (!idMatch) {
+      return {
+        text: 'Please provide the alert ID. Example: "Cancel alert 1a2b3c4d"',
+        action: 'dexscreener_cancel_alert',
+      };
+    }
+
+    const removed = await alertService.removeAlert(message.roomId, idMatch[0]);
+
+    if (!removed) {
+      return {
+        text: `No alert with ID ${idMatch[0]} in this room.`,
+        action: 'dexscreener_cancel_alert',
+      };
+    }
+
+    return {
+      text: `Cancelled alert \`${removed.id.slice(0, 8)}\`: ${describeAlert(removed, service)}`,
+      action: 'dexscreener_cancel_alert',
+      data: removed,
+    };
+  },
+
+  similes: ['remove alert', 'delete alert', 'stop alert'],
+
+  examples: [
+    [
+      {
+        name: 'Cancel alert',
+        content: { text: 'Cancel alert 1a2b3c4d' } as Content,
+      },
+    ],
+  ],
+};
+
+// Watch Token Action
+export const watchTokenAction: Action = {
+  name: 'dexscreener_watch',
+  description: 'Add a token to your DexScreener watchlist',
+
+  validate: async (runtime: IAgentRuntime, message: Memory) => {
+    const content = typeof message.content === 'string' ? message.content : message.content.text;
+    const lower = content.toLowerCase();
+    return (
+      (/\bwatch\b/.test(lower) || /\badd\b.*\bto\b.*\bwatchlist\b/.test(lower)) &&
+      (parseWatchlistTarget(content) !== undefined ||
+        /\b(?:that|this|same|earlier|previous|last)\b/.test(lower))
+    );
+  },
+
+  handler: async (runtime: IAgentRuntime, message: Memory) => {
+    const service = runtime.getService('dexscreener') as DexScreenerService;
+    const content = typeof message.content === 'string' ? message.content : message.content.text;
+
+    const earlier = parseWatchlistTarget(content)
+      ? undefined
+      : await findEarlierToken(runtime, message, content);
+    const target: DexScreenerWatchlistTarget | undefined = earlier
+      ? { type: 'address', detected: earlier }
+      : parseWatchlistTarget(content);
+
+    if (!target) {
+      return {
+        text: 'Please provide a token address or symbol. Example: "Watch 0x..." or "Watch PEPE"',
+        action: 'dexscreener_watch',
+      };
+    }
+
+    const subject = target.type === 'address' ? `token ${target.detected.address}` : target.symbol;
+    const result = await resolveWatchlistTarget(service, target, content);
+
+    if (!result.success || !result.data) {
+      return {
+        text: formatErrorMessage(subject, result.error),
+        action: 'dexscreener_watch',
+      };
+    }
+
+    const pair = result.data;
+    const entry = {
+      chainId: pair.chainId,
+      tokenAddress: pair.baseToken.address,
+      symbol: pair.baseToken.symbol,
+      name: pair.baseToken.name,
+      pairAddress: pair.pairAddress,
+      addedAt: Date.now(),
+    };
+    const added = await addToWatchlist(runtime, message.entityId, message.roomId, entry);
+
+    // Record the pair's history from now on, when snapshots are enabled
+    const snapshots = runtime.getService(
+      'dexscreener_snapshots'
+    ) as DexScreenerSnapshotService | null;
+    await snapshots?.trackPair(pair, `${message.roomId}:${message.entityId}`).catch((error) => {
+      console.warn('DexScreener could not track pair snapshots:', error);
+    });
+
+    return {
+      text: added
+        ? `👀 Added **${entry.symbol}** (${entry.chainId}) to your watchlist at ${service.formatPrice(pair.priceUsd || pair.priceNative)}.`
+        : `**${entry.symbol}** (${entry.chainId}) is already on your watchlist.`,
+      action: 'dexscreener_watch',
+      data: entry,
+    };
+  },
+
+  similes: ['add to watchlist', 'track token', 'follow token'],
+
+  examples: [
+    [
+      {
+        name: 'Watch token by address',
+        content: { text: 'Watch 0x6982508145454Ce325dDbE47a25d4ec3d2311933' } as Content,
+      },
+      {
+        name: 'Watch token by symbol',
+        content: { text: 'Add PEPE to my watchlist' } as Content,
+      },
+    ],
+  ],
+};
+
+// Unwatch Token Action
+export const unwatchTokenAction: Action = {
+  name: 'dexscreener_unwatch',
+  description: 'Remove a token from your DexScreener watchlist',
+
+  validate: async (runtime: IAgentRuntime, message: Memory) => {
+    const content = typeof message.content === 'string' ? message.content : message.content.text;
+    const lower = content.toLowerCase();
+    return (
+      (/\bunwatch\b/.test(lower) ||
+        /\b(?:remove|drop|delete)\b.*\bfrom\b.*\bwatchlist\b/.test(lower)) &&
+      parseWatchlistTarget(content) !== undefined
+    );
+  },
+
+  handler: async (runtime: IAgentRuntime, message: Memory) => {
+    const content = typeof message.content === 'string' ? message.content : message.content.text;
+
+    const target = parseWatchlistTarget(content);
+
+    if (!target) {
+      return {
+        text: 'Please provide a token address or symbol. Example: "Unwatch PEPE"',
+        action: 'dexscreener_unwatch',
+      };
+    }
+
+    const removed = await removeFromWatchlist(runtime, message.entityId, message.roomId, target);
+    const subject = target.type === 'address' ? target.detected.address : target.symbol;
+
+    // Stop recording pairs no other watchlist still has
+    const snapshots = runtime.getService(
+      'dexscreener_snapshots'
+    ) as DexScreenerSnapshotService | null;
+    for (const entry of removed) {
+      if (snapshots && entry.pairAddress) {
+        await snapshots
+          .untrackPair(entry.chainId, entry.pairAddress, `${message.roomId}:${message.entityId}`)
+          .catch((error) => {
+            console.warn('DexScreener could not untrack pair snapshots:', error);
+          });
+      }
+    }
+
+    return {
+      text:
+        removed.length > 0
+          ? `Removed ${removed.map((entry) => `**${entry.symbol}** (${entry.chainId})`).join(', ')} from your watchlist.`
+          : `${subject} is not on your watchlist.`,
+      action: 'dexscreener_unwatch',
+      data: removed,
+    };
+  },
+
+  similes: ['remove from watchlist', 'stop watching', 'untrack token'],
+
+  examples: [
+    [
+      {
+        name: 'Unwatch token',
+        content: { text: 'Unwatch PEPE' } as Content,
+      },
+    ],
+  ],
+};
+
+// Show Watchlist Action
+export const showWatchlistAction: Action = {
+  name: 'dexscreener_watchlist',
+  description: 'Show your DexScreener watchlist with current prices',
+
+  validate: async (runtime: IAgentRuntime, message: Memory) => {
+    const content = typeof message.content === 'string' ? message.content : message.content.text;
+    const lower = content.toLowerCase();
+    return (
+      /\bwatchlist\b/.test(lower) &&
+      /\b(?:show|my|list|view|what|check)\b/.test(lower) &&
+      !/\b(?:add|remove|drop|delete)\b/.test(lower)
+    );
+  },
+
+  handler: async (runtime: IAgentRuntime, message: Memory) => {
+    const service = runtime.getService('dexscreener') as DexScreenerService;
+
+    const entries = await getWatchlist(runtime, message.entityId, message.roomId);
+
+    if (entries.length === 0) {
+      return {
+        text: 'Your watchlist is empty. Add a token with "Watch 0x..." or "Watch PEPE".',
+        action: 'dexscreener_watchlist',
+      };
+    }
+
+    const result = await getWatchlistRows(service, entries);
+
+    if (!result.success || !result.data) {
+      return {
+        text: formatErrorMessage('your watchlist', result.error),
+        action: 'dexscreener_watchlist',
+      };
+    }
+
+    const rows = result.data
+      .map(({ entry, pair }) =>
+        pair
+          ? `| ${entry.symbol} | ${entry.chainId} | ${service.formatPrice(pair.priceUsd || pair.priceNative)} | ` +
+            `${service.formatPriceChange(pair.priceChange.h24)} | ` +
+            `${pair.liquidity?.usd ? service.formatUsdValue(pair.liquidity.usd) : 'N/A'} | ` +
+            `${service.formatUsdValue(pair.volume.h24)} |`
+          : `| ${entry.symbol} | ${entry.chainId} | N/A | N/A | N/A | N/A |`
+      )
+      .join('\n');
+
+    return {
+      text:
+        `**👀 Your Watchlist**\n\n` +
+        `| Token | Chain | Price | 24h | Liquidity | 24h Volume |\n` +
+        `|---|---|---|---|---|---|\n` +
+        rows,
+      action: 'dexscreener_watchlist',
+      data: result.data,
+    };
+  },
+
+  similes: ['my watchlist', 'show watchlist', 'watched tokens'],
+
+  examples: [
+    [
+      {
+        name: 'Show watchlist',
+        content: { text: 'Show my watchlist' } as Content,
+      },
+    ],
+  ],
+};
+
+// Risk Check Action
+export const riskCheckAction: Action = {
+  name: 'dexscreener_risk_check',
+  description: 'Score how risky a token looks (0-100) with itemised reasons',
+
+  validate: async (runtime: IAgentRuntime, message: Memory) => {
+    const content = typeof message.content === 'string' ? message.content : message.content.text;
+    return RISK_PATTERN.test(content);
+  },
+
+  handler: async (runtime: IAgentRuntime, message: Memory) => {
+    const service = runtime.getService('dexscreener') as DexScreenerService;
+    const content = typeof message.content === 'string' ? message.content : message.content.text;
+
+    const cashtag = extractTokenMentions(content).symbols[0];
+    const detected = await findTargetToken(service, runtime, message, content);
+
+    if (!detected) {
+      return {
+        text: cashtag
+          ? `DexScreener has no data for $${cashtag}.`
+          : 'Please provide a token address or $SYMBOL. Example: "Is 0x... a rug?"',
+        action: 'dexscreener_risk_check',
+      };
+    }
+
+    const result = await lookupTokenPairs(service, detected, content);
+
+    if (!result.success || !result.data) {
+      return {
+        text: formatErrorMessage(`token ${detected.address}`, result.error),
+        action: 'dexscreener_risk_check',
+      };
+    }
+
+    const mainPair = getMainPairForToken(result.data, detected.address);
+
+    if (!mainPair) {
+      return {
+        text: `No pairs found for token ${detected.address}`,
+        action: 'dexscreener_risk_check',
+      };
+    }
+
+    const risk = await assessTokenRisk(service, result.data);
+
+    const reasons =
+      risk.factors.length > 0
+        ? risk.factors
+            .slice()
+            .sort((a, b) => b.points - a.points)
+            .map((factor) => `• +${factor.points} ${factor.reason}`)
+            .join('\n')
+        : '• No warning signs found';
+
+    return {
+      text:
+        `**🛡️ Risk Check: ${mainPair.baseToken.name} (${mainPair.baseToken.symbol})**\n\n` +
+        `**Risk Score:** ${formatRiskScore(risk)}\n\n` +
+        `**Reasons:**\n${reasons}\n\n` +
+        `_Heuristic screening from DexScreener data, not financial advice._`,
+      action: 'dexscreener_risk_check',
+      data: risk,
+    };
+  },
+
+  similes: ['is this a rug', 'rug check', 'token risk', 'is it safe', 'scam check'],
+
+  examples: [
+    [
+      {
+        name: 'Rug check by address',
+        content: { text: 'Is 0x6982508145454Ce325dDbE47a25d4ec3d2311933 a rug?' } as Content,
+      },
+      {
+        name: 'Risk check by symbol',
+        content: { text: 'How risky is $PEPE?' } as Content,
+      },
+    ],
+  ],
+};
+
+// Compare Tokens Action
+export const compareTokensAction: Action = {
+  name: 'dexscreener_compare',
+  description: 'Compare 2-5 tokens side by side using their most liquid pairs',
+
+  validate: async (runtime: IAgentRuntime, message: Memory) => {
+    const content = typeof message.content === 'string' ? message.content : message.content.text;
+    return (
+      /\b(?:compare|vs\.?|versus)(?:\s|$)/i.test(content) &&
+      parseComparisonTargets(content).length >= MIN_COMPARE_TOKENS
+    );
+  },
+
+  handler: async (runtime: IAgentRuntime, message: Memory) => {
+    const service = runtime.getService('dexscreener') as DexScreenerService;
+    const content = typeof message.content === 'string' ? message.content : message.content.text;
+
+    const references = parseComparisonTargets(content);
+
+    if (references.length < MIN_COMPARE_TOKENS || references.length > MAX_COMPARE_TOKENS) {
+      return {
+        text: `Please name between ${MIN_COMPARE_TOKENS} and ${MAX_COMPARE_TOKENS} tokens to compare. Example: "Compare PEPE vs WIF"`,
+        action: 'dexscreener_compare',
+      };
+    }
+
+    const resolved = await resolveTokenReferences(service, references);
+    const describe = (reference: DexScreenerTokenReference) =>
+      reference.type === 'symbol'
+        ? reference.symbol
+        : reference.type === 'address'
+          ? reference.address
+          : reference.pairAddress;
+
+    const missing = references.filter((reference) => !resolved.has(getReferenceKey(reference)));
+    const pairs = references.flatMap((reference) => resolved.get(getReferenceKey(reference)) || []);
+
+    if (pairs.length < MIN_COMPARE_TOKENS) {
+      return {
+        text: `I couldn't find enough of those tokens on DexScreener to compare${
+          missing.length > 0 ? ` (no data for ${missing.map(describe).join(', ')})` : ''
+        }.`,
+        action: 'dexscreener_compare',
+      };
+    }
+
+    return {
+      text:
+        `**⚖️ Token Comparison**\n\n` +
+        `${formatComparisonTable(pairs, service)}\n\n` +
+        `**Relative to ${pairs[0].baseToken.symbol}:**\n${formatComparisonRatios(pairs)}` +
+        (missing.length > 0 ? `\n\n_No data for ${missing.map(describe).join(', ')}._` : ''),
+      action: 'dexscreener_compare',
+      data: pairs,
+    };
+  },
+
+  similes: ['compare tokens', 'token vs token', 'side by side'],
+
+  examples: [
+    [
+      {
+        name: 'Compare by symbol',
+        content: { text: 'Compare PEPE vs WIF' } as Content,
+      },
+      {
+        name: 'Compare by address',
+        content: {
+          text: 'Compare 0x6982508145454Ce325dDbE47a25d4ec3d2311933 and 0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+        } as Content,
+      },
+    ],
+  ],
+};
+
+// Price Aggregation Action
+export const priceAggregationAction: Action = {
+  name: 'dexscreener_price_aggregation',
+  description:
+    'Liquidity-weighted price of a token across all its pairs, with per-pair deviation and liquidity by DEX and chain',
+
+  validate: async (runtime: IAgentRuntime, message: Memory) => {
+    const content = typeof message.content === 'string' ? message.content : message.content.text;
+    return /\b(?:where does .+ trade|weighted price|average price|price across|across (?:all )?(?:dexes|pairs|pools|exchanges)|price deviation|liquidity breakdown)\b/i.test(
+      content
+    );
+  },
+
+  handler: async (runtime: IAgentRuntime, message: Memory) => {
+    const service = runtime.getService('dexscreener') as DexScreenerService;
+    const content = typeof message.content === 'string' ? message.content : message.content.text;
+
+    const cashtag = extractTokenMentions(content).symbols[0];
+    const detected = await findTargetToken(service, runtime, message, content);
+
+    if (!detected) {
+      return {
+        text: cashtag
+          ? `DexScreener has no data for $${cashtag}.`
+          : 'Please provide a token address or $SYMBOL. Example: "Where does $PEPE trade?"',
+        action: 'dexscreener_price_aggregation',
+      };
+    }
+
+    const result = await lookupTokenPairs(service, detected, content);
+
+    if (!result.success || !result.data) {
+      return {
+        text: formatErrorMessage(`token ${detected.address}`, result.error),
+        action: 'dexscreener_price_aggregation',
+      };
+    }
+
+    const aggregation = aggregateTokenPrice(result.data, detected.address);
+
+    if (!aggregation) {
+      return {
+        text: `No priced pairs with liquidity found for token ${detected.address}`,
+        action: 'dexscreener_price_aggregation',
+      };
+    }
+
+    const percent = (share: number) => `${(share * 100).toFixed(1)}%`;
+    const formatPair = ({ pair, price, liquidity, weight, deviation, outlier }: DexScreenerPairPrice) =>
+      `• **${pair.baseToken.symbol}/${pair.quoteToken.symbol}** on ${pair.dexId} (${pair.chainId}): ` +
+      `$${service.formatPrice(price)} (${service.formatPriceChange(deviation)}) | ` +
+      `Liq: ${service.formatUsdValue(liquidity)} (${percent(weight)})${outlier ? ' ⚠️ outlier' : ''}`;
+    const formatShares = (shares: DexScreenerLiquidityShare[]) =>
+      shares
+        .map(
+          (share) =>
+            `• ${share.id}: ${service.formatUsdValue(share.liquidity)} (${percent(share.share)}, ` +
+            `${share.pairCount} pair${share.pairCount === 1 ? '' : 's'})`
+        )
+        .join('\n');
+
+    // Outliers are thin, so list them even when they fall outside the top pairs
+    const shown = aggregation.pairs.filter((entry, index) => index < 8 || entry.outlier);
+    const outliers = aggregation.pairs.filter((entry) => entry.outlier).length;
+    const notes = [
+      outliers > 0
+        ? `⚠️ ${outliers} thin pair${outliers === 1 ? '' : 's'} quote${outliers === 1 ? 's' : ''} a price far from the average; don't trust ${outliers === 1 ? 'it' : 'them'}.`
+        : '',
+      aggregation.pairs.length > shown.length
+        ? `_${aggregation.pairs.length - shown.length} smaller pairs not shown._`
+        : '',
+      aggregation.excluded > 0
+        ? `_${aggregation.excluded} pair${aggregation.excluded === 1 ? '' : 's'} without a USD price or liquidity left out._`
+        : '',
+    ].filter(Boolean);
+
+    return {
+      text:
+        `**⚖️ Price Across Pairs: ${aggregation.symbol}**\n\n` +
+        `**Weighted Price:** $${service.formatPrice(aggregation.weightedPrice)} across ${aggregation.pairs.length} pair${aggregation.pairs.length === 1 ? '' : 's'}\n` +
+        `**Total Liquidity:** ${service.formatUsdValue(aggregation.totalLiquidity)}\n\n` +
+        `**Pairs (deviation from weighted price):**\n${shown.map(formatPair).join('\n')}\n\n` +
+        `**Liquidity by DEX:**\n${formatShares(aggregation.byDex)}\n\n` +
+        `**Liquidity by Chain:**\n${formatShares(aggregation.byChain)}` +
+        (notes.length > 0 ? `\n\n${notes.join('\n')}` : ''),
+      action: 'dexscreener_price_aggregation',
+      data: aggregation,
+    };
+  },
+
+  similes: ['where does it trade', 'price across dexes', 'weighted price', 'liquidity breakdown'],
+
+  examples: [
+    [
+      {
+        name: 'Aggregate by symbol',
+        content: { text: 'Where does $PEPE trade?' } as Content,
+      },
+      {
+        name: 'Aggregate by address',
+        content: {
+          text: 'Weighted price across dexes for 0x6982508145454Ce325dDbE47a25d4ec3d2311933',
+        } as Content,
+      },
+    ],
+  ],
+};
+
+// Arbitrage Action
+export const arbitrageAction: Action = {
+  name: 'dexscreener_arbitrage',
+  description:
+    'Find price spreads for a token (or the configured token list) across DEXes and chains, net of fees and slippage',
+
+  validate: async (runtime: IAgentRuntime, message: Memory) => {
+    const content = typeof message.content === 'string' ? message.content : message.content.text;
+    return /\b(?:arb|arbs|arbitrage|spreads?)\b/i.test(content);
+  },
+
+  handler: async (runtime: IAgentRuntime, message: Memory) => {
+    const service = runtime.getService('dexscreener') as DexScreenerService;
+    const content = typeof message.content === 'string' ? message.content : message.content.text;
+
+    const options = {
+      feePercent: parseFloat(runtime.getSetting('DEXSCREENER_ARBITRAGE_FEE_PERCENT') || '0.3'),
+      minLiquidity: parseFloat(runtime.getSetting('DEXSCREENER_ARBITRAGE_MIN_LIQUIDITY') || '10000'),
+    };
+
+    // Scan the token in the message, or fall back to the configured list
+    const detected = await findTargetToken(service, runtime, message, content);
+    const tokens = detected
+      ? [{ tokenAddress: detected.address, chainId: inferChainId(detected, content) }]
+      : parseArbitrageTokenList(runtime.getSetting('DEXSCREENER_ARBITRAGE_TOKENS'));
+
+    if (tokens.length === 0) {
+      return {
+        text: 'Please provide a token address or $SYMBOL. Example: "Any arbitrage on $PEPE?"',
+        action: 'dexscreener_arbitrage',
+      };
+    }
+
+    const subject = detected ? `token ${detected.address}` : 'the configured tokens';
+    const result = await scanArbitrage(service, tokens, options);
+
+    if (!result.success || !result.data) {
+      return {
+        text: formatErrorMessage(`arbitrage data for ${subject}`, result.error),
+        action: 'dexscreener_arbitrage',
+      };
+    }
+
+    const assumptions =
+      `Assuming ${options.feePercent}% fees and slippage per trade, ` +
+      `${service.formatUsdValue(options.minLiquidity)} minimum liquidity per pair.`;
+
+    if (result.data.length === 0) {
+      return {
+        text: `No arbitrage opportunities above fees found for ${subject}. ${assumptions}`,
+        action: 'dexscreener_arbitrage',
+        data: [],
+      };
+    }
+
+    const list = result.data
+      .slice(0, 5)
+      .map(
+        (opportunity, index) =>
+          `${index + 1}. **${opportunity.symbol}**: buy on ${opportunity.buy.pair.dexId} (${opportunity.buy.pair.chainId}) ` +
+          `at $${service.formatPrice(opportunity.buy.price)} → sell on ${opportunity.sell.pair.dexId} (${opportunity.sell.pair.chainId}) ` +
+          `at $${service.formatPrice(opportunity.sell.price)}\n` +
+          `   Net spread: ${service.formatPriceChange(opportunity.netSpread)} ` +
+          `(gross ${service.formatPriceChange(opportunity.grossSpread)}) | ` +
+          `Min liq: ${service.formatUsdValue(opportunity.minLiquidity)}` +
+          (opportunity.crossChain ? ' | cross-chain' : '')
+      )
+      .join('\n\n');
+
+    return {
+      text:
+        `**🔀 Arbitrage Opportunities**\n\n${list}\n\n${assumptions}\n` +
+        `_Spreads are from DexScreener quotes; gas and bridging costs are not included._`,
+      action: 'dexscreener_arbitrage',
+      data: result.data,
+    };
+  },
+
+  similes: ['arbitrage', 'price spread', 'arb opportunities', 'cross-dex spread'],
+
+  examples: [
+    [
+      {
+        name: 'Arbitrage for a token',
+        content: { text: 'Any arbitrage on $PEPE?' } as Content,
+      },
+      {
+        name: 'Scan configured tokens',
+        content: { text: 'Scan for arb opportunities' } as Content,
+      },
+    ],
+  ],
+};
+
+// Screener Action
+export const screenPairsAction: Action = {
+  name: 'dexscreener_screen',
+  description:
+    'Screen pairs with a filter expression such as "chain=base liq>50k vol24h>1m age<24h buys/sells>1.5 sort=vol1h"',
+
+  validate: async (runtime: IAgentRuntime, message: Memory) => {
+    const content = typeof message.content === 'string' ? message.content : message.content.text;
+    return /\bscreen(?:er)?\b/i.test(content) || extractScreenerTerms(content).length >= 2;
+  },
+
+  handler: async (runtime: IAgentRuntime, message: Memory) => {
+    const service = runtime.getService('dexscreener') as DexScreenerService;
+    const content = typeof message.content === 'string' ? message.content : message.content.text;
+
+    const expression = extractScreenerTerms(content).join(' ');
+    const example = 'Example: "screen chain=base liq>50k vol24h>1m age<24h buys/sells>1.5"';
+
+    if (!expression) {
+      return {
+        text: `Please give the screen as conditions like liq>50k. ${example}\n\nFields: ${SCREENER_FIELDS.join(', ')}`,
+        action: 'dexscreener_screen',
+      };
+    }
+
+    try {
+      parseScreenerQuery(expression);
+    } catch (error) {
+      if (error instanceof DexScreenerQueryError) {
+        return {
+          text:
+            `I couldn't read that screen:\n${error.problems.map((problem) => `• ${problem}`).join('\n')}` +
+            `\n\n${example}`,
+          action: 'dexscreener_screen',
+        };
+      }
+      throw error;
+    }
+
+    const result = await service.screen({ query: expression });
+
+    if (!result.success || !result.data) {
+      return {
+        text: formatErrorMessage('screener results', result.error),
+        action: 'dexscreener_screen',
+      };
+    }
+
+    const { pairs, candidates } = result.data;
+
+    const pairsList = pairs
+      .slice(0, 10)
+      .map(
+        (pair, i) =>
+          `**${i + 1}. ${pair.baseToken.symbol}/${pair.quoteToken.symbol}** on ${pair.dexId} (${pair.chainId})\n` +
+          `   💰 ${service.formatPrice(pair.priceUsd || pair.priceNative)} | ` +
+          `Liq: ${pair.liquidity?.usd ? service.formatUsdValue(pair.liquidity.usd) : 'N/A'} | ` +
+          `Vol 24h: ${pair.volume?.h24 ? service.formatUsdValue(pair.volume.h24) : 'N/A'} | ` +
+          `24h: ${pair.priceChange?.h24 !== undefined ? service.formatPriceChange(pair.priceChange.h24) : 'N/A'} | ` +
+          `Age: ${formatAge(pair.pairCreatedAt)}`
+      )
+      .join('\n\n');
+
+    return {
+      text:
+        `**🔎 Screener:** \`${expression}\`\n` +
+        `${pairs.length} of ${candidates} candidate pairs match\n\n` +
+        (pairsList || 'No pairs matched. Try loosening the conditions.'),
+      action: 'dexscreener_screen',
+      data: result.data,
+    };
+  },
+
+  similes: ['screen pairs', 'filter pairs', 'pair screener', 'scan pairs'],
+
+  examples: [
+    [
+      {
+        name: 'Screen Base pairs',
+        content: {
+          text: 'screen chain=base liq>50k vol24h>1m age<24h buys/sells>1.5 dex=aerodrome',
+        } as Content,
+      },
+      {
+        name: 'Screen with sorting',
+        content: { text: 'screener chain=solana chg1h>10 sort=vol1h limit=5' } as Content,
+      },
+    ],
+  ],
+};
+
+// Indicators Action
+export const indicatorsAction: Action = {
+  name: 'dexscreener_indicators',
+  description:
+    'Show technical indicators (SMA, EMA, RSI, VWAP, Bollinger bands, ATR, support/resistance) for a pair from its recorded price history',
+
+  validate: async (runtime: IAgentRuntime, message: Memory) => {
+    const content = typeof message.content === 'string' ? message.content : message.content.text;
+    return (
+      /\bindicators?\b/i.test(content) ||
+      /\b(?:support\s*(?:\/|and)\s*resistance|s\/r)\b/i.test(content) ||
+      parseIndicatorRequests(content).some((request) => request.name !== 'levels')
+    );
+  },
+
+  handler: async (runtime: IAgentRuntime, message: Memory) => {
+    const service = runtime.getService('dexscreener') as DexScreenerService;
+    const snapshots = runtime.getService(
+      'dexscreener_snapshots'
+    ) as DexScreenerSnapshotService | null;
+    const content = typeof message.content === 'string' ? message.content : message.content.text;
+
+    const requests = parseIndicatorRequests(content);
+    const resolution = parseCandleResolution(content) || '15m';
+    const target = await findTargetPair(service, runtime, message, content);
+
+    if (!target) {
+      return {
+        text: 'Please name a pair or token. Example: "RSI of PEPE/WETH on 15m"',
+        action: 'dexscreener_indicators',
+      };
+    }
+
+    if (!target.success || !target.data) {
+      return {
+        text: formatErrorMessage('that pair', target.error),
+        action: 'dexscreener_indicators',
+      };
+    }
+
+    const pair = target.data;
+    const label = `${pair.baseToken.symbol}/${pair.quoteToken.symbol}`;
+
+    if (!snapshots) {
+      return {
+        text: `Indicators are computed from recorded price history, and snapshot recording isn't running, so there's no history for ${label}.`,
+        action: 'dexscreener_indicators',
+      };
+    }
+
+    const report = await snapshots.getIndicators(
+      pair.chainId,
+      pair.pairAddress,
+      resolution,
+      requests.length > 0 ? requests : undefined
+    );
+
+    if (report.candles === 0) {
+      // Recording is started by watching the token, not by asking about it
+      const tracked = await snapshots.isTracked(pair.chainId, pair.pairAddress);
+      const required = Math.max(0, ...report.results.map((result) => result.depth.required));
+      return {
+        text:
+          `No recorded price history for **${label}** yet. ` +
+          `${tracked ? 'It is being recorded' : `Watch ${pair.baseToken.symbol} to start recording it`}` +
+          (required > 0 ? `; these indicators need at least ${required} ${resolution} candles.` : '.'),
+        action: 'dexscreener_indicators',
+        data: report,
+      };
+    }
+
+    return {
+      text:
+        `**📐 ${label} indicators (${resolution})** on ${pair.dexId} (${pair.chainId})\n` +
+        formatIndicatorReport(report, (price) => service.formatPrice(price)),
+      action: 'dexscreener_indicators',
+      data: report,
+    };
+  },
+
+  similes: ['technical indicators', 'technical analysis', 'rsi', 'moving average'],
+
+  examples: [
+    [
+      {
+        name: 'RSI of a pair',
+        content: { text: 'RSI of PEPE/WETH on 15m' } as Content,
+      },
+      {
+        name: 'Several indicators',
+        content: {
+          text: 'Show SMA 50, Bollinger bands and support/resistance for $WIF hourly',
+        } as Content,
+      },
+    ],
+  ],
+};
+
+// Spiking Action
+export const spikingAction: Action = {
+  name: 'dexscreener_spiking',
+  description:
+    "Show what's spiking right now: pairs with unusual volume, transaction bursts, buy/sell shifts or price/volume divergence",
+
+  validate: async (runtime: IAgentRuntime, message: Memory) => {
+    const content = typeof message.content === 'string' ? message.content : message.content.text;
+    return (
+      !/\btrending\b/i.test(content) &&
+      /\b(?:spiking|spikes?|anomal(?:y|ies|ous)|unusual (?:volume|activity))\b/i.test(content)
+    );
+  },
+
+  handler: async (runtime: IAgentRuntime, message: Memory) => {
+    const service = runtime.getService('dexscreener') as DexScreenerService;
+    const content = typeof message.content === 'string' ? message.content : message.content.text;
+
+    const chain = findChainMention(content);
+    const limitMatch = content.match(/top\s+(\d+)/i);
+    const result = await service.getAnomalies({
+      limit: limitMatch ? parseInt(limitMatch[1]) : 10,
+      ...(chain ? { chain } : {}),
+    });
+
+    if (!result.success || !result.data) {
+      return {
+        text: formatErrorMessage('spiking pairs', result.error),
+        action: 'dexscreener_spiking',
+      };
+    }
+
+    const list = result.data
+      .map(({ pair, score, signals }, i) => {
+        const change = pair.priceChange?.m5;
+        return (
+          `**${i + 1}. ${pair.baseToken.symbol}/${pair.quoteToken.symbol}** ` +
+          `on ${pair.dexId} (${pair.chainId}) - score ${score}\n` +
+          `   ${signals.map((signal) => signal.reason).join(' | ')}\n` +
+          `   💰 ${service.formatPrice(pair.priceUsd || pair.priceNative)} | ` +
+          `5m: ${change !== undefined ? service.formatPriceChange(change) : 'N/A'} | ` +
+          `Liq: ${pair.liquidity?.usd ? service.formatUsdValue(pair.liquidity.usd) : 'N/A'}`
+        );
+      })
+      .join('\n\n');
+
+    return {
+      text:
+        `**🚨 Spiking Right Now${chain ? ` on ${chain}` : ''}**\n\n` +
+        (list || 'Nothing unusual right now.'),
+      action: 'dexscreener_spiking',
+      data: result.data,
+    };
+  },
+
+  similes: ["what's spiking", 'unusual activity', 'volume anomalies', 'spiking tokens'],
+
+  examples: [
+    [
+      {
+        name: 'Ask what is spiking',
+        content: { text: "What's spiking right now?" } as Content,
+      },
+      {
+        name: 'Spikes on a chain',
+        content: { text: 'Any unusual volume on solana?' } as Content,
+      },
+    ],
+  ],
+};
+
 // Export all actions
 export const dexscreenerActions = [
   searchTokensAction,
@@ -579,4 +1891,17 @@ export const dexscreenerActions = [
   getPairsByChainAction,
   getBoostedTokensAction,
   getTokenProfilesAction,
+  createAlertAction,
+  listAlertsAction,
+  cancelAlertAction,
+  watchTokenAction,
+  unwatchTokenAction,
+  showWatchlistAction,
+  riskCheckAction,
+  compareTokensAction,
+  priceAggregationAction,
+  arbitrageAction,
+  screenPairsAction,
+  indicatorsAction,
+  spikingAction,
 ];
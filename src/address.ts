@@ -0,0 +1,171 @@
+import { DexScreenerAddressKind, DexScreenerDetectedAddress } from './types';
+
+// DexScreener chain IDs for EVM networks, most commonly requested first
+export const EVM_CHAIN_IDS = [
+  'ethereum',
+  'bsc',
+  'base',
+  'arbitrum',
+  'polygon',
+  'optimism',
+  'avalanche',
+];
+
+const CHAIN_ALIASES: Record<string, string> = {
+  ethereum: 'ethereum',
+  eth: 'ethereum',
+  bsc: 'bsc',
+  bnb: 'bsc',
+  binance: 'bsc',
+  base: 'base',
+  arbitrum: 'arbitrum',
+  arb: 'arbitrum',
+  polygon: 'polygon',
+  matic: 'polygon',
+  optimism: 'optimism',
+  avalanche: 'avalanche',
+  avax: 'avalanche',
+  solana: 'solana',
+  sol: 'solana',
+  sui: 'sui',
+  ton: 'ton',
+  tron: 'tron',
+};
+
+// Aliases that are also everyday words or tickers ("the base price", "a ton of",
+// "ETH price"); these only name a chain next to a marker like "on base" or "base chain"
+const AMBIGUOUS_ALIASES = new Set(['base', 'eth', 'sol', 'arb', 'ton']);
+const MARKERS_BEFORE = new Set(['on', 'chain', 'network']);
+const MARKERS_AFTER = new Set(['chain', 'network', 'mainnet']);
+
+const KIND_CHAINS: Record<DexScreenerAddressKind, string[]> = {
+  evm: EVM_CHAIN_IDS,
+  solana: ['solana'],
+  sui: ['sui'],
+  ton: ['ton'],
+  tron: ['tron'],
+};
+
+const BASE58 = '[1-9A-HJ-NP-Za-km-z]';
+
+// Ordered from most to least specific; earlier matches claim their span of text
+const ADDRESS_PATTERNS: Array<{ kind: DexScreenerAddressKind; pattern: RegExp }> = [
+  // Sui coin type, e.g. 0x2::sui::SUI
+  { kind: 'sui', pattern: /\b0x[a-fA-F0-9]{1,64}::[A-Za-z_][A-Za-z0-9_]*::[A-Za-z_][A-Za-z0-9_]*/g },
+  // Sui object IDs are 32 bytes
+  { kind: 'sui', pattern: /\b0x[a-fA-F0-9]{64}\b/g },
+  { kind: 'evm', pattern: /\b0x[a-fA-F0-9]{40}\b/g },
+  // TON user-friendly (bounceable/non-bounceable) and raw forms
+  { kind: 'ton', pattern: /(?<![A-Za-z0-9_-])[EUk0]Q[A-Za-z0-9_-]{46}(?![A-Za-z0-9_-])/g },
+  { kind: 'ton', pattern: /(?<![\w-])(?:0|-1):[a-fA-F0-9]{64}\b/g },
+  { kind: 'tron', pattern: new RegExp(`\\bT${BASE58}{33}\\b`, 'g') },
+  { kind: 'solana', pattern: new RegExp(`\\b${BASE58}{32,44}\\b`, 'g') },
+];
+
+/**
+ * Find every token address in a piece of text, in order of appearance
+ */
+export function detectAddresses(text: string): DexScreenerDetectedAddress[] {
+  const found: Array<DexScreenerDetectedAddress & { index: number; end: number }> = [];
+
+  for (const { kind, pattern } of ADDRESS_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const index = match.index!;
+      const end = index + match[0].length;
+      if (found.some((existing) => index < existing.end && end > existing.index)) {
+        continue;
+      }
+      found.push({ address: match[0], kind, chains: KIND_CHAINS[kind], index, end });
+    }
+  }
+
+  return found
+    .sort((a, b) => a.index - b.index)
+    .map(({ address, kind, chains }) => ({ address, kind, chains }));
+}
+
+/**
+ * Find the first token address in a piece of text
+ */
+export function detectAddress(text: string): DexScreenerDetectedAddress | undefined {
+  return detectAddresses(text)[0];
+}
+
+/**
+ * Classify a bare address, or return undefined if it isn't one we recognise
+ */
+export function classifyAddress(address: string): DexScreenerDetectedAddress | undefined {
+  const detected = detectAddress(address.trim());
+  return detected && detected.address === address.trim() ? detected : undefined;
+}
+
+/**
+ * The address format a DexScreener chain uses, if we know it
+ */
+export function getChainAddressKind(chainId: string): DexScreenerAddressKind | undefined {
+  const chain = chainId.toLowerCase();
+  if (EVM_CHAIN_IDS.includes(chain)) return 'evm';
+  return (Object.keys(KIND_CHAINS) as DexScreenerAddressKind[]).find(
+    (kind) => kind !== 'evm' && KIND_CHAINS[kind].includes(chain)
+  );
+}
+
+/**
+ * Whether an address could belong to the given chain. Addresses recognised as
+ * another chain's format are rejected; chains we don't know accept anything.
+ */
+export function isAddressForChain(address: string, chainId: string): boolean {
+  const kind = getChainAddressKind(chainId);
+  if (!kind) {
+    return true;
+  }
+
+  const detected = classifyAddress(address);
+  if (detected) {
+    return detected.kind === kind;
+  }
+
+  // Unrecognised strings only pass if they at least look like an EVM hex address
+  return kind === 'evm' && /^0x[a-fA-F0-9]+$/.test(address);
+}
+
+/**
+ * Find every chain named in the text ("on base", "solana", "bnb"), as DexScreener chain IDs
+ */
+export function findChainMentions(text: string): string[] {
+  const words = text.toLowerCase().match(/[a-z]+/g) || [];
+  const chains: string[] = [];
+  words.forEach((word, i) => {
+    const chain = CHAIN_ALIASES[word];
+    if (
+      !chain ||
+      chains.includes(chain) ||
+      (AMBIGUOUS_ALIASES.has(word) &&
+        !MARKERS_BEFORE.has(words[i - 1]) &&
+        !MARKERS_AFTER.has(words[i + 1]))
+    ) {
+      return;
+    }
+    chains.push(chain);
+  });
+  return chains;
+}
+
+/**
+ * Find the first chain named in the text, as a DexScreener chain ID
+ */
+export function findChainMention(text: string): string | undefined {
+  return findChainMentions(text)[0];
+}
+
+/**
+ * Pick the chain to query for an address: the only candidate chain, or a
+ * chain named in the text when it is one of the candidates. Returns undefined
+ * when the chain is ambiguous (e.g. an EVM address with no chain mentioned).
+ */
+export function inferChainId(detected: DexScreenerDetectedAddress, text = ''): string | undefined {
+  if (detected.chains.length === 1) {
+    return detected.chains[0];
+  }
+  return findChainMentions(text).find((chain) => detected.chains.includes(chain));
+}
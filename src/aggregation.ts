@@ -0,0 +1,108 @@
+import {
+  DexScreenerAggregationOptions,
+  DexScreenerLiquidityShare,
+  DexScreenerPair,
+  DexScreenerPairPrice,
+  DexScreenerPriceAggregation,
+} from './types';
+
+/**
+ * USD price of a token in a pair. DexScreener prices the base token, so
+ * when the token is the quote its price is derived from the base price.
+ */
+export function getTokenPriceInPair(pair: DexScreenerPair, tokenAddress: string): number | undefined {
+  const priceUsd = parseFloat(pair.priceUsd || '');
+  if (!Number.isFinite(priceUsd) || priceUsd <= 0) {
+    return undefined;
+  }
+
+  const address = tokenAddress.toLowerCase();
+  if (pair.baseToken.address?.toLowerCase() === address) {
+    return priceUsd;
+  }
+  if (pair.quoteToken.address?.toLowerCase() === address) {
+    const priceNative = parseFloat(pair.priceNative);
+    return Number.isFinite(priceNative) && priceNative > 0 ? priceUsd / priceNative : undefined;
+  }
+  return undefined;
+}
+
+function groupLiquidity(
+  prices: DexScreenerPairPrice[],
+  key: (pair: DexScreenerPair) => string,
+  total: number
+): DexScreenerLiquidityShare[] {
+  const groups = new Map<string, DexScreenerLiquidityShare>();
+  for (const { pair, liquidity } of prices) {
+    const id = key(pair);
+    const group = groups.get(id) || { id, liquidity: 0, share: 0, pairCount: 0 };
+    group.liquidity += liquidity;
+    group.pairCount += 1;
+    groups.set(id, group);
+  }
+  return [...groups.values()]
+    .map((group) => ({ ...group, share: total > 0 ? group.liquidity / total : 0 }))
+    .sort((a, b) => b.liquidity - a.liquidity);
+}
+
+/**
+ * Aggregate a token's price across all of its pairs.
+ *
+ * The price is the liquidity-weighted average of every pair with a USD price
+ * and liquidity. Each pair reports its deviation from that average, and thin
+ * pairs (below `thinShare` of total liquidity) that deviate by more than
+ * `outlierDeviation` percent are flagged as outliers: their quotes are not
+ * backed by enough liquidity to trust. Returns undefined when no pair can be priced.
+ */
+export function aggregateTokenPrice(
+  pairs: DexScreenerPair[],
+  tokenAddress: string,
+  options: DexScreenerAggregationOptions = {}
+): DexScreenerPriceAggregation | undefined {
+  const outlierDeviation = options.outlierDeviation ?? 5;
+  const thinShare = options.thinShare ?? 0.05;
+
+  const priced = pairs.flatMap((pair) => {
+    const price = getTokenPriceInPair(pair, tokenAddress);
+    const liquidity = pair.liquidity?.usd || 0;
+    return price !== undefined && liquidity > 0 ? [{ pair, price, liquidity }] : [];
+  });
+  if (priced.length === 0) {
+    return undefined;
+  }
+
+  const totalLiquidity = priced.reduce((total, entry) => total + entry.liquidity, 0);
+  const weightedPrice =
+    priced.reduce((total, entry) => total + entry.price * entry.liquidity, 0) / totalLiquidity;
+
+  const prices: DexScreenerPairPrice[] = priced
+    .map(({ pair, price, liquidity }) => {
+      const weight = liquidity / totalLiquidity;
+      const deviation = ((price - weightedPrice) / weightedPrice) * 100;
+      return {
+        pair,
+        price,
+        liquidity,
+        weight,
+        deviation,
+        outlier: weight < thinShare && Math.abs(deviation) > outlierDeviation,
+      };
+    })
+    .sort((a, b) => b.liquidity - a.liquidity);
+
+  const address = tokenAddress.toLowerCase();
+  const token =
+    priced.find(({ pair }) => pair.baseToken.address?.toLowerCase() === address)?.pair.baseToken ||
+    priced[0].pair.quoteToken;
+
+  return {
+    tokenAddress,
+    symbol: token.symbol,
+    weightedPrice,
+    totalLiquidity,
+    pairs: prices,
+    byDex: groupLiquidity(prices, (pair) => pair.dexId, totalLiquidity),
+    byChain: groupLiquidity(prices, (pair) => pair.chainId, totalLiquidity),
+    excluded: pairs.length - priced.length,
+  };
+}
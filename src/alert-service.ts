@@ -0,0 +1,387 @@
+import { Service, IAgentRuntime, UUID } from '@elizaos/core';
+import { randomUUID } from 'crypto';
+import { DexScreenerService } from './service';
+import {
+  DexScreenerAlert,
+  DexScreenerAlertObservation,
+  DexScreenerAlertOrigin,
+  DexScreenerPair,
+  DexScreenerServiceResponse,
+} from './types';
+import {
+  DexScreenerAlertRequest,
+  describeAlert,
+  evaluateAlert,
+  formatAlertValue,
+  getAlertMetricValue,
+  getDefaultHysteresis,
+} from './alerts';
+import { classifyError, createError } from './errors';
+import { getMainPair, getMainPairForToken } from './pairs';
+import { withKeyLock } from './lock';
+
+const ALERTS_CACHE_KEY = 'dexscreener:alerts';
+// How long a fired one-shot alert stays listed before it is pruned
+const TRIGGERED_RETENTION = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Drop one-shot alerts that fired more than TRIGGERED_RETENTION ago
+ */
+function pruneAlerts(alerts: DexScreenerAlert[], now = Date.now()): DexScreenerAlert[] {
+  return alerts.filter(
+    (alert) =>
+      alert.status !== 'triggered' ||
+      now - (alert.triggeredAt ?? alert.createdAt) < TRIGGERED_RETENTION
+  );
+}
+
+/**
+ * Stores price alerts through the runtime cache and polls DexScreener for them
+ * in the background, posting to the originating room when one fires.
+ */
+export class DexScreenerAlertService extends Service {
+  static serviceType = 'dexscreener_alerts';
+  public serviceType = 'dexscreener_alerts' as const;
+  public capabilityDescription = 'Watches DexScreener prices and notifies rooms when alerts fire';
+  private pollInterval: number;
+  private timer?: ReturnType<typeof setInterval>;
+  private checking = false;
+
+  constructor(runtime: IAgentRuntime) {
+    super(runtime);
+    this.pollInterval = parseInt(runtime.getSetting('DEXSCREENER_ALERT_POLL_INTERVAL') || '60000');
+  }
+
+  static async start(runtime: IAgentRuntime): Promise<DexScreenerAlertService> {
+    const service = new DexScreenerAlertService(runtime);
+    service.startPolling();
+    return service;
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    console.log('DexScreener alert service stopped');
+  }
+
+  /**
+   * Start checking alerts every DEXSCREENER_ALERT_POLL_INTERVAL milliseconds
+   */
+  startPolling(): void {
+    if (this.timer || this.pollInterval <= 0) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      if (this.checking) {
+        return;
+      }
+      this.checking = true;
+      this.checkAlerts()
+        .catch((error) => console.error('DexScreener alert check error:', error))
+        .finally(() => {
+          this.checking = false;
+        });
+    }, this.pollInterval);
+  }
+
+  private async loadAlerts(): Promise<DexScreenerAlert[]> {
+    return (await this.runtime.getCache<DexScreenerAlert[]>(ALERTS_CACHE_KEY)) || [];
+  }
+
+  private async saveAlerts(alerts: DexScreenerAlert[]): Promise<void> {
+    await this.runtime.setCache(ALERTS_CACHE_KEY, alerts);
+  }
+
+  private getDexScreener(): DexScreenerService {
+    const service = this.runtime.getService('dexscreener') as DexScreenerService | null;
+    if (!service) {
+      throw new Error('DexScreener service is not available');
+    }
+    return service;
+  }
+
+  /**
+   * Get the alerts for a room, or every stored alert when no room is given
+   */
+  async getAlerts(roomId?: string): Promise<DexScreenerAlert[]> {
+    const alerts = await this.loadAlerts();
+    return roomId ? alerts.filter((alert) => alert.roomId === roomId) : alerts;
+  }
+
+  /**
+   * Resolve an alert request to a pair on DexScreener and store the alert.
+   * The current value becomes the baseline, so the alert only fires once the
+   * value crosses the threshold from here.
+   */
+  async createAlert(
+    request: DexScreenerAlertRequest,
+    origin: DexScreenerAlertOrigin
+  ): Promise<DexScreenerServiceResponse<DexScreenerAlertObservation>> {
+    try {
+      const resolved = await this.resolveTarget(request);
+      if (!resolved.success || !resolved.data) {
+        return { success: false, error: resolved.error };
+      }
+
+      const { pair, target } = resolved.data;
+      const value = getAlertMetricValue(pair, request.metric, request.window);
+      if (value === undefined) {
+        return {
+          success: false,
+          error: createError(
+            'INVALID_INPUT',
+            `DexScreener doesn't report ${request.metric} for ${target.label}`
+          ),
+        };
+      }
+
+      const { alert } = evaluateAlert(
+        {
+          id: randomUUID(),
+          roomId: origin.roomId,
+          entityId: origin.entityId,
+          source: origin.source,
+          target,
+          metric: request.metric,
+          window: request.window,
+          direction: request.direction,
+          threshold: request.threshold,
+          hysteresis: getDefaultHysteresis(request.metric, request.threshold),
+          repeat: request.repeat,
+          status: 'active',
+          createdAt: Date.now(),
+          triggerCount: 0,
+        },
+        value
+      );
+
+      await withKeyLock(ALERTS_CACHE_KEY, async () => {
+        const alerts = await this.loadAlerts();
+        await this.saveAlerts([...pruneAlerts(alerts), alert]);
+      });
+
+      return { success: true, data: { alert, value, pair } };
+    } catch (error) {
+      console.error('DexScreener createAlert error:', error);
+      return { success: false, error: classifyError(error, 'Failed to create alert') };
+    }
+  }
+
+  /**
+   * Remove a room's alert by ID or unambiguous ID prefix
+   */
+  async removeAlert(roomId: string, id: string): Promise<DexScreenerAlert | undefined> {
+    return withKeyLock(ALERTS_CACHE_KEY, async () => {
+      const alerts = await this.loadAlerts();
+      const matches = alerts.filter(
+        (alert) => alert.roomId === roomId && alert.id.startsWith(id.toLowerCase())
+      );
+      if (matches.length !== 1) {
+        return undefined;
+      }
+      await this.saveAlerts(alerts.filter((alert) => alert !== matches[0]));
+      return matches[0];
+    });
+  }
+
+  private async resolveTarget(request: DexScreenerAlertRequest): Promise<
+    DexScreenerServiceResponse<{ pair: DexScreenerPair; target: DexScreenerAlert['target'] }>
+  > {
+    const dexscreener = this.getDexScreener();
+    const { target, chainId } = request;
+
+    if (target.type === 'address') {
+      const address = target.detected.address;
+      const result = chainId
+        ? await dexscreener.getTokenPairsByChain(chainId, address)
+        : await dexscreener.getTokenPairs({ tokenAddress: address });
+      if (!result.success || !result.data) {
+        return { success: false, error: result.error };
+      }
+
+      // The address may be a pool rather than a token
+      const poolPair = result.data.find(
+        (pair) => pair.pairAddress?.toLowerCase() === address.toLowerCase()
+      );
+      if (poolPair) {
+        return {
+          success: true,
+          data: {
+            pair: poolPair,
+            target: {
+              chainId: poolPair.chainId,
+              pairAddress: poolPair.pairAddress,
+              label: `${poolPair.baseToken.symbol}/${poolPair.quoteToken.symbol}`,
+            },
+          },
+        };
+      }
+
+      const pair = getMainPairForToken(result.data, address) || getMainPair(result.data);
+      if (!pair) {
+        return { success: false, error: createError('NOT_FOUND', `No pairs found for ${address}`) };
+      }
+      return {
+        success: true,
+        data: {
+          pair,
+          target: {
+            chainId: pair.chainId,
+            tokenAddress: pair.baseToken.address || address,
+            label: pair.baseToken.symbol,
+          },
+        },
+      };
+    }
+
+    const query =
+      target.type === 'pair' ? `${target.baseSymbol}/${target.quoteSymbol}` : target.symbol;
+    const result = await dexscreener.search({ query });
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+
+    const candidates = result.data.filter(
+      (pair) =>
+        (!chainId || pair.chainId === chainId) &&
+        (target.type === 'pair'
+          ? pair.baseToken.symbol?.toUpperCase() === target.baseSymbol &&
+            pair.quoteToken.symbol?.toUpperCase() === target.quoteSymbol
+          : pair.baseToken.symbol?.toUpperCase() === target.symbol)
+    );
+    const pair = getMainPair(candidates);
+    if (!pair) {
+      return { success: false, error: createError('NOT_FOUND', `No pairs found for ${query}`) };
+    }
+
+    return {
+      success: true,
+      data: {
+        pair,
+        target:
+          target.type === 'pair'
+            ? {
+                chainId: pair.chainId,
+                pairAddress: pair.pairAddress,
+                label: `${pair.baseToken.symbol}/${pair.quoteToken.symbol}`,
+              }
+            : {
+                chainId: pair.chainId,
+                tokenAddress: pair.baseToken.address,
+                label: pair.baseToken.symbol,
+              },
+      },
+    };
+  }
+
+  /**
+   * Fetch the current pair for every alert target, one batched lookup per
+   * chain for pair targets and one for token targets
+   */
+  private async fetchTargets(alerts: DexScreenerAlert[]): Promise<Map<string, DexScreenerPair>> {
+    const dexscreener = this.getDexScreener();
+    const byChain = new Map<string, { pairs: Set<string>; tokens: Set<string> }>();
+    for (const alert of alerts) {
+      const group = byChain.get(alert.target.chainId) || { pairs: new Set(), tokens: new Set() };
+      if (alert.target.pairAddress) {
+        group.pairs.add(alert.target.pairAddress);
+      } else if (alert.target.tokenAddress) {
+        group.tokens.add(alert.target.tokenAddress);
+      }
+      byChain.set(alert.target.chainId, group);
+    }
+
+    const found = new Map<string, DexScreenerPair>();
+    await Promise.all(
+      [...byChain].map(async ([chainId, group]) => {
+        if (group.pairs.size > 0) {
+          const result = await dexscreener.getPairs(
+            { chainId, pairAddresses: [...group.pairs] },
+            { priority: 'low' }
+          );
+          for (const pair of result.data?.pairs || []) {
+            found.set(`${chainId}:pair:${pair.pairAddress.toLowerCase()}`, pair);
+          }
+        }
+        if (group.tokens.size > 0) {
+          const result = await dexscreener.getTokenBatch(chainId, [...group.tokens], {
+            priority: 'low',
+          });
+          for (const token of group.tokens) {
+            const pair = getMainPairForToken(result.data?.pairs || [], token);
+            if (pair) {
+              found.set(`${chainId}:token:${token.toLowerCase()}`, pair);
+            }
+          }
+        }
+      })
+    );
+    return found;
+  }
+
+  /**
+   * Evaluate every active alert against fresh DexScreener data, persist the
+   * new alert state and notify the rooms of alerts that fired
+   */
+  async checkAlerts(): Promise<DexScreenerAlertObservation[]> {
+    const active = (await this.loadAlerts()).filter((alert) => alert.status === 'active');
+    if (active.length === 0) {
+      return [];
+    }
+
+    const pairs = await this.fetchTargets(active);
+    const fired: DexScreenerAlertObservation[] = [];
+    const updates = new Map<string, DexScreenerAlert>();
+
+    for (const alert of active) {
+      const { chainId, pairAddress, tokenAddress } = alert.target;
+      const pair = pairAddress
+        ? pairs.get(`${chainId}:pair:${pairAddress.toLowerCase()}`)
+        : pairs.get(`${chainId}:token:${tokenAddress?.toLowerCase()}`);
+      const value = pair && getAlertMetricValue(pair, alert.metric, alert.window);
+      if (!pair || value === undefined) {
+        continue;
+      }
+
+      const evaluation = evaluateAlert(alert, value);
+      updates.set(alert.id, evaluation.alert);
+      if (evaluation.fired) {
+        fired.push({ alert: evaluation.alert, value, pair });
+      }
+    }
+
+    // Merge into the latest stored list, so alerts added or removed while
+    // polling are kept as they are, and only notify for alerts still active
+    const notified = await withKeyLock(ALERTS_CACHE_KEY, async () => {
+      const alerts = await this.loadAlerts();
+      const stillActive = new Set(
+        alerts.filter((alert) => alert.status === 'active').map((alert) => alert.id)
+      );
+      await this.saveAlerts(pruneAlerts(alerts.map((alert) => updates.get(alert.id) || alert)));
+      return fired.filter(({ alert }) => stillActive.has(alert.id));
+    });
+
+    await Promise.all(notified.map((observation) => this.notify(observation)));
+    return notified;
+  }
+
+  private async notify({ alert, value, pair }: DexScreenerAlertObservation): Promise<void> {
+    const dexscreener = this.getDexScreener();
+    const text =
+      `**🔔 Alert: ${describeAlert(alert, dexscreener)}**\n\n` +
+      `Now ${formatAlertValue(alert.metric, value, dexscreener)} on ${pair.dexId} (${pair.chainId})\n` +
+      `🔗 ${pair.url}` +
+      (alert.repeat ? '' : `\n\nThis alert is now complete.`);
+
+    try {
+      await this.runtime.sendMessageToTarget(
+        { source: alert.source || 'dexscreener', roomId: alert.roomId as UUID },
+        { text, source: 'dexscreener' }
+      );
+    } catch (error) {
+      console.error('DexScreener alert notification error:', error);
+    }
+  }
+}
@@ -0,0 +1,297 @@
+import {
+  DexScreenerAlert,
+  DexScreenerAlertDirection,
+  DexScreenerAlertMetric,
+  DexScreenerDetectedAddress,
+  DexScreenerPair,
+  DexScreenerWindow,
+} from './types';
+import { detectAddress, findChainMention, inferChainId } from './address';
+import { DexScreenerService } from './service';
+
+type Formatters = Pick<DexScreenerService, 'formatPrice' | 'formatPriceChange' | 'formatUsdValue'>;
+
+export interface DexScreenerAlertRequest {
+  target:
+    | { type: 'address'; detected: DexScreenerDetectedAddress }
+    | { type: 'pair'; baseSymbol: string; quoteSymbol: string }
+    | { type: 'symbol'; symbol: string };
+  /** Chain the target was scoped to, when the text names or implies one */
+  chainId?: string;
+  metric: DexScreenerAlertMetric;
+  window?: DexScreenerWindow;
+  direction: DexScreenerAlertDirection;
+  threshold: number;
+  repeat: boolean;
+}
+
+export interface DexScreenerAlertEvaluation {
+  alert: DexScreenerAlert;
+  fired: boolean;
+}
+
+const WINDOW_ALIASES: Record<string, DexScreenerWindow> = {
+  '5m': 'm5',
+  m5: 'm5',
+  '1h': 'h1',
+  h1: 'h1',
+  '6h': 'h6',
+  h6: 'h6',
+  '24h': 'h24',
+  h24: 'h24',
+};
+
+const ABOVE_PATTERN =
+  /\b(?:above|over|exceeds?|exceeding|rises?|climbs?|goes up|greater than|more than|higher than|reaches)\b|>/i;
+const BELOW_PATTERN =
+  /\b(?:below|under|drops?|falls?|dips?|goes down|less than|lower than|sinks?)\b|</i;
+// A falling verb followed by an amount rather than a level: "drops 5%", "falls by 10%"
+const FALLING_MOVE_PATTERN = /^(?:drops?|falls?|dips?|sinks?|goes down)\s+(?:by\s+)?[-+.\d]/i;
+
+// Words that follow "when"/"of" in alert phrasing but are never token symbols
+const NON_SYMBOLS = new Set([
+  'the',
+  'price',
+  'it',
+  'its',
+  'my',
+  'a',
+  'an',
+  'token',
+  'liquidity',
+  'volume',
+  'change',
+]);
+
+/**
+ * Read the value an alert watches from a pair, or undefined when DexScreener doesn't report it
+ */
+export function getAlertMetricValue(
+  pair: DexScreenerPair,
+  metric: DexScreenerAlertMetric,
+  window: DexScreenerWindow = 'h24'
+): number | undefined {
+  let value: number | undefined;
+  switch (metric) {
+    case 'price':
+      value = parseFloat(pair.priceUsd || '');
+      break;
+    case 'priceChange':
+      value = pair.priceChange?.[window];
+      break;
+    case 'liquidity':
+      value = pair.liquidity?.usd;
+      break;
+    case 'volume':
+      value = pair.volume?.[window];
+      break;
+  }
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Default re-arm band: 2% of the threshold, or half a point for percent changes
+ */
+export function getDefaultHysteresis(metric: DexScreenerAlertMetric, threshold: number): number {
+  return metric === 'priceChange' ? 0.5 : Math.abs(threshold) * 0.02;
+}
+
+function isConditionMet(alert: DexScreenerAlert, value: number): boolean {
+  return alert.direction === 'above' ? value > alert.threshold : value < alert.threshold;
+}
+
+/**
+ * Whether the value has moved back past the threshold by at least the hysteresis band
+ */
+function isReset(alert: DexScreenerAlert, value: number): boolean {
+  return alert.direction === 'above'
+    ? value <= alert.threshold - alert.hysteresis
+    : value >= alert.threshold + alert.hysteresis;
+}
+
+/**
+ * Apply a newly observed value to an alert.
+ *
+ * Alerts fire on crossings, not on levels: the first observation only sets a
+ * baseline, so an alert created while its condition already holds waits for
+ * the value to reset before it can fire. After firing, a repeating alert
+ * re-arms once the value moves back past the threshold by the hysteresis
+ * band; a one-shot alert is marked triggered and no longer evaluated.
+ */
+export function evaluateAlert(
+  alert: DexScreenerAlert,
+  value: number,
+  now = Date.now()
+): DexScreenerAlertEvaluation {
+  if (alert.status !== 'active') {
+    return { alert, fired: false };
+  }
+
+  const next: DexScreenerAlert = { ...alert, lastValue: value, lastCheckedAt: now };
+  const conditionMet = isConditionMet(alert, value);
+
+  if (alert.armed === undefined) {
+    next.armed = !conditionMet;
+    return { alert: next, fired: false };
+  }
+
+  if (alert.armed && conditionMet) {
+    next.armed = false;
+    next.triggeredAt = now;
+    next.triggerCount = alert.triggerCount + 1;
+    if (!alert.repeat) {
+      next.status = 'triggered';
+    }
+    return { alert: next, fired: true };
+  }
+
+  if (!alert.armed && isReset(alert, value)) {
+    next.armed = true;
+  }
+
+  return { alert: next, fired: false };
+}
+
+function parseThreshold(text: string): { value: number; signed: boolean } | undefined {
+  const match = text.match(/([-+]?)\s*\$?\s*(\d[\d,]*(?:\.\d+)?|\.\d+)\s*([kmb])?(?![\w.])/i);
+  if (!match) {
+    return undefined;
+  }
+
+  const multipliers: Record<string, number> = { k: 1e3, m: 1e6, b: 1e9 };
+  const value =
+    parseFloat(match[2].replace(/,/g, '')) * (match[3] ? multipliers[match[3].toLowerCase()] : 1);
+  return { value: match[1] === '-' ? -value : value, signed: match[1] !== '' };
+}
+
+function parseTarget(text: string): DexScreenerAlertRequest['target'] | undefined {
+  const detected = detectAddress(text);
+  if (detected) {
+    return { type: 'address', detected };
+  }
+
+  const pairMatch = text.match(/\$?\b([A-Za-z][A-Za-z0-9]{1,14})\s*\/\s*\$?([A-Za-z][A-Za-z0-9]{1,14})\b/);
+  if (pairMatch) {
+    return {
+      type: 'pair',
+      baseSymbol: pairMatch[1].toUpperCase(),
+      quoteSymbol: pairMatch[2].toUpperCase(),
+    };
+  }
+
+  const candidates = [
+    text.match(/\$([A-Za-z][A-Za-z0-9]{1,14})\b/),
+    text.match(/\b(?:of|for|on)\s+\$?([A-Za-z][A-Za-z0-9]{1,14})\b/i),
+    text.match(/\b(?:when|if|once)\s+\$?([A-Za-z][A-Za-z0-9]{1,14})\b/i),
+  ];
+  for (const match of candidates) {
+    if (match && !NON_SYMBOLS.has(match[1].toLowerCase())) {
+      return { type: 'symbol', symbol: match[1].toUpperCase() };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse a natural-language alert such as "alert me when PEPE drops below $0.000008"
+ * or "when WETH/USDC 1h change exceeds 5%". Returns undefined when the target,
+ * direction or threshold can't be found.
+ */
+export function parseAlertRequest(text: string): DexScreenerAlertRequest | undefined {
+  const target = parseTarget(text);
+  if (!target) {
+    return undefined;
+  }
+
+  // Only look for the threshold after the direction word, so "1h" or a
+  // symbol like "1INCH" isn't mistaken for it
+  const above = text.match(ABOVE_PATTERN);
+  const below = text.match(BELOW_PATTERN);
+  const directionMatch =
+    above && below ? (above.index! < below.index! ? above : below) : above || below;
+  if (!directionMatch) {
+    return undefined;
+  }
+
+  const direction: DexScreenerAlertDirection = directionMatch === above ? 'above' : 'below';
+  let remainder = text.slice(directionMatch.index! + directionMatch[0].length);
+  if (target.type === 'address') {
+    remainder = remainder.replace(target.detected.address, ' ');
+  }
+  const parsed = parseThreshold(remainder);
+  if (parsed === undefined) {
+    return undefined;
+  }
+
+  const lower = text.toLowerCase();
+  let metric: DexScreenerAlertMetric = 'price';
+  if (/\bliq(?:uidity)?\b/.test(lower)) {
+    metric = 'liquidity';
+  } else if (/\bvol(?:ume)?\b/.test(lower)) {
+    metric = 'volume';
+  } else if (/\bchange\b|%|\bpercent\b/.test(lower)) {
+    metric = 'priceChange';
+  }
+
+  // "drops 5%" means a change of -5%, not a change below +5%
+  const threshold =
+    metric === 'priceChange' &&
+    !parsed.signed &&
+    FALLING_MOVE_PATTERN.test(text.slice(directionMatch.index!))
+      ? -parsed.value
+      : parsed.value;
+
+  const windowMatch = lower.match(/\b(5m|m5|1h|h1|6h|h6|24h|h24)\b/);
+  const window =
+    metric === 'priceChange' || metric === 'volume'
+      ? windowMatch
+        ? WINDOW_ALIASES[windowMatch[1]]
+        : 'h24'
+      : undefined;
+
+  return {
+    target,
+    chainId:
+      target.type === 'address' ? inferChainId(target.detected, text) : findChainMention(text),
+    metric,
+    window,
+    direction,
+    threshold,
+    repeat: /\b(?:every time|whenever|each time|repeat(?:ing|edly)?)\b/.test(lower),
+  };
+}
+
+/**
+ * Format a value of the given metric for display
+ */
+export function formatAlertValue(
+  metric: DexScreenerAlertMetric,
+  value: number,
+  formatters: Formatters
+): string {
+  switch (metric) {
+    case 'price':
+      return `$${formatters.formatPrice(value)}`;
+    case 'priceChange':
+      return formatters.formatPriceChange(value);
+    default:
+      return formatters.formatUsdValue(value);
+  }
+}
+
+/**
+ * Describe what an alert watches, e.g. "PEPE/WETH 1h change above +5.00%"
+ */
+export function describeAlert(alert: DexScreenerAlert, formatters: Formatters): string {
+  const windowLabel = alert.window ? alert.window.slice(1) + alert.window[0] : '';
+  const metricLabel =
+    alert.metric === 'price'
+      ? 'price'
+      : alert.metric === 'priceChange'
+        ? `${windowLabel} change`
+        : alert.metric === 'volume'
+          ? `${windowLabel} volume`
+          : 'liquidity';
+  return `${alert.target.label} ${metricLabel} ${alert.direction} ${formatAlertValue(alert.metric, alert.threshold, formatters)}`;
+}
@@ -0,0 +1,153 @@
+import {
+  DexScreenerAnomaly,
+  DexScreenerAnomalyOptions,
+  DexScreenerAnomalySignal,
+  DexScreenerAnomalySignalId,
+  DexScreenerPair,
+} from './types';
+
+// Maximum points each signal adds to the score
+const WEIGHTS: Record<DexScreenerAnomalySignalId, number> = {
+  volume_acceleration: 35,
+  txn_burst: 25,
+  buy_sell_shift: 20,
+  price_volume_divergence: 20,
+};
+
+// Recent pace below this multiple of the baseline isn't a spike
+const MIN_RATIO = 2;
+// Change in the share of buys (0 to 1) that counts as a shift
+const MIN_SHIFT = 0.2;
+
+/**
+ * Strength of a pace ratio: 2x is 0.25, 4x is 0.5 and 16x or more is 1
+ */
+function getRatioStrength(ratio: number): number {
+  return ratio <= 1 ? 0 : Math.min(1, Math.log2(ratio) / 4);
+}
+
+/**
+ * Pace of a recent window relative to a longer one's average, e.g. m5 volume
+ * against a twelfth of h1. Infinity when there was nothing before.
+ */
+function getPace(recent: number, baseline: number, parts: number): number {
+  if (recent <= 0) return 0;
+  return baseline > 0 ? (recent * parts) / baseline : Infinity;
+}
+
+function formatRatio(ratio: number): string {
+  return Number.isFinite(ratio) ? `${ratio.toFixed(1)}x` : 'far above';
+}
+
+function formatPercent(value: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(1)}%`;
+}
+
+/**
+ * Score one pair for unusual activity from its rolling windows:
+ *
+ * - volume acceleration: 5m volume against the 1h run rate (h1 / 12), or 1h
+ *   volume against the 6h run rate
+ * - transaction burst: 5m transactions against the 1h run rate
+ * - buy/sell shift: the share of buys in the last 5 minutes against the
+ *   last 6 hours
+ * - price/volume divergence: a volume spike with a flat price, or a sharp
+ *   price move on below-average volume
+ *
+ * Each signal has a strength from 0 to 1 and the score is their weighted
+ * sum, from 0 to 100.
+ */
+export function scorePairAnomaly(
+  pair: DexScreenerPair,
+  options: DexScreenerAnomalyOptions = {}
+): DexScreenerAnomaly {
+  const { minVolume = 1000, minTxns = 10 } = options;
+  const signals: DexScreenerAnomalySignal[] = [];
+  const add = (id: DexScreenerAnomalySignalId, strength: number, reason: string) => {
+    if (strength > 0) {
+      signals.push({ id, strength, points: WEIGHTS[id] * strength, reason });
+    }
+  };
+
+  const volume = pair.volume || ({} as DexScreenerPair['volume']);
+  const shortPace = getPace(volume.m5 || 0, volume.h1 || 0, 12);
+  const longPace = getPace(volume.h1 || 0, volume.h6 || 0, 6);
+  const shortStrength = (volume.m5 || 0) >= minVolume ? getRatioStrength(shortPace) : 0;
+  const longStrength = (volume.h1 || 0) >= minVolume ? getRatioStrength(longPace) : 0;
+  if (shortPace >= MIN_RATIO && shortStrength >= longStrength) {
+    add('volume_acceleration', shortStrength, `5m volume ${formatRatio(shortPace)} the 1h rate`);
+  } else if (longPace >= MIN_RATIO) {
+    add('volume_acceleration', longStrength, `1h volume ${formatRatio(longPace)} the 6h rate`);
+  }
+
+  const count = (window: 'm5' | 'h1' | 'h6') => {
+    const txns = pair.txns?.[window];
+    return { buys: txns?.buys || 0, total: (txns?.buys || 0) + (txns?.sells || 0) };
+  };
+  const m5 = count('m5');
+  const h1 = count('h1');
+  const h6 = count('h6');
+
+  if (m5.total >= minTxns) {
+    const txnPace = getPace(m5.total, h1.total, 12);
+    if (txnPace >= MIN_RATIO) {
+      add(
+        'txn_burst',
+        getRatioStrength(txnPace),
+        `${m5.total} txns in 5m, ${formatRatio(txnPace)} the 1h rate`
+      );
+    }
+
+    if (h6.total > m5.total) {
+      const recentShare = m5.buys / m5.total;
+      const baselineShare = h6.buys / h6.total;
+      const shift = recentShare - baselineShare;
+      if (Math.abs(shift) >= MIN_SHIFT) {
+        add(
+          'buy_sell_shift',
+          Math.min(1, Math.abs(shift) / 0.5),
+          `buys ${Math.round(recentShare * 100)}% of 5m txns, ` +
+            `${shift > 0 ? 'up' : 'down'} from ${Math.round(baselineShare * 100)}% over 6h`
+        );
+      }
+    }
+  }
+
+  const change = pair.priceChange?.m5;
+  if (typeof change === 'number') {
+    if (shortStrength > 0 && shortPace >= 3 && Math.abs(change) < 1) {
+      add(
+        'price_volume_divergence',
+        shortStrength * (1 - Math.abs(change)),
+        `volume spiking with a flat price (${formatPercent(change)} in 5m)`
+      );
+    } else if (Math.abs(change) >= 5 && shortPace < 1 && (volume.h1 || 0) >= minVolume) {
+      add(
+        'price_volume_divergence',
+        Math.min(1, Math.abs(change) / 20),
+        `price ${formatPercent(change)} in 5m on below-average volume`
+      );
+    }
+  }
+
+  const score = Math.round(
+    Math.min(100, signals.reduce((total, signal) => total + signal.points, 0))
+  );
+  return { pair, score, signals };
+}
+
+/**
+ * Score pairs and keep those at or above the minimum score, most anomalous
+ * first. Pure, so any background monitor can run it on pairs it already has.
+ */
+export function detectAnomalies(
+  pairs: DexScreenerPair[],
+  options: DexScreenerAnomalyOptions = {}
+): DexScreenerAnomaly[] {
+  const { minScore = 25, minLiquidity = 5000 } = options;
+  return pairs
+    .filter((pair) => (pair.liquidity?.usd || 0) >= minLiquidity)
+    .map((pair) => scorePairAnomaly(pair, options))
+    .filter((anomaly) => anomaly.score >= minScore && anomaly.signals.length > 0)
+    .sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,154 @@
+import { DexScreenerService } from './service';
+import {
+  DexScreenerArbitrageOpportunity,
+  DexScreenerArbitrageOptions,
+  DexScreenerArbitrageToken,
+  DexScreenerError,
+  DexScreenerPair,
+  DexScreenerRequestOptions,
+  DexScreenerServiceResponse,
+} from './types';
+import { getTokenPriceInPair } from './aggregation';
+import { createError } from './errors';
+
+// Only the most liquid pairs of a token are compared, keeping the pairwise scan small
+const MAX_PAIRS_PER_TOKEN = 25;
+
+/**
+ * Parse a configured token list such as "solana:So111...,0x6982..." into
+ * scan targets. Entries without a "chain:" prefix are scanned on every chain.
+ */
+export function parseArbitrageTokenList(value: string | undefined): DexScreenerArbitrageToken[] {
+  return (value || '')
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(':');
+      return separator > 0
+        ? { chainId: entry.slice(0, separator).toLowerCase(), tokenAddress: entry.slice(separator + 1) }
+        : { tokenAddress: entry };
+    });
+}
+
+/**
+ * Find price spreads for one token between its pairs on different DEXes or
+ * chains. Buying on the cheaper pair and selling on the dearer one costs
+ * `feePercent` on each trade, so the net spread subtracts it twice.
+ * Opportunities are ranked by net spread, then by the liquidity of the
+ * thinner pair.
+ */
+export function findArbitrageOpportunities(
+  pairs: DexScreenerPair[],
+  tokenAddress: string,
+  options: DexScreenerArbitrageOptions = {}
+): DexScreenerArbitrageOpportunity[] {
+  const feePercent = options.feePercent ?? 0.3;
+  const minLiquidity = options.minLiquidity ?? 10_000;
+  const minNetSpread = options.minNetSpread ?? 0;
+
+  const priced = pairs
+    .flatMap((pair) => {
+      const price = getTokenPriceInPair(pair, tokenAddress);
+      const liquidity = pair.liquidity?.usd || 0;
+      return price !== undefined && liquidity >= minLiquidity ? [{ pair, price, liquidity }] : [];
+    })
+    .sort((a, b) => b.liquidity - a.liquidity)
+    .slice(0, MAX_PAIRS_PER_TOKEN);
+
+  const address = tokenAddress.toLowerCase();
+  const opportunities: DexScreenerArbitrageOpportunity[] = [];
+  for (let i = 0; i < priced.length; i++) {
+    for (let j = i + 1; j < priced.length; j++) {
+      const [buy, sell] =
+        priced[i].price <= priced[j].price ? [priced[i], priced[j]] : [priced[j], priced[i]];
+      // Two pools on the same DEX and chain aren't a venue difference worth reporting
+      if (buy.pair.dexId === sell.pair.dexId && buy.pair.chainId === sell.pair.chainId) {
+        continue;
+      }
+
+      const grossSpread = ((sell.price - buy.price) / buy.price) * 100;
+      const netSpread = grossSpread - 2 * feePercent;
+      if (netSpread <= minNetSpread) {
+        continue;
+      }
+
+      const token =
+        buy.pair.baseToken.address?.toLowerCase() === address
+          ? buy.pair.baseToken
+          : buy.pair.quoteToken;
+      opportunities.push({
+        tokenAddress,
+        symbol: token.symbol,
+        buy: { pair: buy.pair, price: buy.price },
+        sell: { pair: sell.pair, price: sell.price },
+        grossSpread,
+        netSpread,
+        minLiquidity: Math.min(buy.liquidity, sell.liquidity),
+        crossChain: buy.pair.chainId !== sell.pair.chainId,
+      });
+    }
+  }
+
+  return opportunities.sort(
+    (a, b) => b.netSpread - a.netSpread || b.minLiquidity - a.minLiquidity
+  );
+}
+
+/**
+ * Scan a list of tokens for arbitrage opportunities, for on-demand use or a
+ * periodic job. Tokens pinned to a chain are fetched with one batched
+ * getMultipleTokens call per chain; the others with getTokenPairs across all
+ * chains. Tokens whose lookup failed are skipped; the scan only fails when
+ * every lookup failed.
+ */
+export async function scanArbitrage(
+  service: DexScreenerService,
+  tokens: DexScreenerArbitrageToken[],
+  options: DexScreenerArbitrageOptions = {},
+  requestOptions: DexScreenerRequestOptions = {}
+): Promise<DexScreenerServiceResponse<DexScreenerArbitrageOpportunity[]>> {
+  const byChain = new Map<string, string[]>();
+  const unscoped: string[] = [];
+  for (const token of tokens) {
+    if (token.chainId) {
+      byChain.set(token.chainId, [...(byChain.get(token.chainId) || []), token.tokenAddress]);
+    } else {
+      unscoped.push(token.tokenAddress);
+    }
+  }
+
+  const errors: DexScreenerError[] = [];
+  const scans: Array<{ tokenAddress: string; pairs: DexScreenerPair[] }> = [];
+  const fail = (label: string, error?: DexScreenerError) => {
+    console.warn(`DexScreener arbitrage lookup failed for ${label}:`, error);
+    errors.push(error || createError('UNKNOWN', `Failed to look up ${label}`));
+  };
+
+  await Promise.all([
+    ...[...byChain].map(async ([chainId, addresses]) => {
+      const result = await service.getMultipleTokens(chainId, addresses, requestOptions);
+      if (!result.success || !result.data) {
+        return fail(`${chainId} tokens`, result.error);
+      }
+      for (const tokenAddress of addresses) {
+        scans.push({ tokenAddress, pairs: result.data });
+      }
+    }),
+    ...unscoped.map(async (tokenAddress) => {
+      const result = await service.getTokenPairs({ tokenAddress }, requestOptions);
+      if (!result.success || !result.data) {
+        return fail(tokenAddress, result.error);
+      }
+      scans.push({ tokenAddress, pairs: result.data });
+    }),
+  ]);
+
+  if (tokens.length > 0 && scans.length === 0) {
+    return { success: false, error: errors[0] };
+  }
+
+  const opportunities = scans
+    .flatMap(({ tokenAddress, pairs }) => findArbitrageOpportunities(pairs, tokenAddress, options))
+    .sort((a, b) => b.netSpread - a.netSpread || b.minLiquidity - a.minLiquidity);
+  return { success: true, data: opportunities };
+}
@@ -0,0 +1,77 @@
+import { DexScreenerEndpointFamily } from './types';
+
+export interface CacheEntry<T> {
+  value: T;
+  family: DexScreenerEndpointFamily;
+  storedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * In-memory TTL cache with least-recently-used eviction.
+ * Map insertion order doubles as the recency list.
+ */
+export class ResponseCache<T = any> {
+  private entries = new Map<string, CacheEntry<T>>();
+
+  constructor(private maxEntries: number) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Get a fresh entry, dropping it if it has expired
+   */
+  get(key: string): CacheEntry<T> | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Move to the most recently used position
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  set(key: string, value: T, family: DexScreenerEndpointFamily, ttl: number): void {
+    if (ttl <= 0 || this.maxEntries <= 0) {
+      return;
+    }
+
+    const now = Date.now();
+    this.entries.delete(key);
+    this.entries.set(key, { value, family, storedAt: now, expiresAt: now + ttl });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  delete(key: string): boolean {
+    return this.entries.delete(key);
+  }
+
+  /**
+   * Remove all entries, or only those of one endpoint family
+   */
+  clear(family?: DexScreenerEndpointFamily): void {
+    if (!family) {
+      this.entries.clear();
+      return;
+    }
+
+    for (const [key, entry] of this.entries) {
+      if (entry.family === family) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
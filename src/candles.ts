@@ -0,0 +1,176 @@
+import {
+  DexScreenerCandle,
+  DexScreenerCandleOptions,
+  DexScreenerCandleResolution,
+  DexScreenerOhlcvRow,
+  DexScreenerPairSnapshot,
+  DexScreenerWindow,
+} from './types';
+
+const MINUTE = 60 * 1000;
+
+/** Length of each candle resolution, in milliseconds */
+export const CANDLE_RESOLUTIONS: Record<DexScreenerCandleResolution, number> = {
+  '1m': MINUTE,
+  '5m': 5 * MINUTE,
+  '15m': 15 * MINUTE,
+  '1h': 60 * MINUTE,
+  '1d': 24 * 60 * MINUTE,
+};
+
+const RESOLUTION_NAMES: Array<[RegExp, DexScreenerCandleResolution]> = [
+  [/\b(?:1m|1[- ]?min(?:ute)?)\b/i, '1m'],
+  [/\b(?:5m|5[- ]?min(?:ute)?s?)\b/i, '5m'],
+  [/\b(?:15m|15[- ]?min(?:ute)?s?)\b/i, '15m'],
+  [/\b(?:1h|1[- ]?hour|hourly)\b/i, '1h'],
+  [/\b(?:1d|1[- ]?day|daily)\b/i, '1d'],
+];
+
+// Rolling volume windows, shortest first
+const VOLUME_WINDOWS: Array<[DexScreenerWindow, number]> = [
+  ['m5', 5 * MINUTE],
+  ['h1', 60 * MINUTE],
+  ['h6', 6 * 60 * MINUTE],
+  ['h24', 24 * 60 * MINUTE],
+];
+
+function getPrice(snapshot: DexScreenerPairSnapshot, price: 'usd' | 'native'): number | undefined {
+  const value = price === 'usd' ? snapshot.priceUsd : snapshot.priceNative;
+  return typeof value === 'number' && value > 0 ? value : undefined;
+}
+
+/**
+ * Find the candle resolution named in a message, e.g. "on 15m" or "hourly"
+ */
+export function parseCandleResolution(text: string): DexScreenerCandleResolution | undefined {
+  return RESOLUTION_NAMES.find(([pattern]) => pattern.test(text))?.[1];
+}
+
+/**
+ * Estimate the volume traded between two snapshots from the later one's
+ * shortest rolling window that covers the interval, assuming a constant
+ * rate within that window. Undefined past 24 hours.
+ */
+export function estimateIntervalVolume(
+  previous: DexScreenerPairSnapshot,
+  snapshot: DexScreenerPairSnapshot
+): number | undefined {
+  const elapsed = snapshot.timestamp - previous.timestamp;
+  const window = VOLUME_WINDOWS.find(([, length]) => length >= elapsed);
+  if (elapsed <= 0 || !window) {
+    return undefined;
+  }
+  const [key, length] = window;
+  return ((snapshot.volume?.[key] || 0) / length) * elapsed;
+}
+
+/**
+ * Build OHLCV candles from pair snapshots.
+ *
+ * Prices are the snapshot prices within each interval. Volume comes from the
+ * rolling windows: the volume estimated between consecutive snapshots is
+ * spread over the intervals they span. Intervals between the first and last
+ * snapshot with no snapshot of their own are gap candles, flat at the
+ * previous close, unless fillGaps is false.
+ */
+export function buildCandles(
+  snapshots: DexScreenerPairSnapshot[],
+  resolution: DexScreenerCandleResolution,
+  options: DexScreenerCandleOptions = {}
+): DexScreenerCandle[] {
+  const interval = CANDLE_RESOLUTIONS[resolution];
+  const price = options.price || 'usd';
+  const sorted = [...snapshots].sort((a, b) => a.timestamp - b.timestamp);
+  const bucketOf = (timestamp: number) => Math.floor(timestamp / interval) * interval;
+
+  const candles = new Map<number, DexScreenerCandle>();
+  for (const snapshot of sorted) {
+    const value = getPrice(snapshot, price);
+    if (value === undefined) {
+      continue;
+    }
+    const time = bucketOf(snapshot.timestamp);
+    const candle = candles.get(time);
+    if (candle) {
+      candle.high = Math.max(candle.high, value);
+      candle.low = Math.min(candle.low, value);
+      candle.close = value;
+      candle.samples++;
+    } else {
+      candles.set(time, {
+        time,
+        open: value,
+        high: value,
+        low: value,
+        close: value,
+        volume: 0,
+        samples: 1,
+        gap: false,
+      });
+    }
+  }
+
+  if (candles.size === 0) {
+    return [];
+  }
+
+  const volumes = new Map<number, number>();
+  for (let i = 1; i < sorted.length; i++) {
+    const previous = sorted[i - 1];
+    const snapshot = sorted[i];
+    const volume = estimateIntervalVolume(previous, snapshot);
+    if (!volume) {
+      continue;
+    }
+    const elapsed = snapshot.timestamp - previous.timestamp;
+    for (let time = bucketOf(previous.timestamp); time < snapshot.timestamp; time += interval) {
+      const overlap =
+        Math.min(time + interval, snapshot.timestamp) - Math.max(time, previous.timestamp);
+      if (overlap > 0) {
+        volumes.set(time, (volumes.get(time) || 0) + (volume * overlap) / elapsed);
+      }
+    }
+  }
+
+  // Snapshots were sorted, so candles were added in time order
+  const times = [...candles.keys()];
+  const first = times[0];
+  const last = times[times.length - 1];
+  const result: DexScreenerCandle[] = [];
+  let close = candles.get(first)!.open;
+
+  for (let time = first; time <= last; time += interval) {
+    const candle = candles.get(time) || {
+      time,
+      open: close,
+      high: close,
+      low: close,
+      close,
+      volume: 0,
+      samples: 0,
+      gap: true,
+    };
+    candle.volume = volumes.get(time) || 0;
+    close = candle.close;
+    if (!candle.gap || options.fillGaps !== false) {
+      result.push(candle);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Export candles as [time, open, high, low, close, volume] rows, the layout
+ * most charting libraries and exchange APIs use. Times are in milliseconds.
+ */
+export function toOhlcvRows(candles: DexScreenerCandle[]): DexScreenerOhlcvRow[] {
+  return candles.map((candle) => [
+    candle.time,
+    candle.open,
+    candle.high,
+    candle.low,
+    candle.close,
+    candle.volume,
+  ]);
+}
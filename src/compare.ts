@@ -0,0 +1,138 @@
+import { DexScreenerService } from './service';
+import { DexScreenerPair, DexScreenerTokenReference } from './types';
+import { extractTokenMentions, getMentionReferences } from './mentions';
+import { getReferenceKey } from './resolve';
+
+export const MIN_COMPARE_TOKENS = 2;
+export const MAX_COMPARE_TOKENS = 5;
+
+type Formatters = Pick<DexScreenerService, 'formatPrice' | 'formatPriceChange' | 'formatUsdValue'>;
+
+// Words that can appear in the token list of a comparison without naming a token
+const FILLER_WORDS = new Set([
+  'the',
+  'tokens',
+  'token',
+  'coins',
+  'price',
+  'prices',
+  'of',
+  'me',
+  'please',
+]);
+
+/**
+ * Find the tokens to compare: addresses, $cashtags and DexScreener links
+ * anywhere in the text, plus bare symbols in "compare PEPE vs WIF and BONK"
+ */
+export function parseComparisonTargets(text: string): DexScreenerTokenReference[] {
+  const references = getMentionReferences(extractTokenMentions(text), text);
+
+  const listMatch = text.match(/\bcompare\s+(.+)$/i) || text.match(/^(.+\b(?:vs\.?|versus)\b.+)$/i);
+  if (listMatch) {
+    for (const part of listMatch[1].split(/\s*(?:\bvs\.?|\bversus\b|\band\b|\bwith\b|\bto\b|,|&)\s*/i)) {
+      // "WIF on solana" still names WIF; the words around a symbol are dropped
+      const words = part
+        .trim()
+        .replace(/[?!.]+$/, '')
+        .replace(/\s+(?:on|in)\s+\S+(?:\s+(?:chain|network))?$/i, '')
+        .split(/\s+/)
+        .filter((word) => word && !FILLER_WORDS.has(word.toLowerCase()));
+      const symbol = words.length === 1 && words[0].match(/^\$?([A-Za-z][A-Za-z0-9]{1,14})$/);
+      if (symbol) {
+        references.push({ type: 'symbol', symbol: symbol[1].toUpperCase() });
+      }
+    }
+  }
+
+  const unique = new Map<string, DexScreenerTokenReference>();
+  for (const reference of references) {
+    const key = getReferenceKey(reference);
+    if (!unique.has(key)) {
+      unique.set(key, reference);
+    }
+  }
+  return [...unique.values()];
+}
+
+/**
+ * Format a pair's age, e.g. "45m", "6h" or "120d"
+ */
+export function formatAge(createdAt: number | undefined, now = Date.now()): string {
+  if (!createdAt) {
+    return 'N/A';
+  }
+  const minutes = Math.max(0, Math.floor((now - createdAt) / 60000));
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h`;
+  return `${Math.floor(minutes / (24 * 60))}d`;
+}
+
+function formatRatio(value: number | undefined, base: number | undefined): string {
+  if (!value || !base) {
+    return 'N/A';
+  }
+  const ratio = value / base;
+  return `${ratio >= 10 ? ratio.toFixed(0) : ratio.toFixed(2)}x`;
+}
+
+/**
+ * Render a side-by-side comparison table of pairs (one column per token).
+ * The leading value in each numeric row is bolded.
+ */
+export function formatComparisonTable(
+  pairs: DexScreenerPair[],
+  formatters: Formatters,
+  now = Date.now()
+): string {
+  const row = (
+    label: string,
+    values: Array<number | undefined>,
+    format: (value: number) => string
+  ) => {
+    const defined = values.filter((value): value is number => typeof value === 'number');
+    const best = defined.length > 1 ? Math.max(...defined) : undefined;
+    const cells = values.map((value) =>
+      typeof value !== 'number' ? 'N/A' : value === best ? `**${format(value)}**` : format(value)
+    );
+    return `| ${label} | ${cells.join(' | ')} |`;
+  };
+
+  const usd = (value: number) => formatters.formatUsdValue(value);
+  const change = (value: number) => formatters.formatPriceChange(value);
+
+  const lines = [
+    `| | ${pairs.map((pair) => `${pair.baseToken.symbol} (${pair.chainId})`).join(' | ')} |`,
+    `|---|${pairs.map(() => '---').join('|')}|`,
+    `| Price | ${pairs.map((pair) => formatters.formatPrice(pair.priceUsd || pair.priceNative)).join(' | ')} |`,
+    row('5m', pairs.map((pair) => pair.priceChange?.m5), change),
+    row('1h', pairs.map((pair) => pair.priceChange?.h1), change),
+    row('6h', pairs.map((pair) => pair.priceChange?.h6), change),
+    row('24h', pairs.map((pair) => pair.priceChange?.h24), change),
+    row('24h Volume', pairs.map((pair) => pair.volume?.h24), usd),
+    row('Liquidity', pairs.map((pair) => pair.liquidity?.usd), usd),
+    row('Market Cap', pairs.map((pair) => pair.marketCap), usd),
+    row('FDV', pairs.map((pair) => pair.fdv), usd),
+    `| Age | ${pairs.map((pair) => formatAge(pair.pairCreatedAt, now)).join(' | ')} |`,
+    `| 24h Txns (buys/sells) | ${pairs
+      .map((pair) => (pair.txns?.h24 ? `${pair.txns.h24.buys}/${pair.txns.h24.sells}` : 'N/A'))
+      .join(' | ')} |`,
+  ];
+  return lines.join('\n');
+}
+
+/**
+ * Ratios of each token's volume, liquidity and market cap to the first token's
+ */
+export function formatComparisonRatios(pairs: DexScreenerPair[]): string {
+  const [base, ...others] = pairs;
+  return others
+    .map(
+      (pair) =>
+        `• **${pair.baseToken.symbol} vs ${base.baseToken.symbol}:** ` +
+        `volume ${formatRatio(pair.volume?.h24, base.volume?.h24)}, ` +
+        `liquidity ${formatRatio(pair.liquidity?.usd, base.liquidity?.usd)}, ` +
+        `market cap ${formatRatio(pair.marketCap, base.marketCap)}`
+    )
+    .join('\n');
+}
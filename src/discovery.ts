@@ -0,0 +1,151 @@
+import { DexScreenerChainParams, DexScreenerNewPairsParams, DexScreenerPair } from './types';
+
+export const DEFAULT_NEW_PAIR_MAX_AGE = 24 * 60 * 60 * 1000;
+
+/** DexScreener IDs of the DEXes recognised in messages */
+export const KNOWN_DEX_IDS = [
+  'uniswap',
+  'sushiswap',
+  'pancakeswap',
+  'raydium',
+  'orca',
+  'meteora',
+  'pumpswap',
+  'aerodrome',
+  'velodrome',
+  'camelot',
+  'traderjoe',
+  'quickswap',
+  'balancer',
+  'curve',
+];
+
+// Native and stable quote tokens, and major DEXes, searched to find a chain's top pairs
+const CHAIN_SEEDS: Record<string, { quotes: string[]; dexes: string[] }> = {
+  ethereum: { quotes: ['WETH', 'USDC', 'USDT'], dexes: ['uniswap', 'sushiswap'] },
+  bsc: { quotes: ['WBNB', 'USDT', 'BUSD'], dexes: ['pancakeswap'] },
+  polygon: { quotes: ['WMATIC', 'WPOL', 'USDC'], dexes: ['quickswap', 'uniswap'] },
+  arbitrum: { quotes: ['WETH', 'USDC', 'ARB'], dexes: ['uniswap', 'camelot'] },
+  optimism: { quotes: ['WETH', 'USDC', 'OP'], dexes: ['velodrome', 'uniswap'] },
+  base: { quotes: ['WETH', 'USDC'], dexes: ['aerodrome', 'uniswap'] },
+  solana: { quotes: ['SOL', 'USDC'], dexes: ['raydium', 'orca', 'meteora'] },
+  avalanche: { quotes: ['WAVAX', 'USDC'], dexes: ['traderjoe'] },
+  sui: { quotes: ['SUI', 'USDC'], dexes: ['cetus'] },
+  ton: { quotes: ['TON', 'USDT'], dexes: ['stonfi', 'dedust'] },
+  tron: { quotes: ['TRX', 'USDT'], dexes: ['sunswap'] },
+};
+
+/**
+ * Search queries for discovering a chain's top pairs: its native and stable
+ * quote tokens, its major DEX IDs and the chain name itself
+ */
+export function getChainSeedQueries(chainId: string): string[] {
+  const seeds = CHAIN_SEEDS[chainId.toLowerCase()];
+  return seeds ? [...seeds.quotes, ...seeds.dexes, chainId] : [chainId];
+}
+
+const DURATION_UNITS: Record<string, number> = { m: 60_000, h: 3_600_000, d: 86_400_000 };
+
+/**
+ * Parse a maximum age such as "last 30 minutes", "under 2h" or "past 3 days", in milliseconds
+ */
+export function parseMaxAge(text: string): number | undefined {
+  const match = text.match(
+    /\b(?:last|past|under|within|younger than|less than)\s+(\d+)\s*(m|mins?|minutes?|h|hrs?|hours?|d|days?)\b/i
+  );
+  return match ? parseInt(match[1]) * DURATION_UNITS[match[2][0].toLowerCase()] : undefined;
+}
+
+/**
+ * Parse a minimum USD amount following a word, e.g. "liquidity over $50k"
+ */
+export function parseMinimumUsd(text: string, words: string): number | undefined {
+  const match = text.match(
+    new RegExp(
+      `\\b(?:${words})\\s*(?:over|above|of at least|at least|>=?)?\\s*\\$?(\\d+(?:\\.\\d+)?)\\s*([km])?\\b`,
+      'i'
+    )
+  );
+  if (!match) {
+    return undefined;
+  }
+  const multiplier = { k: 1e3, m: 1e6 }[match[2]?.toLowerCase() as 'k' | 'm'] || 1;
+  return parseFloat(match[1]) * multiplier;
+}
+
+/**
+ * Key identifying a pool across feeds
+ */
+export function getPairKey(pair: DexScreenerPair): string {
+  return `${pair.chainId}:${pair.pairAddress?.toLowerCase()}`;
+}
+
+/**
+ * Keep pools created within `maxAge` that pass the chain, DEX, liquidity and
+ * volume filters, newest first and without duplicates. Pools without a
+ * creation time are dropped, since their age can't be known.
+ */
+export function filterNewPairs(
+  pairs: DexScreenerPair[],
+  params: DexScreenerNewPairsParams = {},
+  now = Date.now()
+): DexScreenerPair[] {
+  const maxAge = params.maxAge ?? DEFAULT_NEW_PAIR_MAX_AGE;
+  const chain = params.chain?.toLowerCase();
+  const dex = params.dex?.toLowerCase();
+
+  const unique = new Map<string, DexScreenerPair>();
+  for (const pair of pairs) {
+    if (
+      !pair.pairAddress ||
+      !pair.pairCreatedAt ||
+      now - pair.pairCreatedAt > maxAge ||
+      (chain && pair.chainId.toLowerCase() !== chain) ||
+      (dex && pair.dexId?.toLowerCase() !== dex) ||
+      (pair.liquidity?.usd || 0) < (params.minLiquidity ?? 0) ||
+      (pair.volume?.h24 || 0) < (params.minVolume ?? 0)
+    ) {
+      continue;
+    }
+    unique.set(getPairKey(pair), pair);
+  }
+
+  return [...unique.values()].sort((a, b) => b.pairCreatedAt! - a.pairCreatedAt!);
+}
+
+/**
+ * Keep a chain's pairs that pass the liquidity and volume minimums, without
+ * duplicates, sorted by `sortBy` (highest first)
+ */
+export function rankChainPairs(
+  pairs: DexScreenerPair[],
+  params: DexScreenerChainParams
+): DexScreenerPair[] {
+  const chain = params.chain.toLowerCase();
+  const unique = new Map<string, DexScreenerPair>();
+  for (const pair of pairs) {
+    if (
+      !pair.pairAddress ||
+      pair.chainId.toLowerCase() !== chain ||
+      (pair.liquidity?.usd || 0) < (params.minLiquidity ?? 0) ||
+      (pair.volume?.h24 || 0) < (params.minVolume ?? 0)
+    ) {
+      continue;
+    }
+    unique.set(getPairKey(pair), pair);
+  }
+
+  const value = (pair: DexScreenerPair): number => {
+    switch (params.sortBy || 'volume') {
+      case 'liquidity':
+        return pair.liquidity?.usd || 0;
+      case 'priceChange':
+        return pair.priceChange?.h24 || 0;
+      case 'txns':
+        return (pair.txns?.h24?.buys || 0) + (pair.txns?.h24?.sells || 0);
+      default:
+        return pair.volume?.h24 || 0;
+    }
+  };
+  return [...unique.values()].sort((a, b) => value(b) - value(a));
+}
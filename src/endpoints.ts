@@ -0,0 +1,51 @@
+import { DexScreenerEndpointFamily, DexScreenerRateLimitGroup } from './types';
+
+// DexScreener accepts up to 30 comma-separated addresses per request
+export const MAX_ADDRESSES_PER_REQUEST = 30;
+
+/**
+ * Split an address list into request-sized batches, dropping duplicates
+ */
+export function chunkAddresses(addresses: string[], size = MAX_ADDRESSES_PER_REQUEST): string[][] {
+  const unique = [...new Set(addresses)];
+  const chunks: string[][] = [];
+  for (let i = 0; i < unique.length; i += size) {
+    chunks.push(unique.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Resolve which endpoint family a request path belongs to.
+ * Families share caching (and quota) characteristics on the DexScreener API.
+ */
+export function getEndpointFamily(path: string): DexScreenerEndpointFamily {
+  if (path.startsWith('/token-profiles')) return 'profiles';
+  if (path.startsWith('/token-boosts')) return 'boosts';
+  if (path.startsWith('/orders')) return 'orders';
+  // /latest/dex/*, /tokens/v1 and /token-pairs/v1 all return pair data
+  return 'pairs';
+}
+
+/**
+ * Resolve which quota a request path counts against.
+ * Pair, token and search routes allow ~300 requests/min; profile, boost
+ * and order routes allow ~60 requests/min.
+ */
+export function getRateLimitGroup(path: string): DexScreenerRateLimitGroup {
+  return getEndpointFamily(path) === 'pairs' ? 'pairs' : 'profiles';
+}
+
+/**
+ * Build a stable key for a request path and its query params
+ */
+export function getRequestKey(path: string, params?: Record<string, any>): string {
+  if (!params || Object.keys(params).length === 0) {
+    return path;
+  }
+  const query = Object.keys(params)
+    .sort()
+    .map((key) => `${key}=${encodeURIComponent(String(params[key]))}`)
+    .join('&');
+  return `${path}?${query}`;
+}
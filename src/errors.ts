@@ -0,0 +1,83 @@
+import { DexScreenerError, DexScreenerErrorCode } from './types';
+import { isRetryableError } from './retry';
+
+const TIMEOUT_ERROR_CODES = new Set(['ECONNABORTED', 'ETIMEDOUT']);
+
+const RETRYABLE_CODES = new Set<DexScreenerErrorCode>([
+  'RATE_LIMITED',
+  'TIMEOUT',
+  'NETWORK_ERROR',
+  'UPSTREAM_5XX',
+]);
+
+/**
+ * Error thrown by the request pipeline once an upstream call has failed for good.
+ * Carries the classified error and how many attempts were made.
+ */
+export class DexScreenerApiError extends Error {
+  readonly error: DexScreenerError;
+  readonly attempts: number;
+
+  constructor(error: DexScreenerError, attempts = 0) {
+    super(error.message);
+    this.name = 'DexScreenerApiError';
+    this.error = error;
+    this.attempts = attempts;
+  }
+}
+
+/**
+ * Build a structured error
+ */
+export function createError(
+  code: DexScreenerErrorCode,
+  message: string,
+  details: { status?: number; endpoint?: string; retryable?: boolean } = {}
+): DexScreenerError {
+  return {
+    code,
+    message,
+    status: details.status,
+    endpoint: details.endpoint,
+    retryable: details.retryable ?? RETRYABLE_CODES.has(code),
+  };
+}
+
+/**
+ * Classify an error thrown by axios (or while reading its response) into a structured error
+ */
+export function classifyError(
+  error: any,
+  fallbackMessage = 'Request failed',
+  endpoint?: string
+): DexScreenerError {
+  if (error instanceof DexScreenerApiError) {
+    return error.error;
+  }
+
+  const status: number | undefined = error?.response?.status;
+  const message: string = error?.response?.data?.message || error?.message || fallbackMessage;
+  const retryable = isRetryableError(error);
+
+  let code: DexScreenerErrorCode;
+  if (status === 404) {
+    code = 'NOT_FOUND';
+  } else if (status === 429) {
+    code = 'RATE_LIMITED';
+  } else if (status !== undefined && status >= 500) {
+    code = 'UPSTREAM_5XX';
+  } else if (status !== undefined && status >= 400) {
+    code = 'INVALID_INPUT';
+  } else if (TIMEOUT_ERROR_CODES.has(error?.code)) {
+    code = 'TIMEOUT';
+  } else if (error?.isAxiosError || retryable) {
+    code = 'NETWORK_ERROR';
+  } else if (error instanceof TypeError || error instanceof SyntaxError) {
+    // Reading a payload that doesn't have the shape we expect
+    code = 'MALFORMED_RESPONSE';
+  } else {
+    code = 'UNKNOWN';
+  }
+
+  return { code, message, status, endpoint, retryable };
+}
@@ -0,0 +1,87 @@
+import { Evaluator, IAgentRuntime, Memory } from '@elizaos/core';
+import { DexScreenerService } from './service';
+import { extractTokenMentions, getMentionReferences } from './mentions';
+import { getReferenceKey, resolveTokenReferences } from './resolve';
+import { recordRecentTokens } from './recent-tokens';
+
+// Cap on lookups per message, so a pasted list of addresses can't flood the API
+const MAX_MENTIONS_PER_MESSAGE = 10;
+
+function hasMentions(text: string): boolean {
+  const mentions = extractTokenMentions(text);
+  return mentions.addresses.length + mentions.symbols.length + mentions.pairs.length > 0;
+}
+
+/**
+ * Token mention evaluator: records tokens mentioned by address, $cashtag or
+ * DexScreener URL as "recently discussed" in the room, with the price they
+ * were first seen at
+ */
+export const tokenMentionEvaluator: Evaluator = {
+  name: 'DEXSCREENER_TOKEN_MENTIONS',
+  description:
+    'Records tokens mentioned by address, cashtag or DexScreener URL as recently discussed tokens',
+  similes: ['track mentioned tokens', 'remember discussed tokens'],
+  alwaysRun: true,
+
+  validate: async (runtime: IAgentRuntime, message: Memory) => {
+    const content = typeof message.content === 'string' ? message.content : message.content?.text;
+    return !!content && hasMentions(content);
+  },
+
+  handler: async (runtime: IAgentRuntime, message: Memory) => {
+    const service = runtime.getService('dexscreener') as DexScreenerService | null;
+    const content = typeof message.content === 'string' ? message.content : message.content?.text;
+    if (!service || !content) {
+      return;
+    }
+
+    try {
+      const references = getMentionReferences(extractTokenMentions(content), content).slice(
+        0,
+        MAX_MENTIONS_PER_MESSAGE
+      );
+      const pairs = await resolveTokenReferences(service, references, { priority: 'low' });
+
+      const resolved = references.flatMap((reference) => {
+        const pair = pairs.get(getReferenceKey(reference));
+        return pair ? [{ pair, viaPair: reference.type === 'pair' }] : [];
+      });
+      if (resolved.length === 0) {
+        return;
+      }
+
+      return await recordRecentTokens(runtime, message.roomId, resolved);
+    } catch (error) {
+      console.error('DexScreener token mention evaluator error:', error);
+    }
+  },
+
+  examples: [
+    {
+      prompt: 'A user pastes a token address',
+      messages: [
+        {
+          name: 'User',
+          content: { text: 'What do you think of 0x6982508145454Ce325dDbE47a25d4ec3d2311933?' },
+        },
+      ],
+      outcome: 'PEPE on ethereum is recorded as a recently discussed token with its current price',
+    },
+    {
+      prompt: 'A user shares a DexScreener link and a cashtag',
+      messages: [
+        {
+          name: 'User',
+          content: {
+            text: '$WIF is moving, see https://dexscreener.com/solana/ep2ib6dydeeqd8mfe2ezhcxx3kp3k2elkkirfpm5eymx',
+          },
+        },
+      ],
+      outcome: 'WIF on solana is recorded as a recently discussed token',
+    },
+  ],
+};
+
+// Export all evaluators
+export const dexscreenerEvaluators = [tokenMentionEvaluator];
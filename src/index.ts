@@ -1,14 +1,18 @@
 import type { Plugin, IAgentRuntime } from '@elizaos/core';
 import { DexScreenerService } from './service';
+import { DexScreenerAlertService } from './alert-service';
+import { DexScreenerSnapshotService } from './snapshot-service';
 import { dexscreenerActions } from './actions';
+import { dexscreenerProviders } from './providers';
+import { dexscreenerEvaluators } from './evaluators';
 
 export const dexscreenerPlugin: Plugin = {
   name: 'dexscreener-analytics-plugin',
   description: 'Plugin for DexScreener DEX analytics and token information',
   actions: dexscreenerActions,
-  evaluators: [],
-  providers: [],
-  services: [DexScreenerService],
+  evaluators: dexscreenerEvaluators,
+  providers: dexscreenerProviders,
+  services: [DexScreenerService, DexScreenerAlertService, DexScreenerSnapshotService],
   init: async (_, runtime: IAgentRuntime) => {
     console.log('DexScreener plugin initialized');
   },
@@ -18,4 +22,47 @@ export default dexscreenerPlugin;
 
 export * from './types';
 export { DexScreenerService } from './service';
+export { DexScreenerAlertService } from './alert-service';
+export { DexScreenerSnapshotService, parseSnapshotPairList } from './snapshot-service';
+export {
+  DEFAULT_SNAPSHOT_POLICY,
+  DexScreenerSnapshotStore,
+  createSnapshot,
+  downsampleSnapshots,
+} from './snapshots';
+export {
+  CANDLE_RESOLUTIONS,
+  buildCandles,
+  estimateIntervalVolume,
+  parseCandleResolution,
+  toOhlcvRows,
+} from './candles';
+export {
+  DEFAULT_INDICATOR_PERIODS,
+  INDICATOR_NAMES,
+  calculateAtr,
+  calculateBollingerBands,
+  calculateEma,
+  calculateIndicators,
+  calculateRsi,
+  calculateSma,
+  calculateVwap,
+  findPriceLevels,
+  formatIndicatorReport,
+  parseIndicatorRequests,
+} from './indicators';
+export { detectAnomalies, scorePairAnomaly } from './anomalies';
+export { parseAlertRequest, evaluateAlert } from './alerts';
+export type { DexScreenerAlertRequest } from './alerts';
+export { getWatchlist, getRoomWatchlist, getWatchlistRows } from './watchlist';
+export { detectAddress, detectAddresses, classifyAddress, inferChainId } from './address';
+export { extractTokenMentions } from './mentions';
+export { getRecentTokens, getLastDiscussedToken } from './recent-tokens';
+export { aggregateTokenPrice, getTokenPriceInPair } from './aggregation';
+export { findArbitrageOpportunities, parseArbitrageTokenList, scanArbitrage } from './arbitrage';
+export { getWindowMetrics, rankTrendingPairs } from './trending';
+export { filterNewPairs } from './discovery';
+export { DexScreenerQueryError, SCREENER_FIELDS, parseScreenerQuery, screenPairs } from './screener';
 export * from './actions';
+export * from './providers';
+export * from './evaluators';
@@ -0,0 +1,415 @@
+import {
+  DexScreenerBollingerBands,
+  DexScreenerCandle,
+  DexScreenerCandleResolution,
+  DexScreenerIndicatorConfidence,
+  DexScreenerIndicatorDepth,
+  DexScreenerIndicatorName,
+  DexScreenerIndicatorReport,
+  DexScreenerIndicatorRequest,
+  DexScreenerIndicatorResult,
+  DexScreenerPriceLevel,
+  DexScreenerPriceLevels,
+} from './types';
+
+type Series = Array<number | undefined>;
+
+/** Lookback used when a request doesn't give one */
+export const DEFAULT_INDICATOR_PERIODS: Partial<Record<DexScreenerIndicatorName, number>> = {
+  sma: 20,
+  ema: 20,
+  rsi: 14,
+  bollinger: 20,
+  atr: 14,
+};
+
+export const INDICATOR_NAMES: DexScreenerIndicatorName[] = [
+  'sma',
+  'ema',
+  'rsi',
+  'vwap',
+  'bollinger',
+  'atr',
+  'levels',
+];
+
+// Share of gap candles above which a value is low confidence
+const MAX_GAP_SHARE = 0.2;
+
+/**
+ * Simple moving average; undefined until `period` values are in
+ */
+export function calculateSma(values: number[], period: number): Series {
+  let sum = 0;
+  return values.map((value, i) => {
+    sum += value - (i >= period ? values[i - period] : 0);
+    return i >= period - 1 ? sum / period : undefined;
+  });
+}
+
+/**
+ * Exponential moving average seeded with the SMA of the first `period` values
+ */
+export function calculateEma(values: number[], period: number): Series {
+  const k = 2 / (period + 1);
+  let ema: number | undefined;
+  return values.map((value, i) => {
+    if (i < period - 1) {
+      return undefined;
+    }
+    ema =
+      ema === undefined
+        ? values.slice(0, period).reduce((total, v) => total + v, 0) / period
+        : value * k + ema * (1 - k);
+    return ema;
+  });
+}
+
+/**
+ * Relative strength index with Wilder's smoothing; the first value needs
+ * `period` price changes, so `period + 1` values
+ */
+export function calculateRsi(values: number[], period = 14): Series {
+  let gain = 0;
+  let loss = 0;
+  return values.map((value, i) => {
+    if (i === 0) {
+      return undefined;
+    }
+    const change = value - values[i - 1];
+    const up = Math.max(change, 0);
+    const down = Math.max(-change, 0);
+    if (i <= period) {
+      gain += up / period;
+      loss += down / period;
+      if (i < period) {
+        return undefined;
+      }
+    } else {
+      gain = (gain * (period - 1) + up) / period;
+      loss = (loss * (period - 1) + down) / period;
+    }
+    if (loss === 0) {
+      return gain === 0 ? 50 : 100;
+    }
+    return 100 - 100 / (1 + gain / loss);
+  });
+}
+
+/**
+ * Volume-weighted average of the typical price ((high + low + close) / 3),
+ * cumulative from the first candle; undefined until there is volume
+ */
+export function calculateVwap(candles: DexScreenerCandle[]): Series {
+  let weighted = 0;
+  let volume = 0;
+  return candles.map((candle) => {
+    weighted += ((candle.high + candle.low + candle.close) / 3) * candle.volume;
+    volume += candle.volume;
+    return volume > 0 ? weighted / volume : undefined;
+  });
+}
+
+/**
+ * Bollinger bands: the SMA plus and minus `multiplier` population standard
+ * deviations over the same period
+ */
+export function calculateBollingerBands(
+  values: number[],
+  period = 20,
+  multiplier = 2
+): Array<DexScreenerBollingerBands | undefined> {
+  return calculateSma(values, period).map((middle, i) => {
+    if (middle === undefined) {
+      return undefined;
+    }
+    const window = values.slice(i - period + 1, i + 1);
+    const deviation = Math.sqrt(
+      window.reduce((total, value) => total + (value - middle) ** 2, 0) / period
+    );
+    const upper = middle + multiplier * deviation;
+    const lower = middle - multiplier * deviation;
+    return { middle, upper, lower, width: middle ? ((upper - lower) / middle) * 100 : 0 };
+  });
+}
+
+/**
+ * Average true range with Wilder's smoothing; the first value needs
+ * `period` true ranges, so `period + 1` candles
+ */
+export function calculateAtr(candles: DexScreenerCandle[], period = 14): Series {
+  let atr = 0;
+  return candles.map((candle, i) => {
+    if (i === 0) {
+      return undefined;
+    }
+    const previousClose = candles[i - 1].close;
+    const trueRange = Math.max(
+      candle.high - candle.low,
+      Math.abs(candle.high - previousClose),
+      Math.abs(candle.low - previousClose)
+    );
+    if (i <= period) {
+      atr += trueRange / period;
+      return i < period ? undefined : atr;
+    }
+    atr = (atr * (period - 1) + trueRange) / period;
+    return atr;
+  });
+}
+
+/**
+ * Simple support and resistance: swing highs and lows (a candle beyond the
+ * `pivot` candles on each side) clustered when within `tolerance` percent of
+ * each other. Levels are split around the last close, nearest first, and the
+ * best-tested `maxLevels` of each kind are kept.
+ */
+export function findPriceLevels(
+  candles: DexScreenerCandle[],
+  options: { pivot?: number; tolerance?: number; maxLevels?: number } = {}
+): DexScreenerPriceLevels {
+  const { pivot = 2, tolerance = 1, maxLevels = 3 } = options;
+  const swings: number[] = [];
+
+  for (let i = pivot; i < candles.length - pivot; i++) {
+    const before = candles.slice(i - pivot, i);
+    const after = candles.slice(i + 1, i + pivot + 1);
+    const { high, low } = candles[i];
+    if (before.every((c) => c.high < high) && after.every((c) => c.high <= high)) {
+      swings.push(high);
+    }
+    if (before.every((c) => c.low > low) && after.every((c) => c.low >= low)) {
+      swings.push(low);
+    }
+  }
+
+  const clusters: Array<{ total: number; touches: number }> = [];
+  for (const price of swings.sort((a, b) => a - b)) {
+    const last = clusters[clusters.length - 1];
+    if (last && Math.abs(price - last.total / last.touches) <= (price * tolerance) / 100) {
+      last.total += price;
+      last.touches++;
+    } else {
+      clusters.push({ total: price, touches: 1 });
+    }
+  }
+
+  const close = candles[candles.length - 1]?.close ?? 0;
+  const levels: DexScreenerPriceLevel[] = clusters.map((cluster) => ({
+    price: cluster.total / cluster.touches,
+    touches: cluster.touches,
+  }));
+  const strongest = (side: DexScreenerPriceLevel[]) =>
+    side
+      .map((level, rank) => ({ level, rank }))
+      .sort((a, b) => b.level.touches - a.level.touches || a.rank - b.rank)
+      .slice(0, maxLevels)
+      .sort((a, b) => a.rank - b.rank)
+      .map(({ level }) => level);
+
+  return {
+    support: strongest(
+      levels.filter((level) => level.price < close).sort((a, b) => b.price - a.price)
+    ),
+    resistance: strongest(
+      levels.filter((level) => level.price > close).sort((a, b) => a.price - b.price)
+    ),
+  };
+}
+
+function getConfidence(
+  candles: number,
+  gaps: number,
+  required: number,
+  recommended: number
+): DexScreenerIndicatorConfidence {
+  if (candles < required) return 'insufficient';
+  if (candles < recommended || gaps > (candles + gaps) * MAX_GAP_SHARE) return 'low';
+  return 'normal';
+}
+
+/**
+ * Candles needed to compute an indicator, and for a settled value. Smoothed
+ * indicators (EMA, RSI, ATR) carry their seed for a while, so they want
+ * about three periods of warm-up.
+ */
+function getRequirements(name: DexScreenerIndicatorName, period: number): [number, number] {
+  switch (name) {
+    case 'sma':
+    case 'bollinger':
+      return [period, period];
+    case 'ema':
+      return [period, period * 3];
+    case 'rsi':
+    case 'atr':
+      return [period + 1, period * 3 + 1];
+    case 'vwap':
+      return [1, 10];
+    case 'levels':
+      return [5, 50];
+  }
+}
+
+/**
+ * Compute the latest value of each requested indicator from candles,
+ * annotated with how much history backs it. Gap candles are left out of the
+ * calculations and counted against confidence. Values without enough
+ * history are left undefined.
+ */
+export function calculateIndicators(
+  candles: DexScreenerCandle[],
+  resolution: DexScreenerCandleResolution,
+  requests: DexScreenerIndicatorRequest[] = INDICATOR_NAMES.map((name) => ({ name }))
+): DexScreenerIndicatorReport {
+  const data = candles.filter((candle) => !candle.gap);
+  const gaps = candles.length - data.length;
+  const closes = data.map((candle) => candle.close);
+  const span = data.length > 1 ? data[data.length - 1].time - data[0].time : 0;
+  const latest = <T>(series: Array<T | undefined>) => series[series.length - 1];
+
+  const results = requests.map((request): DexScreenerIndicatorResult => {
+    const period = request.period ?? DEFAULT_INDICATOR_PERIODS[request.name];
+    const [required, recommended] = getRequirements(request.name, period ?? 0);
+    const depth: DexScreenerIndicatorDepth = {
+      candles: data.length,
+      required,
+      recommended,
+      gaps,
+      span,
+      confidence: getConfidence(data.length, gaps, required, recommended),
+    };
+    const result: DexScreenerIndicatorResult = { name: request.name, period, depth };
+    if (depth.confidence === 'insufficient') {
+      return result;
+    }
+
+    switch (request.name) {
+      case 'sma':
+        return { ...result, value: latest(calculateSma(closes, period!)) };
+      case 'ema':
+        return { ...result, value: latest(calculateEma(closes, period!)) };
+      case 'rsi':
+        return { ...result, value: latest(calculateRsi(closes, period)) };
+      case 'vwap':
+        return { ...result, value: latest(calculateVwap(data)) };
+      case 'bollinger':
+        return { ...result, bands: latest(calculateBollingerBands(closes, period)) };
+      case 'atr':
+        return { ...result, value: latest(calculateAtr(data, period)) };
+      case 'levels':
+        return { ...result, levels: findPriceLevels(data) };
+    }
+  });
+
+  return {
+    resolution,
+    close: closes[closes.length - 1],
+    candles: data.length,
+    gaps,
+    from: data[0]?.time,
+    to: data[data.length - 1]?.time,
+    results,
+  };
+}
+
+const INDICATOR_KEYWORDS: Array<[DexScreenerIndicatorName, string]> = [
+  ['rsi', 'rsi|relative strength(?: index)?'],
+  ['ema', 'ema|exponential moving average'],
+  ['sma', 'sma|simple moving average|moving average'],
+  ['vwap', 'vwap'],
+  ['bollinger', 'bollinger(?: bands?)?|bb'],
+  ['atr', 'atr|average true range'],
+  ['levels', 'support|resistance|s/r|levels'],
+];
+
+/**
+ * Find the indicators named in a message, with periods written either way
+ * round ("RSI 14", "SMA(50)", "50-period EMA"). Returns an empty list when
+ * none is named.
+ */
+export function parseIndicatorRequests(text: string): DexScreenerIndicatorRequest[] {
+  const requests: DexScreenerIndicatorRequest[] = [];
+  let remaining = text;
+  for (const [name, keywords] of INDICATOR_KEYWORDS) {
+    // An optional period before ("50-period") or after ("(50)", " 50") the name
+    const pattern = new RegExp(
+      `(?:\\b(\\d{1,3})[- ](?:period\\s+)?)?\\b(?:${keywords})\\b` +
+        `(?:\\s*\\(?\\s*(\\d{1,3})\\b(?![mhd]))?`,
+      'gi'
+    );
+    for (const match of remaining.matchAll(pattern)) {
+      const period = match[1] || match[2];
+      const request: DexScreenerIndicatorRequest =
+        period && DEFAULT_INDICATOR_PERIODS[name] ? { name, period: parseInt(period) } : { name };
+      if (!requests.some((r) => r.name === name && r.period === request.period)) {
+        requests.push(request);
+      }
+    }
+    // So "exponential moving average" doesn't also read as an SMA
+    if (name === 'ema') {
+      remaining = remaining.replace(/exponential moving average/gi, '');
+    }
+  }
+  return requests;
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return minutes % 60 ? `${hours}h ${minutes % 60}m` : `${hours}h`;
+  const days = Math.floor(hours / 24);
+  return hours % 24 ? `${days}d ${hours % 24}h` : `${days}d`;
+}
+
+function formatDepth(depth: DexScreenerIndicatorDepth): string {
+  const gaps = depth.gaps > 0 ? `, ${depth.gaps} gaps` : '';
+  if (depth.confidence === 'insufficient') {
+    return `not enough history: needs ${depth.required} candles, have ${depth.candles}`;
+  }
+  if (depth.confidence === 'low') {
+    return `⚠️ low confidence: ${depth.candles} candles${gaps}, ${depth.recommended}+ recommended`;
+  }
+  return `${depth.candles} candles${gaps}`;
+}
+
+/**
+ * One line per indicator, each with the history behind it
+ */
+export function formatIndicatorReport(
+  report: DexScreenerIndicatorReport,
+  formatPrice: (price: string | number) => string
+): string {
+  const price = (value: number) => `$${formatPrice(value)}`;
+  const lines = report.results.map((result) => {
+    const label =
+      result.name === 'levels'
+        ? 'Support/Resistance'
+        : result.name === 'bollinger'
+          ? `Bollinger(${result.period}, 2σ)`
+          : `${result.name.toUpperCase()}${result.period ? `(${result.period})` : ''}`;
+
+    let value = 'N/A';
+    if (result.bands) {
+      const { lower, middle, upper, width } = result.bands;
+      value = `${price(lower)} / ${price(middle)} / ${price(upper)} (width ${width.toFixed(1)}%)`;
+    } else if (result.levels) {
+      const list = (levels: DexScreenerPriceLevel[]) =>
+        levels.map((level) => `${price(level.price)} (${level.touches}x)`).join(', ') || 'none';
+      value = `support ${list(result.levels.support)}; resistance ${list(result.levels.resistance)}`;
+    } else if (result.value !== undefined) {
+      value = result.name === 'rsi' ? result.value.toFixed(1) : price(result.value);
+    }
+
+    return `• **${label}:** ${value} _(${formatDepth(result.depth)})_`;
+  });
+
+  const span = report.candles > 1 && report.from !== undefined && report.to !== undefined;
+  return [
+    `History: ${report.candles} ${report.resolution} candles` +
+      (span ? ` over ${formatDuration(report.to! - report.from!)}` : '') +
+      (report.gaps > 0 ? ` (${report.gaps} gaps)` : ''),
+    '',
+    ...lines,
+  ].join('\n');
+}
@@ -0,0 +1,18 @@
+// Tail of the pending operations per key
+const locks = new Map<string, Promise<unknown>>();
+
+/**
+ * Run an operation once every earlier operation on the same key has settled.
+ * Used to serialise read-modify-write cycles on runtime cache entries.
+ */
+export function withKeyLock<T>(key: string, operation: () => Promise<T>): Promise<T> {
+  const run = (locks.get(key) || Promise.resolve()).then(operation, operation);
+  const settled = run.catch(() => undefined);
+  locks.set(key, settled);
+  settled.then(() => {
+    if (locks.get(key) === settled) {
+      locks.delete(key);
+    }
+  });
+  return run;
+}
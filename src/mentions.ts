@@ -0,0 +1,63 @@
+import { DexScreenerDetectedAddress, DexScreenerTokenReference } from './types';
+import { detectAddresses, inferChainId } from './address';
+
+export interface DexScreenerTokenMentions {
+  addresses: DexScreenerDetectedAddress[];
+  /** Upper-cased $cashtag symbols, without the $ */
+  symbols: string[];
+  /** Pairs linked as dexscreener.com/{chain}/{pair} */
+  pairs: Array<{ chainId: string; pairAddress: string }>;
+}
+
+// $ followed by a letter, so prices like $0.5 aren't taken for cashtags
+const CASHTAG_PATTERN = /(?<![\w$])\$([A-Za-z][A-Za-z0-9]{1,14})\b/g;
+
+const URL_PATTERN = /(?:https?:\/\/)?(?:www\.)?dexscreener\.com\/([a-z0-9-]+)\/([A-Za-z0-9:_-]{20,})/gi;
+
+/**
+ * Find the tokens a message talks about: DexScreener pair URLs, addresses on
+ * any supported chain and $cashtags. Addresses inside URLs only count as the URL.
+ */
+export function extractTokenMentions(text: string): DexScreenerTokenMentions {
+  const pairs: DexScreenerTokenMentions['pairs'] = [];
+  for (const match of text.matchAll(URL_PATTERN)) {
+    const chainId = match[1].toLowerCase();
+    if (!pairs.some((pair) => pair.chainId === chainId && pair.pairAddress === match[2])) {
+      pairs.push({ chainId, pairAddress: match[2] });
+    }
+  }
+  const withoutUrls = text.replace(URL_PATTERN, ' ');
+
+  const symbols: string[] = [];
+  for (const match of withoutUrls.matchAll(CASHTAG_PATTERN)) {
+    const symbol = match[1].toUpperCase();
+    if (!symbols.includes(symbol)) {
+      symbols.push(symbol);
+    }
+  }
+
+  return { addresses: detectAddresses(withoutUrls), symbols, pairs };
+}
+
+/**
+ * Turn mentions into references that can be resolved, scoping addresses to a
+ * chain when the text makes it unambiguous
+ */
+export function getMentionReferences(
+  mentions: DexScreenerTokenMentions,
+  text = ''
+): DexScreenerTokenReference[] {
+  return [
+    ...mentions.pairs.map(
+      (pair): DexScreenerTokenReference => ({ type: 'pair', ...pair })
+    ),
+    ...mentions.addresses.map(
+      (detected): DexScreenerTokenReference => ({
+        type: 'address',
+        address: detected.address,
+        chainId: inferChainId(detected, text),
+      })
+    ),
+    ...mentions.symbols.map((symbol): DexScreenerTokenReference => ({ type: 'symbol', symbol })),
+  ];
+}
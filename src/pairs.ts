@@ -0,0 +1,24 @@
+import { DexScreenerPair } from './types';
+
+/**
+ * Pick the most liquid pair, the one whose price best represents the token
+ */
+export function getMainPair(pairs: DexScreenerPair[]): DexScreenerPair | undefined {
+  if (pairs.length === 0) {
+    return undefined;
+  }
+  return pairs.reduce((prev, curr) =>
+    (curr.liquidity?.usd || 0) > (prev.liquidity?.usd || 0) ? curr : prev
+  );
+}
+
+/**
+ * Pick the most liquid pair that trades the given token as its base token
+ */
+export function getMainPairForToken(
+  pairs: DexScreenerPair[],
+  tokenAddress: string
+): DexScreenerPair | undefined {
+  const address = tokenAddress.toLowerCase();
+  return getMainPair(pairs.filter((pair) => pair.baseToken.address?.toLowerCase() === address));
+}
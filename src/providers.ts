@@ -0,0 +1,160 @@
+import { IAgentRuntime, Memory, Provider, State } from '@elizaos/core';
+import { DexScreenerService } from './service';
+import { DexScreenerPair, DexScreenerTokenReference } from './types';
+import { extractTokenMentions, getMentionReferences } from './mentions';
+import { getReferenceKey, resolveTokenReferences } from './resolve';
+import { getRecentTokens } from './recent-tokens';
+import { getRoomWatchlist } from './watchlist';
+
+interface ContextToken {
+  reference: DexScreenerTokenReference;
+  source: 'mentioned' | 'discussed' | 'watchlist';
+  firstSeenPrice?: string;
+}
+
+/**
+ * Rough token count for budgeting provider text (about four characters per token)
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Collect the tokens to summarise: those mentioned in the current message,
+ * then in the recent conversation, then tokens discussed earlier in the room
+ * and finally the room's watchlist
+ */
+async function collectContextTokens(
+  runtime: IAgentRuntime,
+  message: Memory,
+  maxTokens: number
+): Promise<ContextToken[]> {
+  const texts: string[] = [];
+  const current = typeof message.content === 'string' ? message.content : message.content.text;
+  if (current) {
+    texts.push(current);
+  }
+
+  try {
+    const recent = await runtime.getMemories({
+      tableName: 'messages',
+      roomId: message.roomId,
+      count: 10,
+    });
+    for (const memory of recent) {
+      if (memory.id !== message.id && memory.content?.text) {
+        texts.push(memory.content.text);
+      }
+    }
+  } catch (error) {
+    console.warn('DexScreener market provider could not read recent messages:', error);
+  }
+
+  const tokens = new Map<string, ContextToken>();
+  const add = (token: ContextToken) => {
+    const key = getReferenceKey(token.reference);
+    if (tokens.size < maxTokens && !tokens.has(key)) {
+      tokens.set(key, token);
+    }
+  };
+
+  for (const text of texts) {
+    for (const reference of getMentionReferences(extractTokenMentions(text), text)) {
+      add({ reference, source: 'mentioned' });
+    }
+  }
+
+  for (const token of await getRecentTokens(runtime, message.roomId)) {
+    add({
+      reference: { type: 'address', address: token.tokenAddress, chainId: token.chainId },
+      source: 'discussed',
+      firstSeenPrice: token.firstSeenPrice,
+    });
+  }
+
+  for (const entry of await getRoomWatchlist(runtime, message.roomId)) {
+    add({
+      reference: { type: 'address', address: entry.tokenAddress, chainId: entry.chainId },
+      source: 'watchlist',
+    });
+  }
+
+  return [...tokens.values()];
+}
+
+/**
+ * Market context provider: a compact summary of price, 24h change and
+ * liquidity for tokens in the conversation, discussed earlier in the room or
+ * on the room's watchlist
+ */
+export const marketContextProvider: Provider = {
+  name: 'DEXSCREENER_MARKET',
+  description:
+    'Current price, 24h change and liquidity for tokens mentioned in the conversation, discussed earlier or on the room watchlist',
+
+  get: async (runtime: IAgentRuntime, message: Memory, _state: State) => {
+    const service = runtime.getService('dexscreener') as DexScreenerService | null;
+    if (!service) {
+      return { text: '', values: {}, data: {} };
+    }
+
+    const budget = parseInt(runtime.getSetting('DEXSCREENER_PROVIDER_TOKEN_BUDGET') || '300');
+    const maxTokens = parseInt(runtime.getSetting('DEXSCREENER_PROVIDER_MAX_TOKENS') || '8');
+
+    try {
+      const tokens = await collectContextTokens(runtime, message, maxTokens);
+      if (tokens.length === 0) {
+        return { text: '', values: {}, data: {} };
+      }
+
+      const pairs = await resolveTokenReferences(
+        service,
+        tokens.map((token) => token.reference),
+        { priority: 'low' }
+      );
+
+      const header = '# Market data (DexScreener)';
+      const lines: string[] = [];
+      const included: DexScreenerPair[] = [];
+      let used = estimateTokens(header);
+
+      for (const token of tokens) {
+        const pair = pairs.get(getReferenceKey(token.reference));
+        if (!pair) {
+          continue;
+        }
+
+        const line =
+          `- ${pair.baseToken.symbol} (${pair.chainId}${token.source === 'mentioned' ? '' : `, ${token.source}`}): ` +
+          `$${service.formatPrice(pair.priceUsd || pair.priceNative)}, ` +
+          `24h ${service.formatPriceChange(pair.priceChange.h24)}, ` +
+          `liq ${pair.liquidity?.usd ? service.formatUsdValue(pair.liquidity.usd) : 'N/A'}` +
+          (token.firstSeenPrice ? `, first seen $${service.formatPrice(token.firstSeenPrice)}` : '');
+        const cost = estimateTokens(line) + 1;
+        if (used + cost > budget) {
+          break;
+        }
+        used += cost;
+        lines.push(line);
+        included.push(pair);
+      }
+
+      if (lines.length === 0) {
+        return { text: '', values: {}, data: {} };
+      }
+
+      const text = [header, ...lines].join('\n');
+      return {
+        text,
+        values: { dexscreenerMarket: text },
+        data: { dexscreenerPairs: included },
+      };
+    } catch (error) {
+      console.error('DexScreener market provider error:', error);
+      return { text: '', values: {}, data: {} };
+    }
+  },
+};
+
+// Export all providers
+export const dexscreenerProviders = [marketContextProvider];
@@ -0,0 +1,132 @@
+import {
+  DexScreenerRateLimitBudget,
+  DexScreenerRateLimitGroup,
+  DexScreenerRateLimitConfig,
+  DexScreenerRequestPriority,
+} from './types';
+
+const PRIORITY_ORDER: Record<DexScreenerRequestPriority, number> = {
+  high: 2,
+  normal: 1,
+  low: 0,
+};
+
+interface QueuedRequest {
+  priority: number;
+  sequence: number;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * A single token bucket with a priority queue of waiting requests
+ */
+class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private queue: QueuedRequest[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private sequence = 0;
+
+  constructor(private config: DexScreenerRateLimitConfig) {
+    this.tokens = config.burst;
+  }
+
+  acquire(priority: DexScreenerRequestPriority): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({
+        priority: PRIORITY_ORDER[priority],
+        sequence: this.sequence++,
+        resolve,
+        reject,
+      });
+      // Highest priority first, FIFO within the same priority
+      this.queue.sort((a, b) => b.priority - a.priority || a.sequence - b.sequence);
+      this.drain();
+    });
+  }
+
+  getBudget(): DexScreenerRateLimitBudget {
+    this.refill();
+    return {
+      remaining: Math.floor(this.tokens),
+      capacity: this.config.burst,
+      requestsPerMinute: this.config.requestsPerMinute,
+      queued: this.queue.length,
+    };
+  }
+
+  clear(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    const queued = this.queue;
+    this.queue = [];
+    queued.forEach((request) => request.reject(new Error('Rate limiter stopped')));
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const refillRate = this.config.requestsPerMinute / 60000;
+    this.tokens = Math.min(this.config.burst, this.tokens + (now - this.lastRefill) * refillRate);
+    this.lastRefill = now;
+  }
+
+  private drain(): void {
+    this.refill();
+
+    while (this.queue.length > 0 && this.tokens >= 1) {
+      this.tokens -= 1;
+      this.queue.shift()!.resolve();
+    }
+
+    if (this.queue.length > 0 && !this.timer) {
+      const refillRate = this.config.requestsPerMinute / 60000;
+      const wait = Math.ceil((1 - this.tokens) / refillRate);
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.drain();
+      }, wait);
+    }
+  }
+}
+
+/**
+ * Token-bucket rate limiter keyed by DexScreener endpoint group
+ */
+export class RateLimiter {
+  private buckets: Record<DexScreenerRateLimitGroup, TokenBucket>;
+
+  constructor(limits: Record<DexScreenerRateLimitGroup, DexScreenerRateLimitConfig>) {
+    this.buckets = {
+      pairs: new TokenBucket(limits.pairs),
+      profiles: new TokenBucket(limits.profiles),
+    };
+  }
+
+  /**
+   * Wait until a request in the given group may be sent
+   */
+  acquire(
+    group: DexScreenerRateLimitGroup,
+    priority: DexScreenerRequestPriority = 'normal'
+  ): Promise<void> {
+    return this.buckets[group].acquire(priority);
+  }
+
+  getBudget(): Record<DexScreenerRateLimitGroup, DexScreenerRateLimitBudget> {
+    return {
+      pairs: this.buckets.pairs.getBudget(),
+      profiles: this.buckets.profiles.getBudget(),
+    };
+  }
+
+  /**
+   * Reject all queued requests and stop pending timers
+   */
+  clear(): void {
+    this.buckets.pairs.clear();
+    this.buckets.profiles.clear();
+  }
+}
@@ -0,0 +1,143 @@
+import { IAgentRuntime, Memory, UUID, createUniqueUuid } from '@elizaos/core';
+import { DexScreenerPair, DexScreenerRecentToken } from './types';
+import { withKeyLock } from './lock';
+
+// Memory table the recently discussed tokens are stored in, one memory per token
+export const RECENT_TOKENS_TABLE = 'dexscreener_recent_tokens';
+
+// How many discussed tokens to remember per room
+const MAX_RECENT_TOKENS = 20;
+
+function isSameToken(
+  token: DexScreenerRecentToken,
+  other: { chainId: string; tokenAddress: string }
+): boolean {
+  return (
+    token.chainId === other.chainId &&
+    token.tokenAddress.toLowerCase() === other.tokenAddress.toLowerCase()
+  );
+}
+
+/**
+ * Stable memory ID for a token in a room, so later mentions update the same memory
+ */
+function getMemoryId(runtime: IAgentRuntime, roomId: string, token: DexScreenerRecentToken): UUID {
+  return createUniqueUuid(
+    runtime,
+    `dexscreener-recent-token:${roomId}:${token.chainId}:${token.tokenAddress.toLowerCase()}`
+  );
+}
+
+function toMemory(
+  runtime: IAgentRuntime,
+  roomId: string,
+  token: DexScreenerRecentToken
+): Memory & { id: UUID } {
+  return {
+    id: getMemoryId(runtime, roomId, token),
+    entityId: runtime.agentId,
+    agentId: runtime.agentId,
+    roomId: roomId as UUID,
+    createdAt: token.firstSeenAt,
+    content: {
+      text: `Discussed ${token.symbol} (${token.chainId}: ${token.tokenAddress})`,
+      source: 'dexscreener',
+      token,
+    },
+  };
+}
+
+async function loadTokenMemories(
+  runtime: IAgentRuntime,
+  roomId: string
+): Promise<Array<{ id?: UUID; token: DexScreenerRecentToken }>> {
+  const memories = await runtime.getMemories({
+    roomId: roomId as UUID,
+    tableName: RECENT_TOKENS_TABLE,
+  });
+  return (memories || [])
+    .filter((memory) => memory.content?.token)
+    .map((memory) => ({ id: memory.id, token: memory.content.token as DexScreenerRecentToken }))
+    .sort((a, b) => b.token.lastSeenAt - a.token.lastSeenAt);
+}
+
+/**
+ * Get the tokens recently discussed in a room, most recently mentioned first
+ */
+export async function getRecentTokens(
+  runtime: IAgentRuntime,
+  roomId: string
+): Promise<DexScreenerRecentToken[]> {
+  return (await loadTokenMemories(runtime, roomId))
+    .slice(0, MAX_RECENT_TOKENS)
+    .map(({ token }) => token);
+}
+
+/**
+ * Get the most recently discussed token in a room, for "that token from earlier"
+ */
+export async function getLastDiscussedToken(
+  runtime: IAgentRuntime,
+  roomId: string
+): Promise<DexScreenerRecentToken | undefined> {
+  return (await getRecentTokens(runtime, roomId))[0];
+}
+
+/**
+ * Record tokens mentioned in a room through the pairs they resolved to, as
+ * agent memories. A token keeps the price from when it was first seen; later
+ * mentions only bump its position and mention count.
+ */
+export async function recordRecentTokens(
+  runtime: IAgentRuntime,
+  roomId: string,
+  pairs: Array<{ pair: DexScreenerPair; viaPair?: boolean }>,
+  now = Date.now()
+): Promise<DexScreenerRecentToken[]> {
+  return withKeyLock(`${RECENT_TOKENS_TABLE}:${roomId}`, async () => {
+    const stored = await loadTokenMemories(runtime, roomId);
+    const mentioned: DexScreenerRecentToken[] = [];
+
+    for (const { pair, viaPair } of pairs) {
+      const address = pair.baseToken.address;
+      const key = { chainId: pair.chainId, tokenAddress: address };
+      if (!address || mentioned.some((token) => isSameToken(token, key))) {
+        continue;
+      }
+
+      const existing = stored.find(({ token }) => isSameToken(token, key));
+      const token: DexScreenerRecentToken = existing
+        ? { ...existing.token, lastSeenAt: now, mentionCount: existing.token.mentionCount + 1 }
+        : {
+            chainId: pair.chainId,
+            tokenAddress: address,
+            symbol: pair.baseToken.symbol,
+            name: pair.baseToken.name,
+            ...(viaPair ? { pairAddress: pair.pairAddress } : {}),
+            firstSeenPrice: pair.priceUsd,
+            firstSeenAt: now,
+            lastSeenAt: now,
+            mentionCount: 1,
+          };
+      mentioned.push(token);
+
+      const memory = toMemory(runtime, roomId, token);
+      if (existing) {
+        await runtime.updateMemory({ id: existing.id || memory.id, content: memory.content });
+      } else {
+        await runtime.createMemory(memory, RECENT_TOKENS_TABLE, true);
+      }
+    }
+
+    // Forget the tokens pushed out of the most recent MAX_RECENT_TOKENS
+    const kept = stored.filter(({ token }) => !mentioned.some((m) => isSameToken(m, token)));
+    const forgotten = kept.slice(Math.max(0, MAX_RECENT_TOKENS - mentioned.length));
+    await Promise.all(
+      forgotten.map(({ id, token }) =>
+        runtime.deleteMemory(id || getMemoryId(runtime, roomId, token))
+      )
+    );
+
+    return mentioned;
+  });
+}
@@ -0,0 +1,86 @@
+import { DexScreenerService } from './service';
+import { DexScreenerPair, DexScreenerRequestOptions, DexScreenerTokenReference } from './types';
+import { getMainPair, getMainPairForToken } from './pairs';
+
+/**
+ * Stable key for a token reference, used to dedupe references and look up their pairs
+ */
+export function getReferenceKey(reference: DexScreenerTokenReference): string {
+  switch (reference.type) {
+    case 'address':
+      return `address:${reference.address.toLowerCase()}`;
+    case 'symbol':
+      return `symbol:${reference.symbol.toUpperCase()}`;
+    case 'pair':
+      return `pair:${reference.chainId}:${reference.pairAddress.toLowerCase()}`;
+  }
+}
+
+/**
+ * Resolve token references to the pair that best represents each one: the
+ * most liquid pair for addresses and symbols, the pair itself for pair
+ * references. Addresses and pairs with a known chain are looked up in one
+ * batched request per chain; references that can't be resolved are left out.
+ */
+export async function resolveTokenReferences(
+  service: DexScreenerService,
+  references: DexScreenerTokenReference[],
+  options: DexScreenerRequestOptions = {}
+): Promise<Map<string, DexScreenerPair>> {
+  const tokensByChain = new Map<string, string[]>();
+  const pairsByChain = new Map<string, string[]>();
+  for (const reference of references) {
+    if (reference.type === 'address' && reference.chainId) {
+      tokensByChain.set(reference.chainId, [
+        ...(tokensByChain.get(reference.chainId) || []),
+        reference.address,
+      ]);
+    } else if (reference.type === 'pair') {
+      pairsByChain.set(reference.chainId, [
+        ...(pairsByChain.get(reference.chainId) || []),
+        reference.pairAddress,
+      ]);
+    }
+  }
+
+  const resolved = new Map<string, DexScreenerPair>();
+  await Promise.all([
+    ...[...tokensByChain].map(async ([chainId, addresses]) => {
+      const result = await service.getMultipleTokens(chainId, addresses, options);
+      for (const address of addresses) {
+        const pair = getMainPairForToken(result.data || [], address);
+        if (pair) {
+          resolved.set(getReferenceKey({ type: 'address', address, chainId }), pair);
+        }
+      }
+    }),
+    ...[...pairsByChain].map(async ([chainId, pairAddresses]) => {
+      const result = await service.getPairs({ chainId, pairAddresses }, options);
+      for (const pair of result.data?.pairs || []) {
+        resolved.set(
+          getReferenceKey({ type: 'pair', chainId, pairAddress: pair.pairAddress }),
+          pair
+        );
+      }
+    }),
+    ...references.map(async (reference) => {
+      if (reference.type === 'address' && !reference.chainId) {
+        const result = await service.getTokenPairs({ tokenAddress: reference.address }, options);
+        const pair = getMainPairForToken(result.data || [], reference.address);
+        if (pair) {
+          resolved.set(getReferenceKey(reference), pair);
+        }
+      } else if (reference.type === 'symbol') {
+        const symbol = reference.symbol.toUpperCase();
+        const result = await service.search({ query: symbol }, options);
+        const pair = getMainPair(
+          (result.data || []).filter((pair) => pair.baseToken.symbol?.toUpperCase() === symbol)
+        );
+        if (pair) {
+          resolved.set(getReferenceKey(reference), pair);
+        }
+      }
+    }),
+  ]);
+  return resolved;
+}
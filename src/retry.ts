@@ -0,0 +1,95 @@
+import { DexScreenerRetryConfig } from './types';
+
+// Network-level failures worth retrying even though no response arrived
+const RETRYABLE_ERROR_CODES = new Set([
+  'ECONNABORTED',
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'ENOTFOUND',
+  'EPIPE',
+  'ERR_NETWORK',
+]);
+
+/**
+ * Whether a failed request is worth retrying: rate limits, upstream
+ * errors and network failures are; validation errors (other 4xx) are not.
+ */
+export function isRetryableError(error: any): boolean {
+  const status = error?.response?.status;
+  if (typeof status === 'number') {
+    return status === 429 || status >= 500;
+  }
+  if (error?.code === 'ERR_CANCELED') {
+    return false;
+  }
+  return RETRYABLE_ERROR_CODES.has(error?.code) || (Boolean(error?.isAxiosError) && !error?.response);
+}
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(value));
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Delay before the next attempt: the server's Retry-After when present,
+ * otherwise exponential backoff with jitter capped at maxDelay
+ */
+export function getRetryDelay(error: any, attempt: number, config: DexScreenerRetryConfig): number {
+  const retryAfter = parseRetryAfter(error?.response?.headers?.['retry-after']);
+  if (retryAfter !== undefined) {
+    return retryAfter;
+  }
+
+  const backoff = Math.min(config.maxDelay, config.baseDelay * 2 ** (attempt - 1));
+  return backoff / 2 + Math.random() * (backoff / 2);
+}
+
+/**
+ * Run an operation, retrying retryable failures up to maxAttempts times.
+ * A Retry-After longer than maxDelay fails right away rather than retrying
+ * early into another rate limit. The number of attempts made is attached to
+ * the final error as `attempts`.
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  config: DexScreenerRetryConfig
+): Promise<{ result: T; attempts: number }> {
+  const maxAttempts = Math.max(1, config.maxAttempts);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return { result: await operation(attempt), attempts: attempt };
+    } catch (error: any) {
+      const delay =
+        attempt < maxAttempts && isRetryableError(error)
+          ? getRetryDelay(error, attempt, config)
+          : Infinity;
+      if (delay > config.maxDelay) {
+        if (error && typeof error === 'object') {
+          error.attempts = attempt;
+        }
+        throw error;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
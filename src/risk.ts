@@ -0,0 +1,173 @@
+import { DexScreenerService } from './service';
+import {
+  DexScreenerPair,
+  DexScreenerRequestOptions,
+  DexScreenerRiskAssessment,
+  DexScreenerRiskFactor,
+  DexScreenerRiskLevel,
+} from './types';
+import { getMainPair } from './pairs';
+
+export interface DexScreenerRiskInput {
+  /** Every pair DexScreener lists for the token */
+  pairs: DexScreenerPair[];
+  /** Whether the token has a paid DexScreener profile; undefined when unknown */
+  paidProfile?: boolean;
+  now?: number;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function getRiskLevel(score: number): DexScreenerRiskLevel {
+  if (score >= 75) return 'critical';
+  if (score >= 50) return 'high';
+  if (score >= 25) return 'medium';
+  return 'low';
+}
+
+type Formatters = Pick<DexScreenerService, 'formatUsdValue'>;
+
+/**
+ * Heuristic rug-risk score for a token from its DexScreener pairs.
+ *
+ * Each factor adds points for a warning sign: thin liquidity, a young pair,
+ * FDV far above liquidity, one-sided trading, little activity, a single
+ * pool, missing socials and websites, paid boosts and no paid profile. The
+ * score is the sum, capped at 100. It is a screening aid, not a verdict.
+ */
+export function scoreTokenRisk(
+  input: DexScreenerRiskInput,
+  formatters: Formatters
+): DexScreenerRiskAssessment {
+  const factors: DexScreenerRiskFactor[] = [];
+  const add = (id: DexScreenerRiskFactor['id'], points: number, reason: string) =>
+    factors.push({ id, points, reason });
+
+  const mainPair = getMainPair(input.pairs);
+  if (!mainPair) {
+    return {
+      score: 100,
+      level: 'critical',
+      factors: [{ id: 'liquidity', points: 100, reason: 'No trading pairs found' }],
+    };
+  }
+
+  const liquidity = input.pairs.reduce((total, pair) => total + (pair.liquidity?.usd || 0), 0);
+  if (liquidity === 0) {
+    add('liquidity', 35, 'No reported USD liquidity');
+  } else if (liquidity < 10_000) {
+    add('liquidity', 30, `Very low liquidity (${formatters.formatUsdValue(liquidity)})`);
+  } else if (liquidity < 50_000) {
+    add('liquidity', 20, `Low liquidity (${formatters.formatUsdValue(liquidity)})`);
+  } else if (liquidity < 250_000) {
+    add('liquidity', 10, `Modest liquidity (${formatters.formatUsdValue(liquidity)})`);
+  }
+
+  const createdAt = input.pairs
+    .map((pair) => pair.pairCreatedAt)
+    .filter((time): time is number => typeof time === 'number');
+  const now = input.now ?? Date.now();
+  if (createdAt.length === 0) {
+    add('age', 5, 'Pair creation time unknown');
+  } else {
+    const age = now - Math.min(...createdAt);
+    if (age < DAY) {
+      const hours = Math.max(1, Math.floor(age / 3600000));
+      add('age', 20, `Oldest pair is less than a day old (${hours}h)`);
+    } else if (age < 7 * DAY) {
+      add('age', 10, `Oldest pair is less than a week old (${Math.floor(age / DAY)}d)`);
+    }
+  }
+
+  const fdv = mainPair.fdv ?? mainPair.marketCap;
+  if (fdv && liquidity > 0) {
+    const ratio = fdv / liquidity;
+    if (ratio > 100) {
+      add('fdv_liquidity', 15, `FDV is ${Math.round(ratio)}x liquidity`);
+    } else if (ratio > 30) {
+      add('fdv_liquidity', 8, `FDV is ${Math.round(ratio)}x liquidity`);
+    }
+  }
+
+  const { buys, sells } = input.pairs.reduce(
+    (totals, pair) => ({
+      buys: totals.buys + (pair.txns?.h24?.buys || 0),
+      sells: totals.sells + (pair.txns?.h24?.sells || 0),
+    }),
+    { buys: 0, sells: 0 }
+  );
+  const txns = buys + sells;
+  if (txns < 10) {
+    add('low_activity', 10, `Only ${txns} transactions in 24h`);
+  } else if (sells / txns > 0.7) {
+    add('sell_pressure', 15, `${Math.round((sells / txns) * 100)}% of 24h transactions are sells`);
+  } else if (buys / txns > 0.9) {
+    // Almost nobody selling can mean nobody is able to
+    add('buy_only', 10, `${Math.round((buys / txns) * 100)}% of 24h transactions are buys`);
+  }
+
+  if (input.pairs.length === 1) {
+    add('single_pair', 5, 'Trades in a single pool');
+  }
+
+  const hasSocials = input.pairs.some((pair) => (pair.info?.socials?.length || 0) > 0);
+  const hasWebsites = input.pairs.some((pair) => (pair.info?.websites?.length || 0) > 0);
+  if (!hasSocials && !hasWebsites) {
+    add('socials', 15, 'No socials or website listed');
+  } else if (!hasSocials || !hasWebsites) {
+    add('socials', 5, hasSocials ? 'No website listed' : 'No socials listed');
+  }
+
+  const boosts = Math.max(0, ...input.pairs.map((pair) => pair.boosts?.active || 0));
+  if (boosts > 0) {
+    add('boosted', 5, `Paid boosts active (${boosts})`);
+  }
+
+  if (input.paidProfile === false) {
+    add('no_profile', 5, 'No paid DexScreener profile');
+  }
+
+  const score = Math.min(100, factors.reduce((total, factor) => total + factor.points, 0));
+  return { score, level: getRiskLevel(score), factors };
+}
+
+/**
+ * Score a token's risk, looking up whether it has a paid profile. The score
+ * is still computed when the order lookup fails, without the profile factor.
+ */
+export async function assessTokenRisk(
+  service: DexScreenerService,
+  pairs: DexScreenerPair[],
+  options: DexScreenerRequestOptions = {}
+): Promise<DexScreenerRiskAssessment> {
+  const mainPair = getMainPair(pairs);
+  let paidProfile: boolean | undefined;
+  if (mainPair?.baseToken.address) {
+    const orders = await service.checkOrderStatus(
+      mainPair.chainId,
+      mainPair.baseToken.address,
+      options
+    );
+    if (orders.success && orders.data) {
+      paidProfile = orders.data.some(
+        (order) =>
+          order.type === 'tokenProfile' &&
+          (order.status === 'approved' || order.status === 'completed')
+      );
+    }
+  }
+  return scoreTokenRisk({ pairs, paidProfile }, service);
+}
+
+/**
+ * One-line summary of an assessment, e.g. "🟠 62/100 (high)"
+ */
+export function formatRiskScore(assessment: DexScreenerRiskAssessment): string {
+  const icons: Record<DexScreenerRiskLevel, string> = {
+    low: '🟢',
+    medium: '🟡',
+    high: '🟠',
+    critical: '🔴',
+  };
+  return `${icons[assessment.level]} ${assessment.score}/100 (${assessment.level})`;
+}
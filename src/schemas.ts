@@ -0,0 +1,307 @@
+import {
+  DexScreenerPair,
+  DexScreenerProfile,
+  DexScreenerBoostedToken,
+  DexScreenerOrder,
+  DexScreenerTokenInfo,
+} from './types';
+import { DexScreenerApiError, createError } from './errors';
+
+const WINDOWS = ['m5', 'h1', 'h6', 'h24'] as const;
+
+export interface SchemaResult<T> {
+  items: T[];
+  warnings: string[];
+}
+
+/**
+ * Parses a single raw entry. Returns null when the entry is unusable and
+ * records the path of every field that was present but invalid in `issues`.
+ */
+type EntryParser<T> = (raw: any, issues: Set<string>) => T | null;
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toNumber(value: unknown, path: string, issues: Set<string>, fallback = 0): number {
+  if (value === undefined || value === null) {
+    return fallback;
+  }
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof num === 'number' && Number.isFinite(num)) {
+    return num;
+  }
+  issues.add(path);
+  return fallback;
+}
+
+function toOptionalNumber(value: unknown, path: string, issues: Set<string>): number | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof num === 'number' && Number.isFinite(num)) {
+    return num;
+  }
+  issues.add(path);
+  return undefined;
+}
+
+function toText(value: unknown, path: string, issues: Set<string>, fallback = ''): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return String(value);
+  }
+  issues.add(path);
+  return fallback;
+}
+
+function toOptionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function parseLinks<T extends { url: string }>(value: unknown, path: string, issues: Set<string>): T[] | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (!Array.isArray(value)) {
+    issues.add(path);
+    return undefined;
+  }
+  return value.filter((link) => isRecord(link) && typeof link.url === 'string') as T[];
+}
+
+function parseTokenInfo(raw: any, path: string, issues: Set<string>): DexScreenerTokenInfo {
+  const token = isRecord(raw) ? raw : {};
+  if (!isRecord(raw)) {
+    issues.add(path);
+  }
+  return {
+    ...token,
+    address: toText(token.address, `${path}.address`, issues),
+    name: toText(token.name, `${path}.name`, issues),
+    symbol: toText(token.symbol, `${path}.symbol`, issues),
+  } as DexScreenerTokenInfo;
+}
+
+/**
+ * Validate and normalize a pair. Pairs without a chain or base token are
+ * dropped; windows DexScreener has no data for (common on new pairs) are
+ * coerced to zero without being reported as drift.
+ */
+export const parsePair: EntryParser<DexScreenerPair> = (raw, issues) => {
+  if (!isRecord(raw) || typeof raw.chainId !== 'string' || !isRecord(raw.baseToken)) {
+    return null;
+  }
+
+  const rawTxns = isRecord(raw.txns) ? raw.txns : {};
+  const rawVolume = isRecord(raw.volume) ? raw.volume : {};
+  const rawPriceChange = isRecord(raw.priceChange) ? raw.priceChange : {};
+
+  const txns = {} as DexScreenerPair['txns'];
+  const volume = {} as DexScreenerPair['volume'];
+  const priceChange = {} as DexScreenerPair['priceChange'];
+  for (const window of WINDOWS) {
+    const windowTxns = rawTxns[window];
+    if (!isRecord(windowTxns) && windowTxns !== undefined && windowTxns !== null) {
+      issues.add(`txns.${window}`);
+    }
+    txns[window] = {
+      buys: toNumber(windowTxns?.buys, `txns.${window}.buys`, issues),
+      sells: toNumber(windowTxns?.sells, `txns.${window}.sells`, issues),
+    };
+    volume[window] = toNumber(rawVolume[window], `volume.${window}`, issues);
+    priceChange[window] = toNumber(rawPriceChange[window], `priceChange.${window}`, issues);
+  }
+
+  const pairAddress = toText(raw.pairAddress, 'pairAddress', issues);
+
+  const pair: DexScreenerPair = {
+    ...raw,
+    chainId: raw.chainId,
+    dexId: toText(raw.dexId, 'dexId', issues, 'unknown'),
+    url: toText(raw.url, 'url', issues, `https://dexscreener.com/${raw.chainId}/${pairAddress}`),
+    pairAddress,
+    baseToken: parseTokenInfo(raw.baseToken, 'baseToken', issues),
+    quoteToken: parseTokenInfo(raw.quoteToken, 'quoteToken', issues),
+    priceNative: toText(raw.priceNative, 'priceNative', issues, '0'),
+    priceUsd: raw.priceUsd === undefined || raw.priceUsd === null
+      ? undefined
+      : toText(raw.priceUsd, 'priceUsd', issues),
+    txns,
+    volume,
+    priceChange,
+    fdv: toOptionalNumber(raw.fdv, 'fdv', issues),
+    marketCap: toOptionalNumber(raw.marketCap, 'marketCap', issues),
+    pairCreatedAt: toOptionalNumber(raw.pairCreatedAt, 'pairCreatedAt', issues),
+  };
+
+  if (raw.labels !== undefined) {
+    pair.labels = Array.isArray(raw.labels)
+      ? raw.labels.filter((label: unknown) => typeof label === 'string')
+      : [];
+  }
+
+  if (isRecord(raw.liquidity)) {
+    pair.liquidity = {
+      usd: toOptionalNumber(raw.liquidity.usd, 'liquidity.usd', issues),
+      base: toNumber(raw.liquidity.base, 'liquidity.base', issues),
+      quote: toNumber(raw.liquidity.quote, 'liquidity.quote', issues),
+    };
+  } else if (raw.liquidity !== undefined) {
+    issues.add('liquidity');
+    delete pair.liquidity;
+  }
+
+  if (isRecord(raw.info)) {
+    pair.info = {
+      imageUrl: toOptionalString(raw.info.imageUrl),
+      websites: parseLinks(raw.info.websites, 'info.websites', issues),
+      socials: parseLinks(raw.info.socials, 'info.socials', issues),
+    };
+  } else if (raw.info !== undefined) {
+    issues.add('info');
+    delete pair.info;
+  }
+
+  if (isRecord(raw.boosts)) {
+    pair.boosts = { active: toNumber(raw.boosts.active, 'boosts.active', issues) };
+  } else if (raw.boosts !== undefined) {
+    issues.add('boosts');
+    delete pair.boosts;
+  }
+
+  return pair;
+};
+
+/**
+ * Validate and normalize a token profile
+ */
+export const parseProfile: EntryParser<DexScreenerProfile> = (raw, issues) => {
+  if (!isRecord(raw) || typeof raw.chainId !== 'string' || typeof raw.tokenAddress !== 'string') {
+    return null;
+  }
+
+  return {
+    ...raw,
+    url: toText(raw.url, 'url', issues),
+    chainId: raw.chainId,
+    tokenAddress: raw.tokenAddress,
+    description: toOptionalString(raw.description),
+    links: parseLinks(raw.links, 'links', issues),
+  } as DexScreenerProfile;
+};
+
+/**
+ * Validate and normalize a boosted token
+ */
+export const parseBoostedToken: EntryParser<DexScreenerBoostedToken> = (raw, issues) => {
+  if (!isRecord(raw) || typeof raw.chainId !== 'string' || typeof raw.tokenAddress !== 'string') {
+    return null;
+  }
+
+  return {
+    ...raw,
+    url: toText(raw.url, 'url', issues),
+    chainId: raw.chainId,
+    tokenAddress: raw.tokenAddress,
+    amount: toNumber(raw.amount, 'amount', issues),
+    totalAmount: toNumber(raw.totalAmount, 'totalAmount', issues),
+    description: toOptionalString(raw.description),
+    links: parseLinks(raw.links, 'links', issues),
+  } as DexScreenerBoostedToken;
+};
+
+/**
+ * Validate and normalize an order
+ */
+export const parseOrder: EntryParser<DexScreenerOrder> = (raw, issues) => {
+  if (!isRecord(raw) || typeof raw.type !== 'string' || typeof raw.status !== 'string') {
+    return null;
+  }
+
+  return {
+    ...raw,
+    type: raw.type,
+    status: raw.status,
+    paymentTimestamp: toNumber(raw.paymentTimestamp, 'paymentTimestamp', issues),
+  };
+};
+
+/**
+ * Run a parser over a list payload. Invalid entries are dropped and schema
+ * drift is returned as warnings rather than thrown.
+ */
+function parseList<T>(raw: unknown, parser: EntryParser<T>, context: string, noun: string): SchemaResult<T> {
+  const warnings: string[] = [];
+
+  if (raw === undefined || raw === null) {
+    return { items: [], warnings };
+  }
+
+  if (!Array.isArray(raw)) {
+    warnings.push(`${context}: expected a list of ${noun}, got ${typeof raw}`);
+    return { items: [], warnings };
+  }
+
+  const items: T[] = [];
+  const coerced = new Set<string>();
+  let dropped = 0;
+  let coercedEntries = 0;
+
+  for (const entry of raw) {
+    const issues = new Set<string>();
+    const item = parser(entry, issues);
+    if (item === null) {
+      dropped++;
+      continue;
+    }
+    if (issues.size > 0) {
+      coercedEntries++;
+      issues.forEach((path) => coerced.add(path));
+    }
+    items.push(item);
+  }
+
+  if (dropped > 0) {
+    warnings.push(`${context}: dropped ${dropped} invalid ${noun}`);
+  }
+  if (coercedEntries > 0) {
+    warnings.push(
+      `${context}: ${coercedEntries} ${noun} had missing or invalid fields (${[...coerced].sort().join(', ')})`
+    );
+  }
+
+  return { items, warnings };
+}
+
+/**
+ * Ensure an endpoint returned a JSON object before reading fields from it
+ */
+export function expectObject(raw: unknown, endpoint: string): Record<string, any> {
+  if (!isRecord(raw)) {
+    throw new DexScreenerApiError(
+      createError('MALFORMED_RESPONSE', `Unexpected response payload from ${endpoint}`, { endpoint })
+    );
+  }
+  return raw;
+}
+
+export function parsePairs(raw: unknown, context: string): SchemaResult<DexScreenerPair> {
+  return parseList(raw, parsePair, context, 'pairs');
+}
+
+export function parseProfiles(raw: unknown, context: string): SchemaResult<DexScreenerProfile> {
+  return parseList(raw, parseProfile, context, 'profiles');
+}
+
+export function parseBoostedTokens(raw: unknown, context: string): SchemaResult<DexScreenerBoostedToken> {
+  return parseList(raw, parseBoostedToken, context, 'boosted tokens');
+}
+
+export function parseOrders(raw: unknown, context: string): SchemaResult<DexScreenerOrder> {
+  return parseList(raw, parseOrder, context, 'orders');
+}
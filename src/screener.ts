@@ -0,0 +1,318 @@
+import {
+  DexScreenerPair,
+  DexScreenerScreenerCondition,
+  DexScreenerScreenerOperand,
+  DexScreenerScreenerOperator,
+  DexScreenerScreenerQuery,
+} from './types';
+
+type FieldKind = 'number' | 'text' | 'age';
+
+interface FieldDefinition {
+  kind: FieldKind;
+  get: (pair: DexScreenerPair, now: number) => number | string | undefined;
+}
+
+const WINDOWS = ['m5', 'h1', 'h6', 'h24'] as const;
+const WINDOW_SUFFIXES: Record<(typeof WINDOWS)[number], string> = {
+  m5: '5m',
+  h1: '1h',
+  h6: '6h',
+  h24: '24h',
+};
+
+const FIELDS: Record<string, FieldDefinition> = {
+  chain: { kind: 'text', get: (pair) => pair.chainId },
+  dex: { kind: 'text', get: (pair) => pair.dexId },
+  symbol: { kind: 'text', get: (pair) => pair.baseToken.symbol },
+  quote: { kind: 'text', get: (pair) => pair.quoteToken.symbol },
+  price: {
+    kind: 'number',
+    get: (pair) => (pair.priceUsd ? parseFloat(pair.priceUsd) : undefined),
+  },
+  liq: { kind: 'number', get: (pair) => pair.liquidity?.usd },
+  mcap: { kind: 'number', get: (pair) => pair.marketCap },
+  fdv: { kind: 'number', get: (pair) => pair.fdv },
+  boosts: { kind: 'number', get: (pair) => pair.boosts?.active ?? 0 },
+  age: {
+    kind: 'age',
+    get: (pair, now) => (pair.pairCreatedAt ? now - pair.pairCreatedAt : undefined),
+  },
+};
+
+for (const window of WINDOWS) {
+  const suffix = WINDOW_SUFFIXES[window];
+  FIELDS[`vol${suffix}`] = { kind: 'number', get: (pair) => pair.volume?.[window] };
+  FIELDS[`chg${suffix}`] = { kind: 'number', get: (pair) => pair.priceChange?.[window] };
+  FIELDS[`buys${suffix}`] = { kind: 'number', get: (pair) => pair.txns?.[window]?.buys };
+  FIELDS[`sells${suffix}`] = { kind: 'number', get: (pair) => pair.txns?.[window]?.sells };
+  FIELDS[`txns${suffix}`] = {
+    kind: 'number',
+    get: (pair) =>
+      pair.txns?.[window] ? pair.txns[window].buys + pair.txns[window].sells : undefined,
+  };
+}
+
+const ALIASES: Record<string, string> = {
+  liquidity: 'liq',
+  vol: 'vol24h',
+  volume: 'vol24h',
+  chg: 'chg24h',
+  change: 'chg24h',
+  buys: 'buys24h',
+  sells: 'sells24h',
+  txns: 'txns24h',
+  marketcap: 'mcap',
+  mc: 'mcap',
+};
+
+/** Field names the screener understands, for help and error messages */
+export const SCREENER_FIELDS = Object.keys(FIELDS);
+
+const NUMBER_SUFFIXES: Record<string, number> = { k: 1e3, m: 1e6, b: 1e9 };
+const AGE_UNITS: Record<string, number> = { m: 60_000, h: 3_600_000, d: 86_400_000 };
+
+const TERM = /^([a-z][a-z0-9]*)(?:\/([a-z][a-z0-9]*))?(>=|<=|!=|=|>|<)(.*)$/i;
+
+/**
+ * Thrown when a screener query can't be parsed. Lists every problem found,
+ * so they can all be fixed at once.
+ */
+export class DexScreenerQueryError extends Error {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(problems.join('; '));
+    this.name = 'DexScreenerQueryError';
+    this.problems = problems;
+  }
+}
+
+function resolveField(name: string): string | undefined {
+  const field = ALIASES[name.toLowerCase()] || name.toLowerCase();
+  return FIELDS[field] ? field : undefined;
+}
+
+function parseNumber(value: string): number | undefined {
+  const match = value.match(/^(-?\d+(?:\.\d+)?)([kmb])?%?$/i);
+  return match ? parseFloat(match[1]) * (NUMBER_SUFFIXES[match[2]?.toLowerCase()] || 1) : undefined;
+}
+
+function parseAge(value: string): number | undefined {
+  const match = value.match(/^(\d+(?:\.\d+)?)([mhd])?$/i);
+  // A bare number is in hours
+  return match ? parseFloat(match[1]) * AGE_UNITS[match[2]?.toLowerCase() || 'h'] : undefined;
+}
+
+/**
+ * Parse an operand: a numeric field, or a ratio of two numeric fields
+ */
+function parseOperand(
+  term: string,
+  name: string,
+  divisorName: string | undefined,
+  problems: string[]
+): DexScreenerScreenerOperand | undefined {
+  const field = resolveField(name);
+  const divisor = divisorName ? resolveField(divisorName) : undefined;
+  const unknown = [name, divisorName].filter(
+    (candidate): candidate is string => !!candidate && !resolveField(candidate)
+  );
+  if (!field || (divisorName && !divisor)) {
+    problems.push(
+      `Unknown field "${unknown.join('", "')}" in "${term}". Known fields: ${SCREENER_FIELDS.join(', ')}`
+    );
+    return undefined;
+  }
+  if (divisorName && (FIELDS[field!].kind !== 'number' || FIELDS[divisor!].kind !== 'number')) {
+    problems.push(`Only numeric fields can be divided, in "${term}"`);
+    return undefined;
+  }
+  return divisor ? { field: field!, divisor } : { field: field! };
+}
+
+/**
+ * Parse a screener query such as
+ * "chain=base liq>50k vol24h>1m age<24h buys/sells>1.5 dex=aerodrome sort=vol1h limit=10".
+ *
+ * Terms are whitespace-separated `field op value` conditions, all of which
+ * must hold. Numbers accept k/m/b suffixes, ages accept m/h/d units (hours
+ * by default) and text fields accept comma-separated alternatives
+ * (`dex=aerodrome,uniswap`). `sort=field` ranks highest first
+ * (`sort=field:asc` for lowest first) and `limit=n` caps the results.
+ * Throws a DexScreenerQueryError listing every problem found.
+ */
+export function parseScreenerQuery(text: string): DexScreenerScreenerQuery {
+  const query: DexScreenerScreenerQuery = { conditions: [] };
+  const problems: string[] = [];
+  const terms = text
+    .split(/\s+/)
+    .filter((term) => term && term.toLowerCase() !== 'and');
+
+  if (terms.length === 0) {
+    throw new DexScreenerQueryError(['The query is empty. Example: "chain=base liq>50k vol24h>1m"']);
+  }
+
+  for (const term of terms) {
+    const match = term.match(TERM);
+    if (!match) {
+      problems.push(`Expected a condition like "liq>50k", got "${term}"`);
+      continue;
+    }
+    const [, name, divisorName, operator, rawValue] = match;
+    const value = rawValue.trim();
+    if (!value) {
+      problems.push(`Missing value in "${term}"`);
+      continue;
+    }
+
+    if (name.toLowerCase() === 'sort' && operator === '=') {
+      const [sortField, direction = 'desc'] = value.split(':');
+      const [sortName, sortDivisor] = sortField.split('/');
+      if (!['asc', 'desc'].includes(direction.toLowerCase())) {
+        problems.push(`Sort direction must be asc or desc, in "${term}"`);
+        continue;
+      }
+      const operand = parseOperand(term, sortName, sortDivisor, problems);
+      if (operand && FIELDS[operand.field].kind === 'text') {
+        problems.push(`Can't sort by text field ${operand.field}, in "${term}"`);
+      } else if (operand) {
+        query.sort = { ...operand, direction: direction.toLowerCase() as 'asc' | 'desc' };
+      }
+      continue;
+    }
+
+    if (name.toLowerCase() === 'limit' && operator === '=') {
+      const limit = parseInt(value);
+      if (!/^\d+$/.test(value) || limit < 1) {
+        problems.push(`Limit must be a positive whole number, in "${term}"`);
+      } else {
+        query.limit = limit;
+      }
+      continue;
+    }
+
+    const operand = parseOperand(term, name, divisorName, problems);
+    if (!operand) {
+      continue;
+    }
+
+    const kind = operand.divisor ? 'number' : FIELDS[operand.field].kind;
+    const condition = { ...operand, operator: operator as DexScreenerScreenerOperator, source: term };
+    if (kind === 'text') {
+      if (operator !== '=' && operator !== '!=') {
+        problems.push(`${operand.field} is text, so only = and != work, in "${term}"`);
+        continue;
+      }
+      query.conditions.push({ ...condition, value: value.toLowerCase().split(',').filter(Boolean) });
+      continue;
+    }
+
+    const number = kind === 'age' ? parseAge(value) : parseNumber(value);
+    if (number === undefined) {
+      problems.push(
+        kind === 'age'
+          ? `Invalid age "${value}" in "${term}"; use a duration like 30m, 24h or 7d`
+          : `Invalid number "${value}" in "${term}"; use a number like 1.5, 50k or 2m`
+      );
+      continue;
+    }
+    query.conditions.push({ ...condition, value: number });
+  }
+
+  if (problems.length > 0) {
+    throw new DexScreenerQueryError(problems);
+  }
+  return query;
+}
+
+/**
+ * Value of an operand for a pair; undefined when DexScreener doesn't report it
+ */
+function getOperandValue(
+  pair: DexScreenerPair,
+  operand: DexScreenerScreenerOperand,
+  now: number
+): number | string | undefined {
+  const value = FIELDS[operand.field].get(pair, now);
+  if (!operand.divisor || typeof value !== 'number') {
+    return value;
+  }
+  const divisor = FIELDS[operand.divisor].get(pair, now);
+  if (typeof divisor !== 'number') {
+    return undefined;
+  }
+  if (divisor === 0) {
+    // Anything over nothing (e.g. buys with no sells) is unbounded
+    return value > 0 ? Infinity : undefined;
+  }
+  return value / divisor;
+}
+
+function compare(value: number, operator: DexScreenerScreenerOperator, target: number): boolean {
+  switch (operator) {
+    case '=':
+      return value === target;
+    case '!=':
+      return value !== target;
+    case '>':
+      return value > target;
+    case '>=':
+      return value >= target;
+    case '<':
+      return value < target;
+    case '<=':
+      return value <= target;
+  }
+}
+
+/**
+ * Whether a pair meets one condition. Pairs missing the field never match.
+ */
+export function matchesCondition(
+  pair: DexScreenerPair,
+  condition: DexScreenerScreenerCondition,
+  now = Date.now()
+): boolean {
+  const value = getOperandValue(pair, condition, now);
+  if (value === undefined) {
+    return false;
+  }
+  if (Array.isArray(condition.value)) {
+    const matches = condition.value.includes(String(value).toLowerCase());
+    return condition.operator === '!=' ? !matches : matches;
+  }
+  return typeof value === 'number' && compare(value, condition.operator, condition.value);
+}
+
+/**
+ * Keep the pairs that meet every condition, sorted by the query's sort
+ * (24h volume, highest first, by default) and capped at its limit
+ */
+export function screenPairs(
+  pairs: DexScreenerPair[],
+  query: DexScreenerScreenerQuery,
+  now = Date.now()
+): DexScreenerPair[] {
+  const sort = query.sort || { field: 'vol24h', direction: 'desc' };
+  const sign = sort.direction === 'asc' ? 1 : -1;
+  const sortValue = (pair: DexScreenerPair) => {
+    const value = getOperandValue(pair, sort, now);
+    return typeof value === 'number' ? value : undefined;
+  };
+
+  const matched = pairs
+    .filter((pair) => query.conditions.every((condition) => matchesCondition(pair, condition, now)))
+    .map((pair) => ({ pair, value: sortValue(pair) }))
+    // Pairs without the sort value go last either way
+    .sort((a, b) =>
+      a.value === undefined
+        ? 1
+        : b.value === undefined
+          ? -1
+          : sign * (a.value - b.value) || 0
+    )
+    .map(({ pair }) => pair);
+
+  return query.limit ? matched.slice(0, query.limit) : matched;
+}
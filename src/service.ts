@@ -3,30 +3,150 @@ import axios, { AxiosInstance } from 'axios';
 import {
   DexScreenerPair,
   DexScreenerProfile,
+  DexScreenerBoostedToken,
+  DexScreenerOrder,
   DexScreenerSearchParams,
   DexScreenerTokenParams,
   DexScreenerPairParams,
+  DexScreenerPairsParams,
+  DexScreenerPairsResult,
+  DexScreenerTokenResult,
+  DexScreenerTokenBatchResult,
+  DexScreenerError,
   DexScreenerTrendingParams,
+  DexScreenerAnomaly,
+  DexScreenerAnomalyParams,
   DexScreenerChainParams,
+  DexScreenerChainPairsResult,
+  DexScreenerScreenParams,
+  DexScreenerScreenResult,
+  DexScreenerScreenerQuery,
   DexScreenerNewPairsParams,
   DexScreenerServiceResponse,
   DexScreenerConfig,
+  DexScreenerEndpointFamily,
+  DexScreenerRequestOptions,
+  DexScreenerResponseMeta,
+  DexScreenerRateLimitBudget,
+  DexScreenerRateLimitGroup,
 } from './types';
+import { ResponseCache } from './cache';
+import { RateLimiter } from './rate-limiter';
+import { withRetry } from './retry';
+import { DexScreenerApiError, classifyError, createError } from './errors';
+import {
+  expectObject,
+  parsePairs,
+  parseProfiles,
+  parseBoostedTokens,
+  parseOrders,
+} from './schemas';
+import { isAddressForChain } from './address';
+import { DEFAULT_TRENDING_SEEDS, rankTrendingPairs } from './trending';
+import { detectAnomalies } from './anomalies';
+import {
+  DEFAULT_NEW_PAIR_MAX_AGE,
+  filterNewPairs,
+  getChainSeedQueries,
+  getPairKey,
+  rankChainPairs,
+} from './discovery';
+import { parseScreenerQuery, screenPairs } from './screener';
+import {
+  chunkAddresses,
+  getEndpointFamily,
+  getRateLimitGroup,
+  getRequestKey,
+} from './endpoints';
+
+/**
+ * Combine the metadata of several upstream requests into one.
+ * Data is only as fresh as the oldest request it was built from.
+ */
+function combineMeta(metas: DexScreenerResponseMeta[]): DexScreenerResponseMeta {
+  return {
+    cached: metas.every((meta) => meta.cached),
+    fetchedAt: Math.min(...metas.map((meta) => meta.fetchedAt)),
+    attempts: metas.reduce((total, meta) => total + meta.attempts, 0),
+    ...withWarnings(metas.flatMap((meta) => meta.warnings || [])),
+  };
+}
+
+/**
+ * Attach schema warnings to response metadata, omitting the field when there are none
+ */
+function withWarnings(warnings: string[]): Pick<DexScreenerResponseMeta, 'warnings'> {
+  return warnings.length > 0 ? { warnings } : {};
+}
+
+/**
+ * Attach a parsed payload's schema warnings to its response metadata. Drift
+ * is logged when the payload is fetched, not again on every cache hit.
+ */
+function withSchemaWarnings(
+  meta: DexScreenerResponseMeta,
+  warnings: string[]
+): DexScreenerResponseMeta {
+  if (!meta.cached) {
+    warnings.forEach((warning) => console.warn(`DexScreener schema drift - ${warning}`));
+  }
+  return { ...meta, ...withWarnings(warnings) };
+}
+
+/**
+ * Metadata for a failed request, including how many attempts were made
+ */
+function failureMeta(error: any): DexScreenerResponseMeta {
+  return {
+    cached: false,
+    fetchedAt: Date.now(),
+    attempts: error?.attempts ?? 0,
+  };
+}
 
 export class DexScreenerService extends Service {
   public serviceType = 'dexscreener' as const;
   private api: AxiosInstance;
   private dexConfig: DexScreenerConfig;
-  private lastRequestTime = 0;
+  private cache: ResponseCache;
+  private rateLimiter: RateLimiter;
+  private inFlight = new Map<string, Promise<{ data: any; meta: DexScreenerResponseMeta }>>();
+  // Pools already returned by getNewPairs, per seen key, with their creation
+  // time and how long they can still be returned for
+  private seenPairs = new Map<string, { horizon: number; pairs: Map<string, number> }>();
   public capabilityDescription = 'Provides DEX analytics and token information from DexScreener';
 
   constructor(runtime: IAgentRuntime) {
     super();
     this.dexConfig = {
       apiUrl: runtime.getSetting('DEXSCREENER_API_URL') || 'https://api.dexscreener.com',
-      rateLimitDelay: parseInt(runtime.getSetting('DEXSCREENER_RATE_LIMIT_DELAY') || '100'),
+      rateLimits: {
+        pairs: {
+          requestsPerMinute: parseInt(runtime.getSetting('DEXSCREENER_RATE_LIMIT_PAIRS_RPM') || '300'),
+          burst: parseInt(runtime.getSetting('DEXSCREENER_RATE_LIMIT_PAIRS_BURST') || '15'),
+        },
+        profiles: {
+          requestsPerMinute: parseInt(runtime.getSetting('DEXSCREENER_RATE_LIMIT_PROFILES_RPM') || '60'),
+          burst: parseInt(runtime.getSetting('DEXSCREENER_RATE_LIMIT_PROFILES_BURST') || '5'),
+        },
+      },
+      cacheTtl: {
+        pairs: parseInt(runtime.getSetting('DEXSCREENER_CACHE_TTL_PAIRS') || '15000'),
+        profiles: parseInt(runtime.getSetting('DEXSCREENER_CACHE_TTL_PROFILES') || '60000'),
+        boosts: parseInt(runtime.getSetting('DEXSCREENER_CACHE_TTL_BOOSTS') || '60000'),
+        orders: parseInt(runtime.getSetting('DEXSCREENER_CACHE_TTL_ORDERS') || '30000'),
+      },
+      retry: {
+        maxAttempts: parseInt(runtime.getSetting('DEXSCREENER_RETRY_MAX_ATTEMPTS') || '3'),
+        baseDelay: parseInt(runtime.getSetting('DEXSCREENER_RETRY_BASE_DELAY') || '500'),
+        maxDelay: parseInt(runtime.getSetting('DEXSCREENER_RETRY_MAX_DELAY') || '10000'),
+      },
+      cacheMaxEntries: parseInt(runtime.getSetting('DEXSCREENER_CACHE_MAX_ENTRIES') || '500'),
     };
 
+    this.cache = new ResponseCache(this.dexConfig.cacheMaxEntries!);
+    this.rateLimiter = new RateLimiter(this.dexConfig.rateLimits!);
+
     this.api = axios.create({
       baseURL: this.dexConfig.apiUrl,
       timeout: 10000,
@@ -38,45 +158,115 @@ export class DexScreenerService extends Service {
   }
 
   async stop(): Promise<void> {
-    // Cleanup if needed
+    this.cache.clear();
+    this.rateLimiter.clear();
+    this.seenPairs.clear();
     console.log('DexScreener service stopped');
   }
 
   /**
-   * Ensure rate limiting between requests
+   * Fetch an endpoint, serving it from the response cache while fresh.
+   * Concurrent callers for the same request share a single round-trip.
    */
-  private async rateLimit(): Promise<void> {
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequestTime;
-    if (timeSinceLastRequest < this.dexConfig.rateLimitDelay!) {
-      await new Promise((resolve) =>
-        setTimeout(resolve, this.dexConfig.rateLimitDelay! - timeSinceLastRequest)
-      );
+  private async request<T = any>(
+    path: string,
+    params?: Record<string, any>,
+    options: DexScreenerRequestOptions = {}
+  ): Promise<{ data: T; meta: DexScreenerResponseMeta }> {
+    const key = getRequestKey(path, params);
+
+    if (!options.bypassCache) {
+      const entry = this.cache.get(key);
+      if (entry) {
+        return {
+          data: entry.value,
+          meta: { cached: true, fetchedAt: entry.storedAt, attempts: 0 },
+        };
+      }
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const promise = this.fetchUpstream(key, path, params, options).finally(() => {
+      this.inFlight.delete(key);
+    });
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Perform the upstream request (with retries) and store the response in the cache
+   */
+  private async fetchUpstream(
+    key: string,
+    path: string,
+    params: Record<string, any> | undefined,
+    options: DexScreenerRequestOptions
+  ): Promise<{ data: any; meta: DexScreenerResponseMeta }> {
+    let response: any;
+    let attempts: number;
+    try {
+      ({ result: response, attempts } = await withRetry(async () => {
+        await this.rateLimiter.acquire(getRateLimitGroup(path), options.priority);
+        return params ? await this.api.get(path, { params }) : await this.api.get(path);
+      }, this.dexConfig.retry!));
+    } catch (error: any) {
+      throw new DexScreenerApiError(classifyError(error, 'Request failed', path), error?.attempts ?? 1);
     }
-    this.lastRequestTime = Date.now();
+
+    const family = getEndpointFamily(path);
+    this.cache.set(key, response.data, family, this.dexConfig.cacheTtl![family]);
+
+    return { data: response.data, meta: { cached: false, fetchedAt: Date.now(), attempts } };
+  }
+
+  /**
+   * Report the remaining request budget for each endpoint group
+   */
+  getRateLimitBudget(): Record<DexScreenerRateLimitGroup, DexScreenerRateLimitBudget> {
+    return this.rateLimiter.getBudget();
+  }
+
+  /**
+   * Drop cached responses, either all of them or one endpoint family
+   */
+  invalidateCache(family?: DexScreenerEndpointFamily): void {
+    this.cache.clear(family);
+  }
+
+  /**
+   * Drop the cached response for a single request
+   */
+  invalidateCacheEntry(path: string, params?: Record<string, any>): boolean {
+    return this.cache.delete(getRequestKey(path, params));
   }
 
   /**
    * Search for tokens/pairs
    */
   async search(
-    params: DexScreenerSearchParams
+    params: DexScreenerSearchParams,
+    options: DexScreenerRequestOptions = {}
   ): Promise<DexScreenerServiceResponse<DexScreenerPair[]>> {
     try {
-      await this.rateLimit();
-      const response = await this.api.get(`/latest/dex/search`, {
-        params: { q: params.query },
-      });
+      const response = await this.request(`/latest/dex/search`, { q: params.query }, options);
+      const payload = expectObject(response.data, '/latest/dex/search');
+      const pairs = parsePairs(payload.pairs, 'search');
 
       return {
         success: true,
-        data: response.data.pairs || [],
+        data: pairs.items,
+        meta: withSchemaWarnings(response.meta, pairs.warnings),
       };
     } catch (error: any) {
       console.error('DexScreener search error:', error);
       return {
         success: false,
-        error: error.response?.data?.message || error.message || 'Failed to search tokens',
+        error: classifyError(error, 'Failed to search tokens'),
+        meta: failureMeta(error),
       };
     }
   }
@@ -85,206 +275,457 @@ export class DexScreenerService extends Service {
    * Get token pairs by token address
    */
   async getTokenPairs(
-    params: DexScreenerTokenParams
+    params: DexScreenerTokenParams,
+    options: DexScreenerRequestOptions = {}
   ): Promise<DexScreenerServiceResponse<DexScreenerPair[]>> {
     try {
-      await this.rateLimit();
-      const response = await this.api.get(`/latest/dex/tokens/${params.tokenAddress}`);
+      const endpoint = `/latest/dex/tokens/${params.tokenAddress}`;
+      const response = await this.request(endpoint, undefined, options);
+      const pairs = parsePairs(expectObject(response.data, endpoint).pairs, 'getTokenPairs');
 
       return {
         success: true,
-        data: response.data.pairs || [],
+        data: pairs.items,
+        meta: withSchemaWarnings(response.meta, pairs.warnings),
       };
     } catch (error: any) {
       console.error('DexScreener getTokenPairs error:', error);
       return {
         success: false,
-        error: error.response?.data?.message || error.message || 'Failed to get token pairs',
+        error: classifyError(error, 'Failed to get token pairs'),
+        meta: failureMeta(error),
       };
     }
   }
 
   /**
-   * Get pair by address
+   * Get pair by address, scoped to a chain when one is given
    */
   async getPair(
-    params: DexScreenerPairParams
+    params: DexScreenerPairParams,
+    options: DexScreenerRequestOptions = {}
   ): Promise<DexScreenerServiceResponse<DexScreenerPair>> {
     try {
-      await this.rateLimit();
-      const response = await this.api.get(`/latest/dex/pairs/${params.pairAddress}`);
+      const endpoint = params.chainId
+        ? `/latest/dex/pairs/${params.chainId}/${params.pairAddress}`
+        : `/latest/dex/pairs/${params.pairAddress}`;
+      const response = await this.request(endpoint, undefined, options);
+      const payload = expectObject(response.data, endpoint);
+      const rawPair = payload.pair ?? (Array.isArray(payload.pairs) ? payload.pairs[0] : undefined);
+
+      if (!rawPair) {
+        return {
+          success: false,
+          error: createError('NOT_FOUND', 'Pair not found', { endpoint }),
+          meta: response.meta,
+        };
+      }
 
-      if (!response.data.pair) {
+      const pairs = parsePairs([rawPair], 'getPair');
+      if (pairs.items.length === 0) {
         return {
           success: false,
-          error: 'Pair not found',
+          error: createError('MALFORMED_RESPONSE', 'Pair data is missing required fields', { endpoint }),
+          meta: withSchemaWarnings(response.meta, pairs.warnings),
         };
       }
 
       return {
         success: true,
-        data: response.data.pair,
+        data: pairs.items[0],
+        meta: withSchemaWarnings(response.meta, pairs.warnings),
       };
     } catch (error: any) {
       console.error('DexScreener getPair error:', error);
       return {
         success: false,
-        error: error.response?.data?.message || error.message || 'Failed to get pair',
+        error: classifyError(error, 'Failed to get pair'),
+        meta: failureMeta(error),
       };
     }
   }
 
   /**
-   * Get trending pairs
+   * Get several pairs on one chain, batching up to 30 addresses per request.
+   * Reports which requested addresses DexScreener returned no pair for.
+   */
+  async getPairs(
+    params: DexScreenerPairsParams,
+    options: DexScreenerRequestOptions = {}
+  ): Promise<DexScreenerServiceResponse<DexScreenerPairsResult>> {
+    try {
+      if (params.pairAddresses.length === 0) {
+        return {
+          success: false,
+          error: createError('INVALID_INPUT', 'At least one pair address is required'),
+        };
+      }
+
+      const responses = await Promise.all(
+        chunkAddresses(params.pairAddresses).map(async (addresses) => {
+          const endpoint = `/latest/dex/pairs/${params.chainId}/${addresses.join(',')}`;
+          const response = await this.request(endpoint, undefined, options);
+          const pairs = parsePairs(expectObject(response.data, endpoint).pairs, 'getPairs');
+          return { pairs: pairs.items, meta: withSchemaWarnings(response.meta, pairs.warnings) };
+        })
+      );
+
+      const pairs = responses.flatMap((response) => response.pairs);
+      const found = new Set(pairs.map((pair) => pair.pairAddress.toLowerCase()));
+      const missing = [...new Set(params.pairAddresses)].filter(
+        (address) => !found.has(address.toLowerCase())
+      );
+
+      return {
+        success: true,
+        data: { pairs, missing },
+        meta: combineMeta(responses.map((response) => response.meta)),
+      };
+    } catch (error: any) {
+      console.error('DexScreener getPairs error:', error);
+      return {
+        success: false,
+        error: classifyError(error, 'Failed to get pairs'),
+        meta: failureMeta(error),
+      };
+    }
+  }
+
+  /**
+   * Gather candidate pairs from every feed: top and latest boosts, the
+   * latest token profiles (their tokens' pairs fetched one batch per chain)
+   * and the given search queries. Fails only when every feed failed.
+   */
+  private async gatherCandidatePairs(
+    seeds: string[],
+    chain: string | undefined,
+    options: DexScreenerRequestOptions
+  ): Promise<{ pairs?: DexScreenerPair[]; error?: DexScreenerError; meta: DexScreenerResponseMeta }> {
+    const [topBoosts, latestBoosts, profiles, ...searches] = await Promise.all([
+      this.getTopBoostedTokens(options),
+      this.getLatestBoostedTokens(options),
+      this.getLatestTokenProfiles(options),
+      ...seeds.map((query) => this.search({ query }, options)),
+    ]);
+    const sources = [topBoosts, latestBoosts, profiles, ...searches];
+    const metas = sources.flatMap((source) => (source.meta ? [source.meta] : []));
+
+    if (sources.every((source) => !source.success)) {
+      return { error: sources[0].error, meta: combineMeta(metas) };
+    }
+
+    const tokensByChain = new Map<string, Set<string>>();
+    for (const token of [
+      ...(topBoosts.data || []),
+      ...(latestBoosts.data || []),
+      ...(profiles.data || []),
+    ]) {
+      if (!token.chainId || !token.tokenAddress || (chain && token.chainId.toLowerCase() !== chain)) {
+        continue;
+      }
+      const addresses = tokensByChain.get(token.chainId) || new Set<string>();
+      addresses.add(token.tokenAddress);
+      tokensByChain.set(token.chainId, addresses);
+    }
+
+    const batches = await Promise.all(
+      [...tokensByChain].map(([chainId, addresses]) =>
+        this.getTokenBatch(chainId, [...addresses], options)
+      )
+    );
+    metas.push(...batches.flatMap((batch) => (batch.meta ? [batch.meta] : [])));
+
+    return {
+      pairs: [
+        ...batches.flatMap((batch) => batch.data?.pairs || []),
+        ...searches.flatMap((search) => search.data || []),
+      ],
+      meta: combineMeta(metas),
+    };
+  }
+
+  /**
+   * Rank trending pairs within the requested timeframe. DexScreener has no
+   * trending endpoint, so candidates are gathered from top and latest boosts,
+   * latest token profiles and search seeds, reduced to each token's most
+   * liquid pair and ranked with rankTrendingPairs.
    */
   async getTrending(
-    params: DexScreenerTrendingParams = {}
+    params: DexScreenerTrendingParams = {},
+    options: DexScreenerRequestOptions = {}
   ): Promise<DexScreenerServiceResponse<DexScreenerPair[]>> {
     try {
-      await this.rateLimit();
-
-      // DexScreener doesn't have a direct trending endpoint
-      // We'll use the boosted tokens endpoint as a proxy for trending
-      const response = await this.api.get(`/token-boosts/top/v1`);
-
-      // The boosted tokens response is an array of boosted tokens
-      const boostedTokens = Array.isArray(response.data) ? response.data : [response.data];
-
-      // For each boosted token, we need to get the actual pair data
-      const pairPromises = boostedTokens.slice(0, params.limit || 10).map(async (token) => {
-        try {
-          const pairResponse = await this.api.get(`/tokens/v1/${token.chainId}/${token.tokenAddress}`);
-          return Array.isArray(pairResponse.data) ? pairResponse.data[0] : null;
-        } catch (error) {
-          console.error(`Failed to get pair data for ${token.tokenAddress}:`, error);
-          return null;
+      const timeframe = params.timeframe || '24h';
+      const minLiquidity = params.minLiquidity ?? 5000;
+      const chain = params.chain?.toLowerCase();
+
+      const candidates = await this.gatherCandidatePairs(
+        params.seeds || DEFAULT_TRENDING_SEEDS,
+        chain,
+        options
+      );
+      if (!candidates.pairs) {
+        return { success: false, error: candidates.error, meta: candidates.meta };
+      }
+
+      // Keep each token's most liquid pair
+      const mainPairs = new Map<string, DexScreenerPair>();
+      for (const pair of candidates.pairs) {
+        if ((chain && pair.chainId.toLowerCase() !== chain) || (pair.liquidity?.usd || 0) < minLiquidity) {
+          continue;
         }
-      });
+        const key = `${pair.chainId}:${pair.baseToken.address?.toLowerCase()}`;
+        const existing = mainPairs.get(key);
+        if (!existing || (pair.liquidity?.usd || 0) > (existing.liquidity?.usd || 0)) {
+          mainPairs.set(key, pair);
+        }
+      }
 
-      const pairs = (await Promise.all(pairPromises)).filter(pair => pair !== null);
+      const ranked = rankTrendingPairs([...mainPairs.values()], timeframe, params.mode);
 
       return {
         success: true,
-        data: pairs,
+        data: ranked.slice(0, params.limit || 10).map((entry) => entry.pair),
+        meta: candidates.meta,
       };
     } catch (error: any) {
       console.error('DexScreener getTrending error:', error);
       return {
         success: false,
-        error: error.response?.data?.message || error.message || 'Failed to get trending pairs',
+        error: classifyError(error, 'Failed to get trending pairs'),
+        meta: failureMeta(error),
       };
     }
   }
 
   /**
-   * Get pairs by chain
+   * Scan candidate pairs from search and the boost and profile feeds for
+   * unusual activity (see scorePairAnomaly), most anomalous first
    */
-  async getPairsByChain(
-    params: DexScreenerChainParams
-  ): Promise<DexScreenerServiceResponse<DexScreenerPair[]>> {
+  async getAnomalies(
+    params: DexScreenerAnomalyParams = {},
+    options: DexScreenerRequestOptions = {}
+  ): Promise<DexScreenerServiceResponse<DexScreenerAnomaly[]>> {
     try {
-      await this.rateLimit();
+      const chain = params.chain?.toLowerCase();
+      const candidates = await this.gatherCandidatePairs(
+        params.seeds || DEFAULT_TRENDING_SEEDS,
+        chain,
+        options
+      );
+      if (!candidates.pairs) {
+        return { success: false, error: candidates.error, meta: candidates.meta };
+      }
 
-      // Use search API with chain filter
-      const response = await this.api.get(`/latest/dex/search`, {
-        params: { 
-          q: params.chain, // Search by chain name
-        },
-      });
+      const unique = new Map(
+        candidates.pairs
+          .filter((pair) => !chain || pair.chainId.toLowerCase() === chain)
+          .map((pair) => [getPairKey(pair), pair])
+      );
 
-      let pairs: DexScreenerPair[] = response.data.pairs || [];
-
-      // Filter to only include pairs from the specified chain
-      pairs = pairs.filter(pair => pair.chainId.toLowerCase() === params.chain.toLowerCase());
-
-      // Sort by specified criteria
-      if (params.sortBy) {
-        pairs.sort((a, b) => {
-          switch (params.sortBy) {
-            case 'volume':
-              return (b.volume?.h24 || 0) - (a.volume?.h24 || 0);
-            case 'liquidity':
-              return (b.liquidity?.usd || 0) - (a.liquidity?.usd || 0);
-            case 'priceChange':
-              return (b.priceChange?.h24 || 0) - (a.priceChange?.h24 || 0);
-            case 'txns':
-              return (
-                (b.txns?.h24.buys + b.txns?.h24.sells || 0) -
-                (a.txns?.h24.buys + a.txns?.h24.sells || 0)
-              );
-            default:
-              return 0;
-          }
-        });
+      return {
+        success: true,
+        data: detectAnomalies([...unique.values()], params).slice(0, params.limit || 10),
+        meta: candidates.meta,
+      };
+    } catch (error: any) {
+      console.error('DexScreener getAnomalies error:', error);
+      return {
+        success: false,
+        error: classifyError(error, 'Failed to scan for anomalies'),
+        meta: failureMeta(error),
+      };
+    }
+  }
+
+  /**
+   * Discover a chain's top pairs. The search API has no chain filter, so
+   * candidates are merged from several seed queries (the chain's native and
+   * stable quote tokens, its major DEXes and its name) and the pairs of
+   * boosted and profiled tokens on the chain, then deduplicated, filtered
+   * and sorted.
+   */
+  async discoverChainPairs(
+    params: DexScreenerChainParams,
+    options: DexScreenerRequestOptions = {}
+  ): Promise<DexScreenerServiceResponse<DexScreenerChainPairsResult>> {
+    try {
+      const chainId = params.chain.toLowerCase();
+      const queries = getChainSeedQueries(chainId);
+      const candidates = await this.gatherCandidatePairs(queries, chainId, options);
+      if (!candidates.pairs) {
+        return { success: false, error: candidates.error, meta: candidates.meta };
+      }
+
+      const pairs = rankChainPairs(candidates.pairs, params).slice(0, params.limit || 20);
+
+      return {
+        success: true,
+        data: { chainId, pairs, queries, collectedAt: Date.now() },
+        meta: candidates.meta,
+      };
+    } catch (error: any) {
+      console.error('DexScreener discoverChainPairs error:', error);
+      return {
+        success: false,
+        error: classifyError(error, 'Failed to get pairs by chain'),
+        meta: failureMeta(error),
+      };
+    }
+  }
+
+  /**
+   * Run a screener query (see parseScreenerQuery) over candidate pairs from
+   * search and the boost and profile feeds. Searches are seeded from the
+   * chains, symbols, quote tokens and DEXes the query asks for. A query that
+   * can't be parsed fails with INVALID_INPUT listing every problem.
+   */
+  async screen(
+    params: DexScreenerScreenParams,
+    options: DexScreenerRequestOptions = {}
+  ): Promise<DexScreenerServiceResponse<DexScreenerScreenResult>> {
+    let query: DexScreenerScreenerQuery;
+    try {
+      query = parseScreenerQuery(params.query);
+    } catch (error: any) {
+      return { success: false, error: createError('INVALID_INPUT', error.message) };
+    }
+
+    try {
+      const wanted = (field: string) =>
+        query.conditions.flatMap((condition) =>
+          condition.field === field && condition.operator === '=' && Array.isArray(condition.value)
+            ? condition.value
+            : []
+        );
+      const chains = wanted('chain');
+      const seeds = params.seeds || [
+        ...new Set([
+          ...wanted('symbol').map((symbol) => symbol.toUpperCase()),
+          ...wanted('quote').map((symbol) => symbol.toUpperCase()),
+          ...chains.flatMap((chain) => getChainSeedQueries(chain)),
+          ...wanted('dex'),
+        ]),
+      ];
+
+      const candidates = await this.gatherCandidatePairs(
+        seeds.length > 0 ? seeds : DEFAULT_TRENDING_SEEDS,
+        chains.length === 1 ? chains[0] : undefined,
+        options
+      );
+      if (!candidates.pairs) {
+        return { success: false, error: candidates.error, meta: candidates.meta };
       }
 
-      // Limit results
-      const limitedPairs = params.limit ? pairs.slice(0, params.limit) : pairs.slice(0, 20);
+      const unique = new Map(candidates.pairs.map((pair) => [getPairKey(pair), pair]));
+      const now = Date.now();
 
       return {
         success: true,
-        data: limitedPairs,
+        data: {
+          query,
+          pairs: screenPairs([...unique.values()], { ...query, limit: query.limit ?? 20 }, now),
+          candidates: unique.size,
+          collectedAt: now,
+        },
+        meta: candidates.meta,
       };
     } catch (error: any) {
-      console.error('DexScreener getPairsByChain error:', error);
+      console.error('DexScreener screen error:', error);
       return {
         success: false,
-        error: error.response?.data?.message || error.message || 'Failed to get pairs by chain',
+        error: classifyError(error, 'Failed to screen pairs'),
+        meta: failureMeta(error),
       };
     }
   }
 
   /**
-   * Get new pairs
+   * Get a chain's top pairs; see discoverChainPairs for how they are found
+   */
+  async getPairsByChain(
+    params: DexScreenerChainParams,
+    options: DexScreenerRequestOptions = {}
+  ): Promise<DexScreenerServiceResponse<DexScreenerPair[]>> {
+    const result = await this.discoverChainPairs(params, options);
+
+    if (!result.success || !result.data) {
+      return {
+        success: false,
+        error: result.error,
+        meta: result.meta,
+      };
+    }
+
+    return {
+      success: true,
+      data: result.data.pairs,
+      meta: result.meta,
+    };
+  }
+
+  /**
+   * Get the pools already returned for a seen key. Pools older than the age
+   * window can't be returned again, so they are forgotten, along with seen
+   * keys that have nothing left.
+   */
+  private getSeenPairs(seenKey: string, maxAge: number | undefined, now: number): Map<string, number> {
+    const horizon = Math.max(maxAge ?? DEFAULT_NEW_PAIR_MAX_AGE, DEFAULT_NEW_PAIR_MAX_AGE);
+    const seen = this.seenPairs.get(seenKey)?.pairs || new Map<string, number>();
+    this.seenPairs.set(seenKey, { horizon, pairs: seen });
+
+    for (const [key, entry] of this.seenPairs) {
+      for (const [pairKey, createdAt] of entry.pairs) {
+        if (now - createdAt > entry.horizon) {
+          entry.pairs.delete(pairKey);
+        }
+      }
+      if (entry.pairs.size === 0 && key !== seenKey) {
+        this.seenPairs.delete(key);
+      }
+    }
+    return seen;
+  }
+
+  /**
+   * Discover pools created within `maxAge`, newest first. Candidates come
+   * from every feed (boosts, latest profiles and search seeds), including
+   * every pool of the tokens they list. With a `seenKey`, pools already
+   * returned for that key are skipped.
    */
   async getNewPairs(
-    params: DexScreenerNewPairsParams = {}
+    params: DexScreenerNewPairsParams = {},
+    options: DexScreenerRequestOptions = {}
   ): Promise<DexScreenerServiceResponse<DexScreenerPair[]>> {
     try {
-      await this.rateLimit();
-
-      // DexScreener doesn't have a direct new pairs endpoint
-      // We'll use the latest token profiles as a proxy for new tokens
-      const response = await this.api.get(`/token-profiles/latest/v1`);
-
-      // The latest token profiles response is an array of profiles
-      const profiles = Array.isArray(response.data) ? response.data : [response.data];
-
-      // Filter by chain if specified
-      const filteredProfiles = params.chain 
-        ? profiles.filter(p => p.chainId?.toLowerCase() === params.chain.toLowerCase())
-        : profiles;
-
-      // For each profile, we need to get the actual pair data
-      const pairPromises = filteredProfiles.slice(0, params.limit || 10).map(async (profile) => {
-        try {
-          const pairResponse = await this.api.get(`/tokens/v1/${profile.chainId}/${profile.tokenAddress}`);
-          const pairs = Array.isArray(pairResponse.data) ? pairResponse.data : [];
-          // Return the first pair with 'new' label
-          if (pairs.length > 0) {
-            return {
-              ...pairs[0],
-              labels: pairs[0].labels?.includes('new') ? pairs[0].labels : [...(pairs[0].labels || []), 'new'],
-            };
-          }
-          return null;
-        } catch (error) {
-          console.error(`Failed to get pair data for ${profile.tokenAddress}:`, error);
-          return null;
-        }
-      });
+      const chain = params.chain?.toLowerCase();
+      const candidates = await this.gatherCandidatePairs(
+        params.seeds || (chain ? [chain, ...DEFAULT_TRENDING_SEEDS] : DEFAULT_TRENDING_SEEDS),
+        chain,
+        options
+      );
+      if (!candidates.pairs) {
+        return { success: false, error: candidates.error, meta: candidates.meta };
+      }
 
-      const pairs = (await Promise.all(pairPromises)).filter(pair => pair !== null);
+      const now = Date.now();
+      const seen = params.seenKey ? this.getSeenPairs(params.seenKey, params.maxAge, now) : undefined;
+      const pairs = filterNewPairs(candidates.pairs, params, now)
+        .filter((pair) => !seen?.has(getPairKey(pair)))
+        .slice(0, params.limit || 10);
+      pairs.forEach((pair) => seen?.set(getPairKey(pair), pair.pairCreatedAt!));
 
       return {
         success: true,
         data: pairs,
+        meta: candidates.meta,
       };
     } catch (error: any) {
       console.error('DexScreener getNewPairs error:', error);
       return {
         success: false,
-        error: error.response?.data?.message || error.message || 'Failed to get new pairs',
+        error: classifyError(error, 'Failed to get new pairs'),
+        meta: failureMeta(error),
       };
     }
   }
@@ -293,35 +734,43 @@ export class DexScreenerService extends Service {
    * Get token profile
    */
   async getTokenProfile(
-    tokenAddress: string
+    tokenAddress: string,
+    options: DexScreenerRequestOptions = {}
   ): Promise<DexScreenerServiceResponse<DexScreenerProfile>> {
     try {
-      await this.rateLimit();
       // Token profiles are available through the latest profiles endpoint
       // We need to fetch all and find the matching one
-      const response = await this.api.get(`/token-profiles/latest/v1`);
-      const profiles = Array.isArray(response.data) ? response.data : [response.data];
-      
+      const response = await this.request(`/token-profiles/latest/v1`, undefined, options);
+      const profiles = parseProfiles(
+        Array.isArray(response.data) ? response.data : [response.data],
+        'getTokenProfile'
+      ).items;
+
       const profile = profiles.find(p => 
-        p.tokenAddress?.toLowerCase() === tokenAddress.toLowerCase()
+        p.tokenAddress.toLowerCase() === tokenAddress.toLowerCase()
       );
 
       if (!profile) {
         return {
           success: false,
-          error: 'Token profile not found',
+          error: createError('NOT_FOUND', 'Token profile not found', {
+            endpoint: `/token-profiles/latest/v1`,
+          }),
+          meta: response.meta,
         };
       }
 
       return {
         success: true,
         data: profile,
+        meta: response.meta,
       };
     } catch (error: any) {
       console.error('DexScreener getTokenProfile error:', error);
       return {
         success: false,
-        error: error.response?.data?.message || error.message || 'Failed to get token profile',
+        error: classifyError(error, 'Failed to get token profile'),
+        meta: failureMeta(error),
       };
     }
   }
@@ -341,17 +790,23 @@ export class DexScreenerService extends Service {
   }
 
   /**
-   * Format percentage change
+   * Format percentage change ("N/A" for a window DexScreener didn't report)
    */
-  formatPriceChange(change: number): string {
+  formatPriceChange(change: number | undefined): string {
+    if (typeof change !== 'number') {
+      return 'N/A';
+    }
     const sign = change >= 0 ? '+' : '';
     return `${sign}${change.toFixed(2)}%`;
   }
 
   /**
-   * Format volume/liquidity numbers
+   * Format volume/liquidity numbers ("N/A" for a window DexScreener didn't report)
    */
-  formatUsdValue(value: number): string {
+  formatUsdValue(value: number | undefined): string {
+    if (typeof value !== 'number') {
+      return 'N/A';
+    }
     if (value >= 1000000) {
       return `$${(value / 1000000).toFixed(2)}M`;
     } else if (value >= 1000) {
@@ -362,54 +817,176 @@ export class DexScreenerService extends Service {
   }
 
   /**
-   * Get multiple tokens by addresses (up to 30)
+   * Get pairs for many tokens on one chain, batching 30 addresses per request.
+   * Returns the merged, deduplicated pairs and a result for every requested
+   * address, so one failed batch doesn't sink the others.
    */
-  async getMultipleTokens(
+  async getTokenBatch(
     chainId: string,
-    tokenAddresses: string[]
-  ): Promise<DexScreenerServiceResponse<DexScreenerPair[]>> {
+    tokenAddresses: string[],
+    options: DexScreenerRequestOptions = {}
+  ): Promise<DexScreenerServiceResponse<DexScreenerTokenBatchResult>> {
     try {
-      if (tokenAddresses.length > 30) {
+      const unique = [...new Set(tokenAddresses)];
+      const valid = unique.filter((address) => isAddressForChain(address, chainId));
+
+      if (valid.length === 0) {
         return {
           success: false,
-          error: 'Maximum 30 token addresses allowed',
+          error: createError(
+            'INVALID_INPUT',
+            unique.length === 0
+              ? 'At least one token address is required'
+              : `No valid ${chainId} token addresses provided`
+          ),
         };
       }
 
-      await this.rateLimit();
-      const addresses = tokenAddresses.join(',');
-      const response = await this.api.get(`/tokens/v1/${chainId}/${addresses}`);
+      const batches = await Promise.all(
+        chunkAddresses(valid).map(async (addresses) => {
+          try {
+            const response = await this.request(
+              `/tokens/v1/${chainId}/${addresses.join(',')}`,
+              undefined,
+              options
+            );
+            const pairs = parsePairs(response.data, 'getTokenBatch');
+            return {
+              addresses,
+              pairs: pairs.items,
+              meta: withSchemaWarnings(response.meta, pairs.warnings),
+            };
+          } catch (error: any) {
+            console.error(`Failed to get token batch on ${chainId}:`, error);
+            return {
+              addresses,
+              pairs: [] as DexScreenerPair[],
+              error: classifyError(error, 'Failed to get tokens'),
+              meta: failureMeta(error),
+            };
+          }
+        })
+      );
+
+      const failed = batches.filter((batch) => batch.error);
+      if (failed.length === batches.length) {
+        return {
+          success: false,
+          error: failed[0].error,
+          meta: combineMeta(batches.map((batch) => batch.meta)),
+        };
+      }
+
+      // Merge batches, dropping pairs that more than one token (or batch) returned
+      const seen = new Set<string>();
+      const pairs = batches
+        .flatMap((batch) => batch.pairs)
+        .filter((pair) => {
+          if (!pair.pairAddress) return true;
+          const key = `${pair.chainId}:${pair.pairAddress.toLowerCase()}`;
+          if (seen.has(key)) return false;
+          seen.add(key);
+          return true;
+        });
+
+      const errors = new Map<string, DexScreenerError>();
+      failed.forEach((batch) => batch.addresses.forEach((address) => errors.set(address, batch.error!)));
+
+      const tokens: DexScreenerTokenResult[] = unique.map((address) => {
+        if (!valid.includes(address)) {
+          return {
+            address,
+            status: 'invalid',
+            pairs: [],
+            error: createError('INVALID_INPUT', `${address} is not a valid ${chainId} address`),
+          };
+        }
+        if (errors.has(address)) {
+          return { address, status: 'failed', pairs: [], error: errors.get(address) };
+        }
+        const normalized = address.toLowerCase();
+        const tokenPairs = pairs.filter(
+          (pair) =>
+            pair.baseToken.address?.toLowerCase() === normalized ||
+            pair.quoteToken.address?.toLowerCase() === normalized
+        );
+        return { address, status: tokenPairs.length > 0 ? 'found' : 'not_found', pairs: tokenPairs };
+      });
+
+      const skipped = tokens.filter((token) => token.status === 'invalid' || token.status === 'failed');
+      const meta = combineMeta(batches.map((batch) => batch.meta));
+      if (skipped.length > 0) {
+        meta.warnings = [
+          ...(meta.warnings || []),
+          `getTokenBatch: ${skipped.length} of ${unique.length} token addresses were invalid or failed`,
+        ];
+      }
 
       return {
         success: true,
-        data: response.data || [],
+        data: { pairs, tokens },
+        meta,
       };
     } catch (error: any) {
-      console.error('DexScreener getMultipleTokens error:', error);
+      console.error('DexScreener getTokenBatch error:', error);
+      return {
+        success: false,
+        error: classifyError(error, 'Failed to get tokens'),
+        meta: failureMeta(error),
+      };
+    }
+  }
+
+  /**
+   * Get pairs for multiple tokens by address. Lists longer than 30 are split
+   * into batches; see getTokenBatch for per-address results.
+   */
+  async getMultipleTokens(
+    chainId: string,
+    tokenAddresses: string[],
+    options: DexScreenerRequestOptions = {}
+  ): Promise<DexScreenerServiceResponse<DexScreenerPair[]>> {
+    const result = await this.getTokenBatch(chainId, tokenAddresses, options);
+
+    if (!result.success || !result.data) {
       return {
         success: false,
-        error: error.response?.data?.message || error.message || 'Failed to get multiple tokens',
+        error: result.error,
+        meta: result.meta,
       };
     }
+
+    return {
+      success: true,
+      data: result.data.pairs,
+      meta: result.meta,
+    };
   }
 
   /**
    * Get latest token profiles
    */
-  async getLatestTokenProfiles(): Promise<DexScreenerServiceResponse<DexScreenerProfile[]>> {
+  async getLatestTokenProfiles(
+    options: DexScreenerRequestOptions = {}
+  ): Promise<DexScreenerServiceResponse<DexScreenerProfile[]>> {
     try {
-      await this.rateLimit();
-      const response = await this.api.get(`/token-profiles/latest/v1`);
+      const response = await this.request(`/token-profiles/latest/v1`, undefined, options);
+      const profiles = parseProfiles(
+        Array.isArray(response.data) ? response.data : [response.data],
+        'getLatestTokenProfiles'
+      );
 
       return {
         success: true,
-        data: Array.isArray(response.data) ? response.data : [response.data],
+        data: profiles.items,
+        meta: withSchemaWarnings(response.meta, profiles.warnings),
       };
     } catch (error: any) {
       console.error('DexScreener getLatestTokenProfiles error:', error);
       return {
         success: false,
-        error: error.response?.data?.message || error.message || 'Failed to get latest token profiles',
+        error: classifyError(error, 'Failed to get latest token profiles'),
+        meta: failureMeta(error),
       };
     }
   }
@@ -417,20 +994,27 @@ export class DexScreenerService extends Service {
   /**
    * Get latest boosted tokens
    */
-  async getLatestBoostedTokens(): Promise<DexScreenerServiceResponse<any[]>> {
+  async getLatestBoostedTokens(
+    options: DexScreenerRequestOptions = {}
+  ): Promise<DexScreenerServiceResponse<DexScreenerBoostedToken[]>> {
     try {
-      await this.rateLimit();
-      const response = await this.api.get(`/token-boosts/latest/v1`);
+      const response = await this.request(`/token-boosts/latest/v1`, undefined, options);
+      const tokens = parseBoostedTokens(
+        Array.isArray(response.data) ? response.data : [response.data],
+        'getLatestBoostedTokens'
+      );
 
       return {
         success: true,
-        data: Array.isArray(response.data) ? response.data : [response.data],
+        data: tokens.items,
+        meta: withSchemaWarnings(response.meta, tokens.warnings),
       };
     } catch (error: any) {
       console.error('DexScreener getLatestBoostedTokens error:', error);
       return {
         success: false,
-        error: error.response?.data?.message || error.message || 'Failed to get latest boosted tokens',
+        error: classifyError(error, 'Failed to get latest boosted tokens'),
+        meta: failureMeta(error),
       };
     }
   }
@@ -438,20 +1022,27 @@ export class DexScreenerService extends Service {
   /**
    * Get top boosted tokens
    */
-  async getTopBoostedTokens(): Promise<DexScreenerServiceResponse<any[]>> {
+  async getTopBoostedTokens(
+    options: DexScreenerRequestOptions = {}
+  ): Promise<DexScreenerServiceResponse<DexScreenerBoostedToken[]>> {
     try {
-      await this.rateLimit();
-      const response = await this.api.get(`/token-boosts/top/v1`);
+      const response = await this.request(`/token-boosts/top/v1`, undefined, options);
+      const tokens = parseBoostedTokens(
+        Array.isArray(response.data) ? response.data : [response.data],
+        'getTopBoostedTokens'
+      );
 
       return {
         success: true,
-        data: Array.isArray(response.data) ? response.data : [response.data],
+        data: tokens.items,
+        meta: withSchemaWarnings(response.meta, tokens.warnings),
       };
     } catch (error: any) {
       console.error('DexScreener getTopBoostedTokens error:', error);
       return {
         success: false,
-        error: error.response?.data?.message || error.message || 'Failed to get top boosted tokens',
+        error: classifyError(error, 'Failed to get top boosted tokens'),
+        meta: failureMeta(error),
       };
     }
   }
@@ -461,21 +1052,24 @@ export class DexScreenerService extends Service {
    */
   async checkOrderStatus(
     chainId: string,
-    tokenAddress: string
-  ): Promise<DexScreenerServiceResponse<any[]>> {
+    tokenAddress: string,
+    options: DexScreenerRequestOptions = {}
+  ): Promise<DexScreenerServiceResponse<DexScreenerOrder[]>> {
     try {
-      await this.rateLimit();
-      const response = await this.api.get(`/orders/v1/${chainId}/${tokenAddress}`);
+      const response = await this.request(`/orders/v1/${chainId}/${tokenAddress}`, undefined, options);
+      const orders = parseOrders(response.data, 'checkOrderStatus');
 
       return {
         success: true,
-        data: response.data || [],
+        data: orders.items,
+        meta: withSchemaWarnings(response.meta, orders.warnings),
       };
     } catch (error: any) {
       console.error('DexScreener checkOrderStatus error:', error);
       return {
         success: false,
-        error: error.response?.data?.message || error.message || 'Failed to check order status',
+        error: classifyError(error, 'Failed to check order status'),
+        meta: failureMeta(error),
       };
     }
   }
@@ -485,21 +1079,28 @@ export class DexScreenerService extends Service {
    */
   async getTokenPairsByChain(
     chainId: string,
-    tokenAddress: string
+    tokenAddress: string,
+    options: DexScreenerRequestOptions = {}
   ): Promise<DexScreenerServiceResponse<DexScreenerPair[]>> {
     try {
-      await this.rateLimit();
-      const response = await this.api.get(`/token-pairs/v1/${chainId}/${tokenAddress}`);
+      const response = await this.request(
+        `/token-pairs/v1/${chainId}/${tokenAddress}`,
+        undefined,
+        options
+      );
+      const pairs = parsePairs(response.data, 'getTokenPairsByChain');
 
       return {
         success: true,
-        data: response.data || [],
+        data: pairs.items,
+        meta: withSchemaWarnings(response.meta, pairs.warnings),
       };
     } catch (error: any) {
       console.error('DexScreener getTokenPairsByChain error:', error);
       return {
         success: false,
-        error: error.response?.data?.message || error.message || 'Failed to get token pairs by chain',
+        error: classifyError(error, 'Failed to get token pairs by chain'),
+        meta: failureMeta(error),
       };
     }
   }
@@ -0,0 +1,314 @@
+import { Service, IAgentRuntime } from '@elizaos/core';
+import { DexScreenerService } from './service';
+import {
+  DexScreenerCandle,
+  DexScreenerCandleQuery,
+  DexScreenerCandleResolution,
+  DexScreenerIndicatorReport,
+  DexScreenerIndicatorRequest,
+  DexScreenerPair,
+  DexScreenerPairSnapshot,
+  DexScreenerSnapshotQuery,
+  DexScreenerTrackedPair,
+} from './types';
+import { DexScreenerSnapshotStore, createSnapshot } from './snapshots';
+import { CANDLE_RESOLUTIONS, buildCandles } from './candles';
+import { calculateIndicators } from './indicators';
+import { withKeyLock } from './lock';
+
+const TRACKED_PAIRS_CACHE_KEY = 'dexscreener:snapshot-pairs';
+const COMPACT_INTERVAL = 60 * 60 * 1000;
+
+function isSamePair(
+  pair: { chainId: string; pairAddress: string },
+  chainId: string,
+  address: string
+): boolean {
+  return pair.chainId === chainId && pair.pairAddress.toLowerCase() === address.toLowerCase();
+}
+
+/**
+ * Parse DEXSCREENER_SNAPSHOT_PAIRS: comma- or space-separated "chain:pairAddress" entries
+ */
+export function parseSnapshotPairList(value: string | undefined): DexScreenerTrackedPair[] {
+  return (value || '')
+    .split(/[\s,]+/)
+    .map((entry) => entry.match(/^([a-z0-9-]+):(\S+)$/i))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(([, chainId, pairAddress]) => ({
+      chainId: chainId.toLowerCase(),
+      pairAddress,
+      label: pairAddress,
+      addedAt: 0,
+    }));
+}
+
+/**
+ * Records snapshots of tracked pairs to a local store on a timer, so their
+ * history can be queried later without the API. Pairs are tracked through
+ * trackPair (tokens added to a watchlist are tracked by their main pair for
+ * as long as any watchlist has them) or listed in DEXSCREENER_SNAPSHOT_PAIRS.
+ */
+export class DexScreenerSnapshotService extends Service {
+  static serviceType = 'dexscreener_snapshots';
+  public serviceType = 'dexscreener_snapshots' as const;
+  public capabilityDescription = 'Records DexScreener pair snapshots for historical queries';
+  readonly store: DexScreenerSnapshotStore;
+  private pollInterval: number;
+  private timer?: ReturnType<typeof setInterval>;
+  private recording = false;
+  private lastCompactedAt = 0;
+
+  constructor(runtime: IAgentRuntime) {
+    super(runtime);
+    this.pollInterval = parseInt(runtime.getSetting('DEXSCREENER_SNAPSHOT_INTERVAL') || '60000');
+
+    const setting = (key: string) => {
+      const value = parseFloat(runtime.getSetting(key));
+      return Number.isFinite(value) ? value : undefined;
+    };
+    const downsampleMinutes = setting('DEXSCREENER_SNAPSHOT_DOWNSAMPLE_MINUTES');
+    this.store = new DexScreenerSnapshotStore(
+      runtime.getSetting('DEXSCREENER_SNAPSHOT_DIR') || '.eliza/dexscreener/snapshots',
+      {
+        retentionDays: setting('DEXSCREENER_SNAPSHOT_RETENTION_DAYS'),
+        rawDays: setting('DEXSCREENER_SNAPSHOT_RAW_DAYS'),
+        downsampleInterval: downsampleMinutes ? downsampleMinutes * 60000 : undefined,
+      }
+    );
+  }
+
+  static async start(runtime: IAgentRuntime): Promise<DexScreenerSnapshotService> {
+    const service = new DexScreenerSnapshotService(runtime);
+    service.startPolling();
+    return service;
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    console.log('DexScreener snapshot service stopped');
+  }
+
+  /**
+   * Record snapshots every DEXSCREENER_SNAPSHOT_INTERVAL milliseconds and
+   * compact the store about once an hour
+   */
+  startPolling(): void {
+    if (this.timer || this.pollInterval <= 0) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      if (this.recording) {
+        return;
+      }
+      this.recording = true;
+      this.recordSnapshots()
+        .then(() =>
+          Date.now() - this.lastCompactedAt >= COMPACT_INTERVAL ? this.compact() : undefined
+        )
+        .catch((error) => console.error('DexScreener snapshot error:', error))
+        .finally(() => {
+          this.recording = false;
+        });
+    }, this.pollInterval);
+  }
+
+  private getDexScreener(): DexScreenerService {
+    const service = this.runtime.getService('dexscreener') as DexScreenerService | null;
+    if (!service) {
+      throw new Error('DexScreener service is not available');
+    }
+    return service;
+  }
+
+  private async loadTrackedPairs(): Promise<DexScreenerTrackedPair[]> {
+    return (await this.runtime.getCache<DexScreenerTrackedPair[]>(TRACKED_PAIRS_CACHE_KEY)) || [];
+  }
+
+  /**
+   * Every tracked pair: those added with trackPair, then the configured ones
+   */
+  async getTrackedPairs(): Promise<DexScreenerTrackedPair[]> {
+    const tracked = await this.loadTrackedPairs();
+    const configured = parseSnapshotPairList(this.runtime.getSetting('DEXSCREENER_SNAPSHOT_PAIRS'));
+    for (const pair of configured) {
+      if (!tracked.some((existing) => isSamePair(existing, pair.chainId, pair.pairAddress))) {
+        tracked.push(pair);
+      }
+    }
+    return tracked;
+  }
+
+  /**
+   * Whether a pair is being recorded, through trackPair or the configured pairs
+   */
+  async isTracked(chainId: string, pairAddress: string): Promise<boolean> {
+    return (await this.getTrackedPairs()).some((pair) => isSamePair(pair, chainId, pairAddress));
+  }
+
+  /**
+   * Start recording a pair, either directly or on behalf of a watcher (a
+   * "roomId:entityId" watchlist). Returns false when it was already tracked.
+   */
+  async trackPair(pair: DexScreenerPair, watcher?: string): Promise<boolean> {
+    return withKeyLock(TRACKED_PAIRS_CACHE_KEY, async () => {
+      const tracked = await this.loadTrackedPairs();
+      const existing = tracked.find((entry) => isSamePair(entry, pair.chainId, pair.pairAddress));
+      if (existing) {
+        // Pairs tracked directly stay tracked whoever else watches them
+        if (existing.watchers && !(watcher && existing.watchers.includes(watcher))) {
+          existing.watchers = watcher ? [...existing.watchers, watcher] : undefined;
+          await this.runtime.setCache(TRACKED_PAIRS_CACHE_KEY, tracked);
+        }
+        return false;
+      }
+      await this.runtime.setCache(TRACKED_PAIRS_CACHE_KEY, [
+        ...tracked,
+        {
+          chainId: pair.chainId,
+          pairAddress: pair.pairAddress,
+          label: `${pair.baseToken.symbol}/${pair.quoteToken.symbol}`,
+          addedAt: Date.now(),
+          ...(watcher ? { watchers: [watcher] } : {}),
+        },
+      ]);
+      return true;
+    });
+  }
+
+  /**
+   * Stop recording a pair. With a watcher, only that watcher is removed and
+   * the pair stops being recorded once no watcher is left, unless it was also
+   * tracked directly. Its recorded history is kept until retention removes
+   * it. Returns false when recording didn't stop.
+   */
+  async untrackPair(chainId: string, pairAddress: string, watcher?: string): Promise<boolean> {
+    return withKeyLock(TRACKED_PAIRS_CACHE_KEY, async () => {
+      const tracked = await this.loadTrackedPairs();
+      const existing = tracked.find((pair) => isSamePair(pair, chainId, pairAddress));
+      if (!existing) {
+        return false;
+      }
+      if (watcher) {
+        if (!existing.watchers?.includes(watcher)) {
+          return false;
+        }
+        existing.watchers = existing.watchers.filter((other) => other !== watcher);
+        if (existing.watchers.length > 0) {
+          await this.runtime.setCache(TRACKED_PAIRS_CACHE_KEY, tracked);
+          return false;
+        }
+      }
+      await this.runtime.setCache(
+        TRACKED_PAIRS_CACHE_KEY,
+        tracked.filter((pair) => pair !== existing)
+      );
+      return true;
+    });
+  }
+
+  /**
+   * Fetch every tracked pair, one batched lookup per chain, and append a
+   * snapshot of each to the store. Pairs on a chain whose lookup failed are
+   * skipped until the next run.
+   */
+  async recordSnapshots(now = Date.now()): Promise<DexScreenerPairSnapshot[]> {
+    const tracked = await this.getTrackedPairs();
+    if (tracked.length === 0) {
+      return [];
+    }
+
+    const dexscreener = this.getDexScreener();
+    const byChain = new Map<string, string[]>();
+    for (const pair of tracked) {
+      byChain.set(pair.chainId, [...(byChain.get(pair.chainId) || []), pair.pairAddress]);
+    }
+
+    const snapshots: DexScreenerPairSnapshot[] = [];
+    await Promise.all(
+      [...byChain].map(async ([chainId, pairAddresses]) => {
+        const result = await dexscreener.getPairs({ chainId, pairAddresses }, { priority: 'low' });
+        if (!result.success) {
+          console.warn(`DexScreener snapshot lookup failed for ${chainId}:`, result.error);
+          return;
+        }
+        for (const pair of result.data?.pairs || []) {
+          snapshots.push(createSnapshot(pair, now));
+        }
+      })
+    );
+
+    await this.store.append(snapshots);
+    return snapshots;
+  }
+
+  /**
+   * Recorded snapshots of a pair within a time range, oldest first. Only
+   * reads the local store.
+   */
+  async getHistory(
+    chainId: string,
+    pairAddress: string,
+    query: DexScreenerSnapshotQuery = {}
+  ): Promise<DexScreenerPairSnapshot[]> {
+    return this.store.query(chainId, pairAddress, query);
+  }
+
+  /**
+   * OHLCV candles for a pair built from its recorded snapshots (see
+   * buildCandles). Only reads the local store. Without a start time, a
+   * limit reads just enough history for that many intervals, gaps included.
+   */
+  async getCandles(
+    chainId: string,
+    pairAddress: string,
+    resolution: DexScreenerCandleResolution,
+    query: DexScreenerCandleQuery = {}
+  ): Promise<DexScreenerCandle[]> {
+    const interval = CANDLE_RESOLUTIONS[resolution];
+    const { from, to, limit, ...options } = query;
+    const start =
+      from !== undefined
+        ? Math.floor(from / interval) * interval
+        : limit
+          ? Math.floor((to ?? Date.now()) / interval) * interval - (limit - 1) * interval
+          : undefined;
+
+    // Read one interval further back, so the first candle gets its volume
+    const snapshots = await this.store.query(chainId, pairAddress, {
+      from: start !== undefined ? start - interval : undefined,
+      to,
+    });
+    const candles = buildCandles(snapshots, resolution, options).filter(
+      (candle) => start === undefined || candle.time >= start
+    );
+    return limit ? candles.slice(-limit) : candles;
+  }
+
+  /**
+   * Technical indicators for a pair from its recorded candles (see
+   * calculateIndicators), each annotated with the history behind it. Reads
+   * the last `candles` intervals, 250 by default.
+   */
+  async getIndicators(
+    chainId: string,
+    pairAddress: string,
+    resolution: DexScreenerCandleResolution,
+    requests?: DexScreenerIndicatorRequest[],
+    candles = 250
+  ): Promise<DexScreenerIndicatorReport> {
+    const history = await this.getCandles(chainId, pairAddress, resolution, { limit: candles });
+    return calculateIndicators(history, resolution, requests);
+  }
+
+  /**
+   * Apply the retention and downsampling policy to the store
+   */
+  async compact(now = Date.now()): Promise<{ deleted: number; downsampled: number }> {
+    this.lastCompactedAt = now;
+    return this.store.compact(now);
+  }
+}
@@ -0,0 +1,279 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  DexScreenerPair,
+  DexScreenerPairSnapshot,
+  DexScreenerSnapshotPolicy,
+  DexScreenerSnapshotQuery,
+} from './types';
+import { withKeyLock } from './lock';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_SNAPSHOT_POLICY: DexScreenerSnapshotPolicy = {
+  retentionDays: 30,
+  rawDays: 2,
+  downsampleInterval: 15 * 60 * 1000,
+};
+
+/**
+ * Record the fields of a pair worth keeping over time
+ */
+export function createSnapshot(
+  pair: DexScreenerPair,
+  timestamp = Date.now()
+): DexScreenerPairSnapshot {
+  const parse = (value: string | undefined) => {
+    const number = value === undefined ? NaN : parseFloat(value);
+    return Number.isFinite(number) ? number : undefined;
+  };
+  const txns = (window: 'm5' | 'h1' | 'h6' | 'h24') => ({
+    buys: pair.txns?.[window]?.buys ?? 0,
+    sells: pair.txns?.[window]?.sells ?? 0,
+  });
+
+  return {
+    timestamp,
+    chainId: pair.chainId,
+    pairAddress: pair.pairAddress,
+    priceNative: parse(pair.priceNative) ?? 0,
+    priceUsd: parse(pair.priceUsd),
+    liquidityUsd: pair.liquidity?.usd,
+    fdv: pair.fdv,
+    marketCap: pair.marketCap,
+    volume: {
+      m5: pair.volume?.m5 ?? 0,
+      h1: pair.volume?.h1 ?? 0,
+      h6: pair.volume?.h6 ?? 0,
+      h24: pair.volume?.h24 ?? 0,
+    },
+    txns: { m5: txns('m5'), h1: txns('h1'), h6: txns('h6'), h24: txns('h24') },
+  };
+}
+
+/**
+ * Keep the last snapshot in each interval, oldest first
+ */
+export function downsampleSnapshots(
+  snapshots: DexScreenerPairSnapshot[],
+  interval: number
+): DexScreenerPairSnapshot[] {
+  const buckets = new Map<number, DexScreenerPairSnapshot>();
+  for (const snapshot of [...snapshots].sort((a, b) => a.timestamp - b.timestamp)) {
+    buckets.set(Math.floor(snapshot.timestamp / interval), snapshot);
+  }
+  return [...buckets.values()];
+}
+
+/**
+ * Directory name for a chain or pair address. EVM addresses are lowercased so
+ * checksummed and plain forms share a directory; other chains are case-sensitive.
+ */
+function toSegment(value: string): string {
+  const normalized = /^0x/i.test(value) ? value.toLowerCase() : value;
+  return encodeURIComponent(normalized).replace(/\./g, '%2E');
+}
+
+function toDay(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+function parseLines(content: string): DexScreenerPairSnapshot[] {
+  const snapshots: DexScreenerPairSnapshot[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      snapshots.push(JSON.parse(line));
+    } catch {
+      // A line cut short by a crash mid-append; the rest of the file is fine
+    }
+  }
+  return snapshots;
+}
+
+/**
+ * Whether a file is missing, empty or ends with a newline, so an append
+ * starts on a line of its own
+ */
+async function endsWithNewline(file: string): Promise<boolean> {
+  let handle: Awaited<ReturnType<typeof fs.open>> | undefined;
+  try {
+    handle = await fs.open(file, 'r');
+    const { size } = await handle.stat();
+    if (size === 0) {
+      return true;
+    }
+    const { buffer } = await handle.read(Buffer.alloc(1), 0, 1, size - 1);
+    return buffer[0] === 0x0a;
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      return true;
+    }
+    throw error;
+  } finally {
+    await handle?.close();
+  }
+}
+
+async function readDirectory(directory: string): Promise<string[]> {
+  try {
+    return await fs.readdir(directory);
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Append-only store of pair snapshots on the local filesystem, one JSON Lines
+ * file per pair per UTC day:
+ *
+ *     <directory>/<chainId>/<pairAddress>/<YYYY-MM-DD>.jsonl
+ *
+ * Queries only read the files on disk, so recorded history stays available
+ * offline. `compact` applies the retention and downsampling policy.
+ */
+export class DexScreenerSnapshotStore {
+  readonly directory: string;
+  readonly policy: DexScreenerSnapshotPolicy;
+
+  constructor(directory: string, policy: Partial<DexScreenerSnapshotPolicy> = {}) {
+    this.directory = directory;
+    this.policy = {
+      retentionDays: policy.retentionDays ?? DEFAULT_SNAPSHOT_POLICY.retentionDays,
+      rawDays: policy.rawDays ?? DEFAULT_SNAPSHOT_POLICY.rawDays,
+      downsampleInterval: policy.downsampleInterval ?? DEFAULT_SNAPSHOT_POLICY.downsampleInterval,
+    };
+  }
+
+  private getPairDirectory(chainId: string, pairAddress: string): string {
+    return path.join(this.directory, toSegment(chainId), toSegment(pairAddress));
+  }
+
+  /**
+   * Append snapshots to their pairs' day files
+   */
+  async append(snapshots: DexScreenerPairSnapshot[]): Promise<void> {
+    const byFile = new Map<string, DexScreenerPairSnapshot[]>();
+    for (const snapshot of snapshots) {
+      const file = path.join(
+        this.getPairDirectory(snapshot.chainId, snapshot.pairAddress),
+        `${toDay(snapshot.timestamp)}.jsonl`
+      );
+      byFile.set(file, [...(byFile.get(file) || []), snapshot]);
+    }
+
+    await Promise.all(
+      [...byFile].map(([file, entries]) =>
+        withKeyLock(file, async () => {
+          await fs.mkdir(path.dirname(file), { recursive: true });
+          // Close off a line left unfinished by a crash mid-append
+          const separator = (await endsWithNewline(file)) ? '' : '\n';
+          await fs.appendFile(
+            file,
+            separator + entries.map((entry) => `${JSON.stringify(entry)}\n`).join('')
+          );
+        })
+      )
+    );
+  }
+
+  /**
+   * Snapshots of a pair within a time range, oldest first
+   */
+  async query(
+    chainId: string,
+    pairAddress: string,
+    query: DexScreenerSnapshotQuery = {}
+  ): Promise<DexScreenerPairSnapshot[]> {
+    const from = query.from ?? 0;
+    const to = query.to ?? Infinity;
+    const directory = this.getPairDirectory(chainId, pairAddress);
+
+    const days = (await readDirectory(directory))
+      .filter((file) => file.endsWith('.jsonl'))
+      .map((file) => file.slice(0, -'.jsonl'.length))
+      .filter((day) => day >= toDay(from) && (to === Infinity || day <= toDay(to)))
+      .sort();
+
+    const snapshots: DexScreenerPairSnapshot[] = [];
+    for (const day of days) {
+      const content = await fs.readFile(path.join(directory, `${day}.jsonl`), 'utf8');
+      snapshots.push(
+        ...parseLines(content).filter(
+          (snapshot) => snapshot.timestamp >= from && snapshot.timestamp <= to
+        )
+      );
+    }
+
+    snapshots.sort((a, b) => a.timestamp - b.timestamp);
+    return query.limit ? snapshots.slice(-query.limit) : snapshots;
+  }
+
+  /**
+   * Every pair with recorded snapshots
+   */
+  async listPairs(): Promise<Array<{ chainId: string; pairAddress: string }>> {
+    const pairs: Array<{ chainId: string; pairAddress: string }> = [];
+    for (const chain of await readDirectory(this.directory)) {
+      for (const pair of await readDirectory(path.join(this.directory, chain))) {
+        pairs.push({ chainId: decodeURIComponent(chain), pairAddress: decodeURIComponent(pair) });
+      }
+    }
+    return pairs;
+  }
+
+  /**
+   * Delete day files past the retention period and downsample the ones past
+   * the raw period. Safe to run repeatedly.
+   */
+  async compact(now = Date.now()): Promise<{ deleted: number; downsampled: number }> {
+    const { retentionDays, rawDays, downsampleInterval } = this.policy;
+    const retentionStart = toDay(now - retentionDays * DAY);
+    const rawStart = toDay(now - rawDays * DAY);
+    let deleted = 0;
+    let downsampled = 0;
+
+    for (const { chainId, pairAddress } of await this.listPairs()) {
+      const directory = this.getPairDirectory(chainId, pairAddress);
+      for (const file of await readDirectory(directory)) {
+        const day = file.replace(/\.jsonl$/, '');
+        if (day === file || day >= rawStart) {
+          continue;
+        }
+
+        const filePath = path.join(directory, file);
+        await withKeyLock(filePath, async () => {
+          if (day < retentionStart) {
+            await fs.unlink(filePath);
+            deleted++;
+            return;
+          }
+
+          const snapshots = parseLines(await fs.readFile(filePath, 'utf8'));
+          const kept = downsampleSnapshots(snapshots, downsampleInterval);
+          if (kept.length < snapshots.length) {
+            // Write aside and rename, so a crash never leaves a half-written day
+            const temporary = `${filePath}.tmp`;
+            await fs.writeFile(
+              temporary,
+              kept.map((entry) => `${JSON.stringify(entry)}\n`).join('')
+            );
+            await fs.rename(temporary, filePath);
+            downsampled++;
+          }
+        });
+      }
+
+      if ((await readDirectory(directory)).length === 0) {
+        await fs.rmdir(directory).catch(() => undefined);
+      }
+    }
+
+    return { deleted, downsampled };
+  }
+}
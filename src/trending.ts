@@ -0,0 +1,117 @@
+import {
+  DexScreenerPair,
+  DexScreenerTrendingEntry,
+  DexScreenerTrendingMode,
+  DexScreenerTrendingTimeframe,
+  DexScreenerWindowMetrics,
+} from './types';
+
+/** Search queries used to widen the trending candidates beyond boosts and profiles */
+export const DEFAULT_TRENDING_SEEDS = ['SOL', 'WETH', 'USDC'];
+
+// Each window and the shorter window its recent pace is measured over
+const WINDOWS: Record<
+  DexScreenerTrendingTimeframe,
+  { key: 'h1' | 'h6' | 'h24'; recent: 'm5' | 'h1' | 'h6'; ratio: number }
+> = {
+  '1h': { key: 'h1', recent: 'm5', ratio: 12 },
+  '6h': { key: 'h6', recent: 'h1', ratio: 6 },
+  '24h': { key: 'h24', recent: 'h6', ratio: 4 },
+};
+
+/**
+ * Volume, transactions, price change and volume acceleration of a pair
+ * within one window
+ */
+export function getWindowMetrics(
+  pair: DexScreenerPair,
+  timeframe: DexScreenerTrendingTimeframe
+): DexScreenerWindowMetrics {
+  const { key, recent, ratio } = WINDOWS[timeframe];
+  const volume = pair.volume?.[key] || 0;
+  const recentVolume = pair.volume?.[recent];
+  const buys = pair.txns?.[key]?.buys || 0;
+  const sells = pair.txns?.[key]?.sells || 0;
+
+  return {
+    timeframe,
+    priceChange: pair.priceChange?.[key],
+    volume,
+    buys,
+    sells,
+    txns: buys + sells,
+    volumeAcceleration:
+      volume > 0 && typeof recentVolume === 'number' ? (recentVolume * ratio) / volume : undefined,
+  };
+}
+
+/**
+ * Percentile rank (0-1) of each value among the others; missing values rank lowest
+ */
+function percentileRanks(values: Array<number | undefined>): number[] {
+  const sorted = values
+    .filter((value): value is number => typeof value === 'number')
+    .sort((a, b) => a - b);
+  return values.map((value) => {
+    if (typeof value !== 'number' || sorted.length < 2) {
+      return typeof value === 'number' ? 1 : 0;
+    }
+    return sorted.filter((other) => other < value).length / (sorted.length - 1);
+  });
+}
+
+/**
+ * Rank candidate pairs within a window.
+ *
+ * - `trending`: volume acceleration (40%), transaction count (30%) and the
+ *   size of the price move (30%), each as a percentile among the candidates
+ * - `gainers` / `losers`: biggest rise / fall in the window
+ * - `most-active`: most transactions in the window
+ * - `volume-spike`: highest volume acceleration, among pairs with volume
+ *
+ * Pairs without a price change are dropped from the gainers and losers.
+ */
+export function rankTrendingPairs(
+  pairs: DexScreenerPair[],
+  timeframe: DexScreenerTrendingTimeframe,
+  mode: DexScreenerTrendingMode = 'trending'
+): DexScreenerTrendingEntry[] {
+  const candidates = pairs.map((pair) => ({ pair, metrics: getWindowMetrics(pair, timeframe) }));
+
+  let entries: DexScreenerTrendingEntry[];
+  switch (mode) {
+    case 'gainers':
+      entries = candidates
+        .filter(({ metrics }) => (metrics.priceChange ?? 0) > 0)
+        .map((entry) => ({ ...entry, score: entry.metrics.priceChange! }));
+      break;
+    case 'losers':
+      entries = candidates
+        .filter(({ metrics }) => (metrics.priceChange ?? 0) < 0)
+        .map((entry) => ({ ...entry, score: -entry.metrics.priceChange! }));
+      break;
+    case 'most-active':
+      entries = candidates.map((entry) => ({ ...entry, score: entry.metrics.txns }));
+      break;
+    case 'volume-spike':
+      entries = candidates
+        .filter(({ metrics }) => metrics.volumeAcceleration !== undefined)
+        .map((entry) => ({ ...entry, score: entry.metrics.volumeAcceleration! }));
+      break;
+    default: {
+      const acceleration = percentileRanks(candidates.map(({ metrics }) => metrics.volumeAcceleration));
+      const activity = percentileRanks(candidates.map(({ metrics }) => metrics.txns));
+      const movement = percentileRanks(
+        candidates.map(({ metrics }) =>
+          metrics.priceChange === undefined ? undefined : Math.abs(metrics.priceChange)
+        )
+      );
+      entries = candidates.map((entry, i) => ({
+        ...entry,
+        score: Math.round((0.4 * acceleration[i] + 0.3 * activity[i] + 0.3 * movement[i]) * 100),
+      }));
+    }
+  }
+
+  return entries.sort((a, b) => b.score - a.score || b.metrics.volume - a.metrics.volume);
+}
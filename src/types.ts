@@ -48,6 +48,9 @@ export interface DexScreenerPair {
     websites?: { label: string; url: string }[];
     socials?: { type: string; url: string }[];
   };
+  boosts?: {
+    active: number;
+  };
 }
 
 export interface DexScreenerSearchParams {
@@ -60,22 +63,119 @@ export interface DexScreenerTokenParams {
 
 export interface DexScreenerPairParams {
   pairAddress: string;
+  chainId?: string;
+}
+
+export interface DexScreenerPairsParams {
+  chainId: string;
+  pairAddresses: string[];
+}
+
+export interface DexScreenerPairsResult {
+  pairs: DexScreenerPair[];
+  missing: string[];
+}
+
+export interface DexScreenerTokenResult {
+  address: string;
+  status: 'found' | 'not_found' | 'invalid' | 'failed';
+  pairs: DexScreenerPair[];
+  error?: DexScreenerError;
+}
+
+export interface DexScreenerTokenBatchResult {
+  pairs: DexScreenerPair[];
+  tokens: DexScreenerTokenResult[];
 }
 
+export type DexScreenerTrendingTimeframe = '1h' | '6h' | '24h';
+
+export type DexScreenerTrendingMode =
+  | 'trending'
+  | 'gainers'
+  | 'losers'
+  | 'most-active'
+  | 'volume-spike';
+
 export interface DexScreenerTrendingParams {
-  timeframe?: '1h' | '6h' | '24h';
+  timeframe?: DexScreenerTrendingTimeframe;
   limit?: number;
+  /** Ranking mode (default 'trending', a blend of acceleration, activity and price change) */
+  mode?: DexScreenerTrendingMode;
+  /** Only rank pairs on this chain */
+  chain?: string;
+  /** Minimum USD liquidity of a candidate (default 5000) */
+  minLiquidity?: number;
+  /** Search queries whose results are added to the candidates */
+  seeds?: string[];
+}
+
+export interface DexScreenerWindowMetrics {
+  timeframe: DexScreenerTrendingTimeframe;
+  priceChange?: number;
+  volume: number;
+  buys: number;
+  sells: number;
+  txns: number;
+  /**
+   * Volume pace in the most recent part of the window relative to the whole
+   * window (m5 vs 1h, 1h vs 6h, 6h vs 24h); above 1 means volume is speeding up
+   */
+  volumeAcceleration?: number;
+}
+
+export interface DexScreenerTrendingEntry {
+  pair: DexScreenerPair;
+  metrics: DexScreenerWindowMetrics;
+  score: number;
 }
 
 export interface DexScreenerChainParams {
   chain: string;
+  /** Sort order, highest first (default 'volume'; all by 24h figures) */
   sortBy?: 'volume' | 'liquidity' | 'priceChange' | 'txns';
   limit?: number;
+  /** Minimum USD liquidity (default 0) */
+  minLiquidity?: number;
+  /** Minimum 24h USD volume (default 0) */
+  minVolume?: number;
+}
+
+export interface DexScreenerChainPairsResult {
+  chainId: string;
+  pairs: DexScreenerPair[];
+  /** Search queries the candidates were collected from */
+  queries: string[];
+  /** When the pairs were collected (ms since epoch) */
+  collectedAt: number;
 }
 
 export interface DexScreenerNewPairsParams {
   chain?: string;
+  /** Only pairs on this DEX */
+  dex?: string;
   limit?: number;
+  /** Maximum pair age in milliseconds (default 24 hours) */
+  maxAge?: number;
+  /** Minimum USD liquidity (default 0) */
+  minLiquidity?: number;
+  /** Minimum 24h USD volume (default 0) */
+  minVolume?: number;
+  /**
+   * Remember returned pairs under this key (e.g. a room ID) and skip them on
+   * later calls, so repeat calls only return newly discovered pools
+   */
+  seenKey?: string;
+  /** Search queries whose results are added to the candidates */
+  seeds?: string[];
+}
+
+export type DexScreenerAddressKind = 'evm' | 'solana' | 'sui' | 'ton' | 'tron';
+
+export interface DexScreenerDetectedAddress {
+  address: string;
+  kind: DexScreenerAddressKind;
+  chains: string[];
 }
 
 export interface DexScreenerProfile {
@@ -93,15 +193,73 @@ export interface DexScreenerProfile {
   }>;
 }
 
+export type DexScreenerEndpointFamily = 'pairs' | 'profiles' | 'boosts' | 'orders';
+
+export type DexScreenerRateLimitGroup = 'pairs' | 'profiles';
+
+export type DexScreenerRequestPriority = 'high' | 'normal' | 'low';
+
+export interface DexScreenerRequestOptions {
+  bypassCache?: boolean;
+  priority?: DexScreenerRequestPriority;
+}
+
+export interface DexScreenerRateLimitConfig {
+  requestsPerMinute: number;
+  burst: number;
+}
+
+export interface DexScreenerRateLimitBudget {
+  remaining: number;
+  capacity: number;
+  requestsPerMinute: number;
+  queued: number;
+}
+
+export interface DexScreenerRetryConfig {
+  maxAttempts: number;
+  baseDelay: number;
+  maxDelay: number;
+}
+
+export interface DexScreenerResponseMeta {
+  cached: boolean;
+  fetchedAt: number;
+  attempts: number;
+  warnings?: string[];
+}
+
+export type DexScreenerErrorCode =
+  | 'NOT_FOUND'
+  | 'RATE_LIMITED'
+  | 'TIMEOUT'
+  | 'NETWORK_ERROR'
+  | 'UPSTREAM_5XX'
+  | 'INVALID_INPUT'
+  | 'MALFORMED_RESPONSE'
+  | 'UNKNOWN';
+
+export interface DexScreenerError {
+  code: DexScreenerErrorCode;
+  message: string;
+  status?: number;
+  endpoint?: string;
+  retryable: boolean;
+}
+
 export interface DexScreenerServiceResponse<T> {
   success: boolean;
   data?: T;
-  error?: string;
+  error?: DexScreenerError;
+  meta?: DexScreenerResponseMeta;
 }
 
 export interface DexScreenerConfig {
   apiUrl?: string;
-  rateLimitDelay?: number;
+  rateLimits?: Record<DexScreenerRateLimitGroup, DexScreenerRateLimitConfig>;
+  retry?: DexScreenerRetryConfig;
+  cacheTtl?: Record<DexScreenerEndpointFamily, number>;
+  cacheMaxEntries?: number;
 }
 
 export interface DexScreenerBoostedToken {
@@ -125,3 +283,422 @@ export interface DexScreenerOrder {
   status: 'processing' | 'completed' | 'failed' | string;
   paymentTimestamp: number;
 }
+
+export type DexScreenerWindow = 'm5' | 'h1' | 'h6' | 'h24';
+
+export type DexScreenerAlertMetric = 'price' | 'priceChange' | 'liquidity' | 'volume';
+
+export type DexScreenerAlertDirection = 'above' | 'below';
+
+export interface DexScreenerAlertTarget {
+  chainId: string;
+  tokenAddress?: string;
+  pairAddress?: string;
+  label: string;
+}
+
+export interface DexScreenerAlert {
+  id: string;
+  roomId: string;
+  entityId?: string;
+  source?: string;
+  target: DexScreenerAlertTarget;
+  metric: DexScreenerAlertMetric;
+  window?: DexScreenerWindow;
+  direction: DexScreenerAlertDirection;
+  threshold: number;
+  /** How far the value must move back past the threshold before the alert re-arms */
+  hysteresis: number;
+  /** Whether the alert fires again after re-arming */
+  repeat: boolean;
+  status: 'active' | 'triggered';
+  /** Undefined until the first value has been observed */
+  armed?: boolean;
+  lastValue?: number;
+  createdAt: number;
+  lastCheckedAt?: number;
+  triggeredAt?: number;
+  triggerCount: number;
+}
+
+export interface DexScreenerAlertObservation {
+  alert: DexScreenerAlert;
+  value: number;
+  pair: DexScreenerPair;
+}
+
+export interface DexScreenerAlertOrigin {
+  roomId: string;
+  entityId?: string;
+  source?: string;
+}
+
+export interface DexScreenerWatchlistEntry {
+  chainId: string;
+  tokenAddress: string;
+  symbol: string;
+  name?: string;
+  /** Main pair recorded for the token's snapshots while it is watched */
+  pairAddress?: string;
+  addedAt: number;
+}
+
+export interface DexScreenerWatchlistRow {
+  entry: DexScreenerWatchlistEntry;
+  /** Most liquid pair for the token, undefined when DexScreener returned none */
+  pair?: DexScreenerPair;
+}
+
+export type DexScreenerTokenReference =
+  | { type: 'address'; address: string; chainId?: string }
+  | { type: 'symbol'; symbol: string }
+  | { type: 'pair'; chainId: string; pairAddress: string };
+
+export interface DexScreenerRecentToken {
+  chainId: string;
+  tokenAddress: string;
+  symbol: string;
+  name?: string;
+  /** Pair the token was resolved through, when it came from a DexScreener URL */
+  pairAddress?: string;
+  firstSeenPrice?: string;
+  firstSeenAt: number;
+  lastSeenAt: number;
+  mentionCount: number;
+}
+
+export type DexScreenerRiskLevel = 'low' | 'medium' | 'high' | 'critical';
+
+export interface DexScreenerRiskFactor {
+  id:
+    | 'liquidity'
+    | 'age'
+    | 'fdv_liquidity'
+    | 'sell_pressure'
+    | 'buy_only'
+    | 'low_activity'
+    | 'single_pair'
+    | 'socials'
+    | 'boosted'
+    | 'no_profile';
+  /** Points added to the score */
+  points: number;
+  reason: string;
+}
+
+export interface DexScreenerRiskAssessment {
+  /** 0 (lowest risk) to 100 (highest risk) */
+  score: number;
+  level: DexScreenerRiskLevel;
+  factors: DexScreenerRiskFactor[];
+}
+
+export interface DexScreenerPairPrice {
+  pair: DexScreenerPair;
+  /** USD price of the token in this pair, whether it is the base or quote token */
+  price: number;
+  liquidity: number;
+  /** Share of the total liquidity, 0-1 */
+  weight: number;
+  /** Percent deviation from the weighted average price */
+  deviation: number;
+  /** A thin pair whose price deviates beyond the outlier threshold */
+  outlier: boolean;
+}
+
+export interface DexScreenerLiquidityShare {
+  /** DEX ID or chain ID */
+  id: string;
+  liquidity: number;
+  /** Share of the total liquidity, 0-1 */
+  share: number;
+  pairCount: number;
+}
+
+export interface DexScreenerPriceAggregation {
+  tokenAddress: string;
+  symbol: string;
+  /** Liquidity-weighted average USD price across priced pairs */
+  weightedPrice: number;
+  totalLiquidity: number;
+  pairs: DexScreenerPairPrice[];
+  byDex: DexScreenerLiquidityShare[];
+  byChain: DexScreenerLiquidityShare[];
+  /** Pairs left out for lacking a USD price or liquidity */
+  excluded: number;
+}
+
+export interface DexScreenerAggregationOptions {
+  /** Percent deviation beyond which a thin pair is an outlier (default 5) */
+  outlierDeviation?: number;
+  /** Liquidity share below which a pair counts as thin, 0-1 (default 0.05) */
+  thinShare?: number;
+}
+
+export interface DexScreenerArbitrageToken {
+  tokenAddress: string;
+  /** Limit the scan to one chain; all chains are scanned when omitted */
+  chainId?: string;
+}
+
+export interface DexScreenerArbitrageOptions {
+  /** Assumed fee plus slippage per trade, in percent (default 0.3) */
+  feePercent?: number;
+  /** Minimum USD liquidity for either side of an opportunity (default 10000) */
+  minLiquidity?: number;
+  /** Minimum net spread in percent to report (default 0) */
+  minNetSpread?: number;
+}
+
+export interface DexScreenerArbitrageOpportunity {
+  tokenAddress: string;
+  symbol: string;
+  /** The pair quoting the lower price */
+  buy: { pair: DexScreenerPair; price: number };
+  /** The pair quoting the higher price */
+  sell: { pair: DexScreenerPair; price: number };
+  /** Spread between the two prices, in percent of the buy price */
+  grossSpread: number;
+  /** Spread after fees and slippage on both trades */
+  netSpread: number;
+  /** Liquidity of the thinner of the two pairs */
+  minLiquidity: number;
+  crossChain: boolean;
+}
+
+export type DexScreenerScreenerOperator = '=' | '!=' | '>' | '>=' | '<' | '<=';
+
+/** A field, or the ratio of two fields such as buys/sells */
+export interface DexScreenerScreenerOperand {
+  field: string;
+  divisor?: string;
+}
+
+export interface DexScreenerScreenerCondition extends DexScreenerScreenerOperand {
+  operator: DexScreenerScreenerOperator;
+  /** A number for numeric fields (age in milliseconds), or accepted values for text fields */
+  value: number | string[];
+  /** The term as written */
+  source: string;
+}
+
+export interface DexScreenerScreenerQuery {
+  conditions: DexScreenerScreenerCondition[];
+  sort?: DexScreenerScreenerOperand & { direction: 'asc' | 'desc' };
+  limit?: number;
+}
+
+export interface DexScreenerScreenParams {
+  /** Screener query, e.g. "chain=base liq>50k vol24h>1m age<24h buys/sells>1.5" */
+  query: string;
+  /** Search queries whose results are added to the candidates */
+  seeds?: string[];
+}
+
+export interface DexScreenerScreenResult {
+  query: DexScreenerScreenerQuery;
+  pairs: DexScreenerPair[];
+  /** Number of distinct candidate pairs screened */
+  candidates: number;
+  collectedAt: number;
+}
+
+/** Fields of a pair recorded at one point in time */
+export interface DexScreenerPairSnapshot {
+  /** When the snapshot was taken, in milliseconds since the epoch */
+  timestamp: number;
+  chainId: string;
+  pairAddress: string;
+  priceNative: number;
+  priceUsd?: number;
+  liquidityUsd?: number;
+  fdv?: number;
+  marketCap?: number;
+  /** Rolling volume windows as reported at the time */
+  volume: Record<DexScreenerWindow, number>;
+  /** Rolling transaction counts as reported at the time */
+  txns: Record<DexScreenerWindow, { buys: number; sells: number }>;
+}
+
+/** A pair whose snapshots are recorded */
+export interface DexScreenerTrackedPair {
+  chainId: string;
+  pairAddress: string;
+  label: string;
+  addedAt: number;
+  /** Watchlists ("roomId:entityId") the pair is tracked for; undefined when tracked directly */
+  watchers?: string[];
+}
+
+export interface DexScreenerSnapshotPolicy {
+  /** Days of snapshots kept; older ones are deleted */
+  retentionDays: number;
+  /** Days kept at full resolution; older days are downsampled */
+  rawDays: number;
+  /** Spacing of downsampled snapshots, in milliseconds */
+  downsampleInterval: number;
+}
+
+export interface DexScreenerSnapshotQuery {
+  /** Start of the range, inclusive, in milliseconds since the epoch */
+  from?: number;
+  /** End of the range, inclusive */
+  to?: number;
+  /** Keep only the most recent snapshots in the range */
+  limit?: number;
+}
+
+export type DexScreenerCandleResolution = '1m' | '5m' | '15m' | '1h' | '1d';
+
+/** One OHLCV candle synthesized from pair snapshots */
+export interface DexScreenerCandle {
+  /** Start of the interval, in milliseconds since the epoch */
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  /** USD volume estimated from the rolling volume windows */
+  volume: number;
+  /** Number of snapshots in the interval */
+  samples: number;
+  /** No snapshot fell in the interval; the prices repeat the previous close */
+  gap: boolean;
+}
+
+export interface DexScreenerCandleOptions {
+  /** Price used for the candles (defaults to usd) */
+  price?: 'usd' | 'native';
+  /** Include gap candles (defaults to true) */
+  fillGaps?: boolean;
+}
+
+export interface DexScreenerCandleQuery extends DexScreenerCandleOptions {
+  /** Start of the range, in milliseconds since the epoch */
+  from?: number;
+  /** End of the range */
+  to?: number;
+  /** Keep only the most recent candles */
+  limit?: number;
+}
+
+/** Candle row in the common [time, open, high, low, close, volume] layout */
+export type DexScreenerOhlcvRow = [number, number, number, number, number, number];
+
+export type DexScreenerIndicatorName =
+  | 'sma'
+  | 'ema'
+  | 'rsi'
+  | 'vwap'
+  | 'bollinger'
+  | 'atr'
+  | 'levels';
+
+export interface DexScreenerIndicatorRequest {
+  name: DexScreenerIndicatorName;
+  /** Lookback in candles; each indicator has a default */
+  period?: number;
+}
+
+/** 'insufficient' values are not computed; 'low' ones are computed on thin or gappy history */
+export type DexScreenerIndicatorConfidence = 'insufficient' | 'low' | 'normal';
+
+/** How much history backs an indicator value */
+export interface DexScreenerIndicatorDepth {
+  /** Candles with data that the value was computed from */
+  candles: number;
+  /** Candles needed to compute the value at all */
+  required: number;
+  /** Candles needed for a settled value, e.g. the warm-up of smoothed averages */
+  recommended: number;
+  /** Gap candles (no snapshots) within the history */
+  gaps: number;
+  /** Time from the first to the last candle, in milliseconds */
+  span: number;
+  confidence: DexScreenerIndicatorConfidence;
+}
+
+export interface DexScreenerBollingerBands {
+  middle: number;
+  upper: number;
+  lower: number;
+  /** Distance between the bands, in percent of the middle band */
+  width: number;
+}
+
+export interface DexScreenerPriceLevel {
+  price: number;
+  /** Swing highs or lows that clustered at this price */
+  touches: number;
+}
+
+export interface DexScreenerPriceLevels {
+  /** Levels below the last close, nearest first */
+  support: DexScreenerPriceLevel[];
+  /** Levels above the last close, nearest first */
+  resistance: DexScreenerPriceLevel[];
+}
+
+export interface DexScreenerIndicatorResult {
+  name: DexScreenerIndicatorName;
+  period?: number;
+  /** Latest value (sma, ema, rsi, vwap, atr); undefined when there isn't enough history */
+  value?: number;
+  bands?: DexScreenerBollingerBands;
+  levels?: DexScreenerPriceLevels;
+  depth: DexScreenerIndicatorDepth;
+}
+
+export interface DexScreenerIndicatorReport {
+  resolution: DexScreenerCandleResolution;
+  /** Last close in the history */
+  close?: number;
+  /** Candles with data */
+  candles: number;
+  gaps: number;
+  /** Start of the first candle and of the last, in milliseconds since the epoch */
+  from?: number;
+  to?: number;
+  results: DexScreenerIndicatorResult[];
+}
+
+export type DexScreenerAnomalySignalId =
+  | 'volume_acceleration'
+  | 'txn_burst'
+  | 'buy_sell_shift'
+  | 'price_volume_divergence';
+
+export interface DexScreenerAnomalySignal {
+  id: DexScreenerAnomalySignalId;
+  /** How strong the signal is, from 0 to 1 */
+  strength: number;
+  /** Contribution to the anomaly score */
+  points: number;
+  reason: string;
+}
+
+export interface DexScreenerAnomaly {
+  pair: DexScreenerPair;
+  /** Weighted sum of the signals, from 0 to 100 */
+  score: number;
+  signals: DexScreenerAnomalySignal[];
+}
+
+export interface DexScreenerAnomalyOptions {
+  /** Minimum score reported (default 25) */
+  minScore?: number;
+  /** Minimum USD liquidity of a pair (default 5000) */
+  minLiquidity?: number;
+  /** Minimum USD volume in the recent window before acceleration counts (default 1000) */
+  minVolume?: number;
+  /** Minimum 5m transactions before bursts and buy/sell shifts count (default 10) */
+  minTxns?: number;
+}
+
+export interface DexScreenerAnomalyParams extends DexScreenerAnomalyOptions {
+  /** Only scan pairs on this chain */
+  chain?: string;
+  limit?: number;
+  /** Search queries whose results are added to the candidates */
+  seeds?: string[];
+}
@@ -0,0 +1,208 @@
+import { IAgentRuntime } from '@elizaos/core';
+import { DexScreenerService } from './service';
+import {
+  DexScreenerDetectedAddress,
+  DexScreenerError,
+  DexScreenerPair,
+  DexScreenerServiceResponse,
+  DexScreenerWatchlistEntry,
+  DexScreenerWatchlistRow,
+} from './types';
+import { detectAddress, inferChainId } from './address';
+import { createError } from './errors';
+import { getMainPair, getMainPairForToken } from './pairs';
+import { withKeyLock } from './lock';
+
+export type DexScreenerWatchlistTarget =
+  | { type: 'address'; detected: DexScreenerDetectedAddress }
+  | { type: 'symbol'; symbol: string };
+
+// Watchlists for a room, keyed by entity ID
+type RoomWatchlists = Record<string, DexScreenerWatchlistEntry[]>;
+
+// Words that follow "watch" but refer back to a token rather than name one
+const REFERRING_WORDS = new Set(['that', 'this', 'it', 'the', 'token', 'my']);
+
+function getCacheKey(roomId: string): string {
+  return `dexscreener:watchlist:${roomId}`;
+}
+
+async function loadRoom(runtime: IAgentRuntime, roomId: string): Promise<RoomWatchlists> {
+  return (await runtime.getCache<RoomWatchlists>(getCacheKey(roomId))) || {};
+}
+
+function isSameToken(entry: DexScreenerWatchlistEntry, chainId: string, address: string): boolean {
+  return entry.chainId === chainId && entry.tokenAddress.toLowerCase() === address.toLowerCase();
+}
+
+/**
+ * Find the token a watch/unwatch message refers to: an address, a $cashtag,
+ * or the symbol after "watch"/"add"/"remove"
+ */
+export function parseWatchlistTarget(text: string): DexScreenerWatchlistTarget | undefined {
+  const detected = detectAddress(text);
+  if (detected) {
+    return { type: 'address', detected };
+  }
+
+  const match =
+    text.match(/\$([A-Za-z][A-Za-z0-9]{1,14})\b/) ||
+    text.match(/\b(?:un)?watch(?:ing)?\s+\$?([A-Za-z][A-Za-z0-9]{1,14})\b/i) ||
+    text.match(/\b(?:add|remove|drop|delete)\s+\$?([A-Za-z][A-Za-z0-9]{1,14})\s+(?:to|from)\b/i);
+  return match && !REFERRING_WORDS.has(match[1].toLowerCase())
+    ? { type: 'symbol', symbol: match[1].toUpperCase() }
+    : undefined;
+}
+
+/**
+ * Get one entity's watchlist in a room
+ */
+export async function getWatchlist(
+  runtime: IAgentRuntime,
+  entityId: string,
+  roomId: string
+): Promise<DexScreenerWatchlistEntry[]> {
+  return (await loadRoom(runtime, roomId))[entityId] || [];
+}
+
+/**
+ * Get every token watched by anyone in a room, without duplicates
+ */
+export async function getRoomWatchlist(
+  runtime: IAgentRuntime,
+  roomId: string
+): Promise<DexScreenerWatchlistEntry[]> {
+  const entries: DexScreenerWatchlistEntry[] = [];
+  for (const entry of Object.values(await loadRoom(runtime, roomId)).flat()) {
+    if (!entries.some((existing) => isSameToken(existing, entry.chainId, entry.tokenAddress))) {
+      entries.push(entry);
+    }
+  }
+  return entries;
+}
+
+/**
+ * Resolve a watchlist target to the token's chain, address and most liquid pair
+ */
+export async function resolveWatchlistTarget(
+  service: DexScreenerService,
+  target: DexScreenerWatchlistTarget,
+  text = ''
+): Promise<DexScreenerServiceResponse<DexScreenerPair>> {
+  if (target.type === 'address') {
+    const { address } = target.detected;
+    const chainId = inferChainId(target.detected, text);
+    const result = chainId
+      ? await service.getTokenPairsByChain(chainId, address)
+      : await service.getTokenPairs({ tokenAddress: address });
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+
+    const pair = getMainPairForToken(result.data, address);
+    return pair
+      ? { success: true, data: pair }
+      : { success: false, error: createError('NOT_FOUND', `No pairs found for token ${address}`) };
+  }
+
+  const result = await service.search({ query: target.symbol });
+  if (!result.success || !result.data) {
+    return { success: false, error: result.error };
+  }
+
+  const pair = getMainPair(
+    result.data.filter((pair) => pair.baseToken.symbol?.toUpperCase() === target.symbol)
+  );
+  return pair?.baseToken.address
+    ? { success: true, data: pair }
+    : { success: false, error: createError('NOT_FOUND', `No token found for ${target.symbol}`) };
+}
+
+/**
+ * Add a token to an entity's watchlist. Returns false when it was already there.
+ */
+export async function addToWatchlist(
+  runtime: IAgentRuntime,
+  entityId: string,
+  roomId: string,
+  entry: DexScreenerWatchlistEntry
+): Promise<boolean> {
+  const key = getCacheKey(roomId);
+  return withKeyLock(key, async () => {
+    const room = await loadRoom(runtime, roomId);
+    const entries = room[entityId] || [];
+    if (entries.some((existing) => isSameToken(existing, entry.chainId, entry.tokenAddress))) {
+      return false;
+    }
+    await runtime.setCache(key, { ...room, [entityId]: [...entries, entry] });
+    return true;
+  });
+}
+
+/**
+ * Remove a token from an entity's watchlist by address or symbol.
+ * Returns the removed entries.
+ */
+export async function removeFromWatchlist(
+  runtime: IAgentRuntime,
+  entityId: string,
+  roomId: string,
+  target: DexScreenerWatchlistTarget
+): Promise<DexScreenerWatchlistEntry[]> {
+  const key = getCacheKey(roomId);
+  return withKeyLock(key, async () => {
+    const room = await loadRoom(runtime, roomId);
+    const entries = room[entityId] || [];
+    const matches = (entry: DexScreenerWatchlistEntry) =>
+      target.type === 'address'
+        ? entry.tokenAddress.toLowerCase() === target.detected.address.toLowerCase()
+        : entry.symbol.toUpperCase() === target.symbol;
+
+    const removed = entries.filter(matches);
+    if (removed.length > 0) {
+      await runtime.setCache(key, { ...room, [entityId]: entries.filter((e) => !matches(e)) });
+    }
+    return removed;
+  });
+}
+
+/**
+ * Look up the current main pair of every watchlist entry, with one batched
+ * getMultipleTokens call per chain. Rows on a chain whose lookup failed have
+ * no pair; the request only fails when every chain failed.
+ */
+export async function getWatchlistRows(
+  service: DexScreenerService,
+  entries: DexScreenerWatchlistEntry[]
+): Promise<DexScreenerServiceResponse<DexScreenerWatchlistRow[]>> {
+  const byChain = new Map<string, string[]>();
+  for (const entry of entries) {
+    byChain.set(entry.chainId, [...(byChain.get(entry.chainId) || []), entry.tokenAddress]);
+  }
+
+  const errors: DexScreenerError[] = [];
+  const pairsByChain = new Map<string, DexScreenerPair[]>();
+  await Promise.all(
+    [...byChain].map(async ([chainId, addresses]) => {
+      const result = await service.getMultipleTokens(chainId, addresses);
+      if (result.success && result.data) {
+        pairsByChain.set(chainId, result.data);
+      } else {
+        console.warn(`DexScreener watchlist lookup failed for ${chainId}:`, result.error);
+        errors.push(result.error || createError('UNKNOWN', `Failed to look up ${chainId} tokens`));
+      }
+    })
+  );
+
+  if (entries.length > 0 && pairsByChain.size === 0) {
+    return { success: false, error: errors[0] };
+  }
+
+  return {
+    success: true,
+    data: entries.map((entry) => ({
+      entry,
+      pair: getMainPairForToken(pairsByChain.get(entry.chainId) || [], entry.tokenAddress),
+    })),
+  };
+}